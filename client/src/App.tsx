@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "./hooks/useAuth";
+import { UndoProvider } from "./hooks/useUndo";
 import { AuthModal } from "./components/AuthModal";
 import { useState, useEffect } from "react";
 import Calendar from "@/pages/calendar";
@@ -59,10 +60,12 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <AuthenticatedRouter />
-        </TooltipProvider>
+        <UndoProvider>
+          <TooltipProvider>
+            <Toaster />
+            <AuthenticatedRouter />
+          </TooltipProvider>
+        </UndoProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
@@ -6,6 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { Eye, EyeOff, User, Lock } from "lucide-react";
+import { getSystemTimeZone } from "@shared/timezone";
 
 interface AuthModalProps {
   isOpen: boolean;
@@ -83,6 +84,7 @@ export function AuthModal({ isOpen, onClose, onAuthSuccess }: AuthModalProps) {
         body: JSON.stringify({
           username: signupForm.username,
           password: signupForm.password,
+          timezone: getSystemTimeZone(),
         }),
       });
 
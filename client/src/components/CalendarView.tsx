@@ -1,20 +1,44 @@
-import { useState } from "react";
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, getDay, isSameMonth, isSameDay, addMonths, subMonths, isToday } from "date-fns";
+import { useEffect, useState } from "react";
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, getDay, isSameMonth, isSameDay, addMonths, subMonths, addWeeks, subWeeks, addDays, subDays, startOfWeek, endOfWeek, startOfDay } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import { type Event } from "@shared/schema";
+import { describeRRule } from "@shared/recurrence";
+import { fromZonedTime, toZonedTime } from "@shared/timezone";
+import { useTimeZone } from "@/hooks/useAuth";
+import { SPAN_BAR_HEIGHT, getEventColorClass, isSpanningEvent, layoutSpanningEvents, moveEvent, type EventTimeChange } from "@/lib/calendarLayout";
+import { TimeGridView } from "./TimeGridView";
+
+type CalendarViewMode = 'month' | 'week' | 'day';
+
+// Offset of the first bar lane from the top of a week row, below the date numbers
+const SPAN_BAR_TOP = 30;
 
 interface CalendarViewProps {
   selectedDate: Date;
   events: Event[];
   onDateSelect: (date: Date) => void;
   onEventClick: (event: Event) => void;
+  onEventReschedule?: (event: Event, changes: EventTimeChange) => void;
+  // Instants of a stretch to bring into view and mark, e.g. the days a voice question asked about
+  highlightedRange?: { startDate: Date; endDate: Date } | null;
 }
 
-export function CalendarView({ selectedDate, events, onDateSelect, onEventClick }: CalendarViewProps) {
-  const [currentDate, setCurrentDate] = useState(new Date());
-  const [view, setView] = useState<'month' | 'week' | 'day'>('month');
+export function CalendarView({ selectedDate, events, onDateSelect, onEventClick, onEventReschedule, highlightedRange }: CalendarViewProps) {
+  const timeZone = useTimeZone();
+  const [currentDate, setCurrentDate] = useState(() => toZonedTime(new Date(), timeZone));
+  const [view, setView] = useState<CalendarViewMode>('month');
+  const [draggedEvent, setDraggedEvent] = useState<Event | null>(null);
+  const [dropDate, setDropDate] = useState<Date | null>(null);
+
+  // Show the highlighted days when a new range comes in
+  useEffect(() => {
+    if (highlightedRange) {
+      setCurrentDate(toZonedTime(highlightedRange.startDate, timeZone));
+    }
+  }, [highlightedRange, timeZone]);
 
+  const today = toZonedTime(new Date(), timeZone);
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
   const calendarDays = eachDayOfInterval({ start: monthStart, end: monthEnd });
@@ -35,20 +59,73 @@ export function CalendarView({ selectedDate, events, onDateSelect, onEventClick
     weeks.push(allDays.slice(i, i + 7));
   }
 
+  const highlightedDays = highlightedRange
+    ? {
+        first: startOfDay(toZonedTime(highlightedRange.startDate, timeZone)),
+        last: startOfDay(toZonedTime(new Date(highlightedRange.endDate.getTime() - 1), timeZone)),
+      }
+    : null;
+  const isHighlighted = (date: Date) =>
+    !!highlightedDays && date >= highlightedDays.first && date <= highlightedDays.last;
+
+  // Timed events only; all-day and multi-day events are drawn as bars across the week
   const getEventsForDate = (date: Date) => {
     return events.filter(event => 
-      isSameDay(new Date(event.startDate), date)
+      !isSpanningEvent(event) && isSameDay(toZonedTime(new Date(event.startDate), timeZone), date)
     );
   };
 
-  const navigateMonth = (direction: 'prev' | 'next') => {
-    setCurrentDate(prev => 
-      direction === 'prev' ? subMonths(prev, 1) : addMonths(prev, 1)
-    );
+  // Days shown by the week and day time grids
+  const gridDays = view === 'week'
+    ? eachDayOfInterval({ start: startOfWeek(currentDate), end: endOfWeek(currentDate) })
+    : [startOfDay(currentDate)];
+
+  // Step by the unit of the active view
+  const navigate = (direction: 'prev' | 'next') => {
+    setCurrentDate(prev => {
+      if (view === 'week') return direction === 'prev' ? subWeeks(prev, 1) : addWeeks(prev, 1);
+      if (view === 'day') return direction === 'prev' ? subDays(prev, 1) : addDays(prev, 1);
+      return direction === 'prev' ? subMonths(prev, 1) : addMonths(prev, 1);
+    });
+  };
+
+  const getTitle = () => {
+    if (view === 'day') return format(currentDate, 'EEEE, MMMM d, yyyy');
+    if (view === 'week') {
+      const weekStart = gridDays[0];
+      const weekEnd = gridDays[gridDays.length - 1];
+      return isSameMonth(weekStart, weekEnd)
+        ? `${format(weekStart, 'MMMM d')} - ${format(weekEnd, 'd, yyyy')}`
+        : `${format(weekStart, 'MMM d')} - ${format(weekEnd, 'MMM d, yyyy')}`;
+    }
+    return format(currentDate, 'MMMM yyyy');
+  };
+
+  // Dropping on another day keeps the event's time of day
+  const handleDayDrop = (date: Date) => {
+    setDropDate(null);
+    if (!draggedEvent || !onEventReschedule) return;
+
+    // All-day dates are kept in the event's own zone
+    const zone = draggedEvent.allDay ? draggedEvent.timezone ?? timeZone : timeZone;
+    const start = toZonedTime(new Date(draggedEvent.startDate), zone);
+    if (!isSameDay(start, date)) {
+      start.setFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+      onEventReschedule(draggedEvent, moveEvent(draggedEvent, fromZonedTime(start, zone)));
+    }
+    setDraggedEvent(null);
+  };
+
+  // Zooming in from the month grid opens on the selected day when it's in that month
+  const changeView = (nextView: CalendarViewMode) => {
+    if (nextView !== 'month' && isSameMonth(selectedDate, currentDate)) {
+      setCurrentDate(selectedDate);
+    }
+    setView(nextView);
   };
 
   const goToToday = () => {
-    setCurrentDate(new Date());
+    setCurrentDate(today);
   };
 
   return (
@@ -57,13 +134,13 @@ export function CalendarView({ selectedDate, events, onDateSelect, onEventClick
       <div className="flex items-center justify-between mb-6">
         <div className="flex items-center space-x-4">
           <h2 className="text-2xl font-medium text-gray-900" data-testid="current-month">
-            {format(currentDate, 'MMMM yyyy')}
+            {getTitle()}
           </h2>
           <div className="flex space-x-2">
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => navigateMonth('prev')}
+              onClick={() => navigate('prev')}
               className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100"
               data-testid="prev-month-button"
             >
@@ -72,7 +149,7 @@ export function CalendarView({ selectedDate, events, onDateSelect, onEventClick
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => navigateMonth('next')}
+              onClick={() => navigate('next')}
               className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100"
               data-testid="next-month-button"
             >
@@ -91,137 +168,198 @@ export function CalendarView({ selectedDate, events, onDateSelect, onEventClick
             Today
           </Button>
           <div className="flex bg-gray-100 rounded-lg p-1">
-            <Button
-              variant={view === 'month' ? 'default' : 'ghost'}
-              size="sm"
-              onClick={() => setView('month')}
-              className={`px-3 py-1 text-sm ${view === 'month' ? 'bg-white text-primary-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
-              data-testid="month-view-button"
-            >
-              Month
-            </Button>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setView('week')}
-              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
-              data-testid="week-view-button"
-            >
-              Week
-            </Button>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setView('day')}
-              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
-              data-testid="day-view-button"
-            >
-              Day
-            </Button>
+            {(['month', 'week', 'day'] as const).map(mode => (
+              <Button
+                key={mode}
+                variant={view === mode ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => changeView(mode)}
+                className={`px-3 py-1 text-sm capitalize ${view === mode ? 'bg-white text-primary-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+                data-testid={`${mode}-view-button`}
+              >
+                {mode}
+              </Button>
+            ))}
           </div>
         </div>
       </div>
 
       {/* Calendar Grid */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden" data-testid="calendar-grid">
-        {/* Calendar Header Days */}
-        <div className="grid grid-cols-7 bg-gray-50 border-b border-gray-200">
-          {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
-            <div key={day} className="p-4 text-center text-sm font-medium text-gray-700">
-              {day}
+        {view !== 'month' ? (
+          <TimeGridView
+            days={gridDays}
+            events={events}
+            timeZone={timeZone}
+            selectedDate={selectedDate}
+            onDateSelect={onDateSelect}
+            onEventClick={onEventClick}
+            onEventReschedule={onEventReschedule}
+            isHighlighted={isHighlighted}
+          />
+        ) : (
+          <>
+            {/* Calendar Header Days */}
+            <div className="grid grid-cols-7 bg-gray-50 border-b border-gray-200">
+              {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
+                <div key={day} className="p-4 text-center text-sm font-medium text-gray-700">
+                  {day}
+                </div>
+              ))}
             </div>
-          ))}
-        </div>
 
-        {/* Calendar Body */}
-        <div className="grid grid-cols-7 auto-rows-fr">
-          {weeks.map((week, weekIndex) =>
-            week.map((date, dayIndex) => {
-              const dayEvents = getEventsForDate(date);
-              const isCurrentMonth = isSameMonth(date, currentDate);
-              const isTodayDate = isToday(date);
-              const isSelected = isSameDay(date, selectedDate);
+            {/* Calendar Body */}
+            {weeks.map((week, weekIndex) => {
+              const { segments, lanes } = layoutSpanningEvents(events, week, timeZone);
 
               return (
-                <div
-                  key={`${weekIndex}-${dayIndex}`}
-                  className={`min-h-32 p-2 border-b border-r border-gray-100 cursor-pointer transition-colors ${
-                    isCurrentMonth
-                      ? isTodayDate
-                        ? 'bg-primary-50 border-2 border-primary-500'
-                        : isSelected
-                        ? 'bg-primary-100'
-                        : 'hover:bg-primary-50'
-                      : 'bg-gray-50 hover:bg-gray-100'
-                  } ${dayIndex === 6 ? 'border-r-0' : ''}`}
-                  onClick={() => onDateSelect(date)}
-                  data-testid={`calendar-day-${format(date, 'yyyy-MM-dd')}`}
-                >
-                  <span
-                    className={`text-sm font-medium ${
-                      isCurrentMonth
-                        ? isTodayDate
-                          ? 'text-primary-900'
-                          : 'text-gray-900'
-                        : 'text-gray-400'
-                    }`}
-                  >
-                    {format(date, 'd')}
-                  </span>
-                  
-                  {isTodayDate && isCurrentMonth && (
-                    <div className="text-xs text-primary-600 mt-1">Today</div>
-                  )}
-
-                  {/* Event indicators */}
-                  {dayEvents.length > 0 && (
-                    <div className="mt-1 space-y-1 max-h-20 overflow-y-auto">
-                      {dayEvents.slice(0, 4).map((event, eventIndex) => (
-                        <div
-                          key={event.id}
-                          className={`text-xs px-2 py-1 rounded truncate cursor-pointer hover:shadow-sm transition-all ${
-                            event.isRecurring
-                              ? 'bg-secondary-500 text-white border-l-2 border-secondary-700'
-                              : event.title.toLowerCase().includes('meeting')
-                              ? 'bg-blue-500 text-white border-l-2 border-blue-700'
-                              : event.title.toLowerCase().includes('lunch') || event.title.toLowerCase().includes('dinner')
-                              ? 'bg-orange-500 text-white border-l-2 border-orange-700'
-                              : 'bg-primary-500 text-white border-l-2 border-primary-700'
-                          }`}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onEventClick(event);
-                          }}
-                          data-testid={`event-${event.id}`}
-                          title={`${event.title} - ${format(new Date(event.startDate), 'h:mm a')}`}
-                        >
-                          <div className="flex items-center justify-between">
-                            <span className="truncate flex-1">{event.title}</span>
-                            <span className="ml-1 opacity-75 text-xs">
-                              {format(new Date(event.startDate), 'h:mm')}
-                            </span>
-                          </div>
-                          {event.isRecurring && (
-                            <div className="text-xs opacity-75 mt-0.5">
-                              <span className="inline-block w-3 h-3 mr-1">↻</span>
-                              {event.recurringPattern}
-                            </div>
+                <div key={weekIndex} className="relative grid grid-cols-7">
+                  {week.map((date, dayIndex) => {
+                    const dayEvents = getEventsForDate(date);
+                    const isCurrentMonth = isSameMonth(date, currentDate);
+                    const isTodayDate = isSameDay(date, today);
+                    const isSelected = isSameDay(date, selectedDate);
+                    const isDropTarget = !!dropDate && isSameDay(date, dropDate);
+                    const isHighlightedDate = isHighlighted(date);
+
+                    return (
+                      <div
+                        key={`${weekIndex}-${dayIndex}`}
+                        className={`min-h-32 p-2 border-b border-r border-gray-100 cursor-pointer transition-colors ${
+                          isCurrentMonth
+                            ? isTodayDate
+                              ? 'bg-primary-50 border-2 border-primary-500'
+                              : isSelected
+                              ? 'bg-primary-100'
+                              : 'hover:bg-primary-50'
+                            : 'bg-gray-50 hover:bg-gray-100'
+                        } ${dayIndex === 6 ? 'border-r-0' : ''} ${
+                          isDropTarget ? 'ring-2 ring-inset ring-primary-400' : isHighlightedDate ? 'ring-2 ring-inset ring-amber-400 bg-amber-50' : ''
+                        }`}
+                        onClick={() => onDateSelect(date)}
+                        onDragOver={(e) => {
+                          if (!draggedEvent) return;
+                          e.preventDefault();
+                          e.dataTransfer.dropEffect = 'move';
+                          if (!isDropTarget) setDropDate(date);
+                        }}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          handleDayDrop(date);
+                        }}
+                        data-testid={`calendar-day-${format(date, 'yyyy-MM-dd')}`}
+                      >
+                        <div className="flex items-center justify-between h-5">
+                          <span
+                            className={`text-sm font-medium ${
+                              isCurrentMonth
+                                ? isTodayDate
+                                  ? 'text-primary-900'
+                                  : 'text-gray-900'
+                                : 'text-gray-400'
+                            }`}
+                          >
+                            {format(date, 'd')}
+                          </span>
+                          {isTodayDate && isCurrentMonth && (
+                            <span className="text-xs text-primary-600">Today</span>
                           )}
                         </div>
-                      ))}
-                      {dayEvents.length > 4 && (
-                        <div className="text-xs text-gray-500 px-2 cursor-pointer hover:text-gray-700" 
-                             onClick={() => onDateSelect(date)}>
-                          +{dayEvents.length - 4} more events
-                        </div>
-                      )}
+
+                        {/* Room for the all-day and multi-day bars drawn over this week */}
+                        {lanes > 0 && <div style={{ height: lanes * SPAN_BAR_HEIGHT }} />}
+
+                        {/* Event indicators */}
+                        {dayEvents.length > 0 && (
+                          <div className="mt-1 space-y-1 max-h-20 overflow-y-auto">
+                            {dayEvents.slice(0, 4).map((event, eventIndex) => (
+                              <div
+                                key={event.id}
+                                className={`text-xs px-2 py-1 rounded truncate cursor-pointer hover:shadow-sm transition-all ${getEventColorClass(event)} ${
+                                  draggedEvent?.id === event.id ? 'opacity-50' : ''
+                                }`}
+                                draggable={!!onEventReschedule}
+                                onDragStart={(e) => {
+                                  e.dataTransfer.effectAllowed = 'move';
+                                  e.dataTransfer.setData('text/plain', event.id);
+                                  setDraggedEvent(event);
+                                }}
+                                onDragEnd={() => {
+                                  setDraggedEvent(null);
+                                  setDropDate(null);
+                                }}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onEventClick(event);
+                                }}
+                                data-testid={`event-${event.id}`}
+                                title={`${event.title} - ${format(toZonedTime(new Date(event.startDate), timeZone), 'h:mm a')}`}
+                              >
+                                <div className="flex items-center justify-between">
+                                  <span className="truncate flex-1">{event.title}</span>
+                                  <span className="ml-1 opacity-75 text-xs">
+                                    {format(toZonedTime(new Date(event.startDate), timeZone), 'h:mm')}
+                                  </span>
+                                </div>
+                                {event.isRecurring && event.recurrenceRule && (
+                                  <div className="text-xs opacity-75 mt-0.5 truncate">
+                                    <span className="inline-block w-3 h-3 mr-1">↻</span>
+                                    {describeRRule(event.recurrenceRule)}
+                                  </div>
+                                )}
+                              </div>
+                            ))}
+                            {dayEvents.length > 4 && (
+                              <div className="text-xs text-gray-500 px-2 cursor-pointer hover:text-gray-700" 
+                                   onClick={() => onDateSelect(date)}>
+                                +{dayEvents.length - 4} more events
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  {/* All-day and multi-day bars */}
+                  {segments.map(({ event, startIndex, span, lane, continuesBefore, continuesAfter }) => (
+                    <div
+                      key={event.id}
+                      className={`absolute text-xs px-2 truncate cursor-pointer hover:shadow-sm transition-all ${getEventColorClass(event)} ${
+                        continuesBefore ? '' : 'rounded-l'
+                      } ${continuesAfter ? '' : 'rounded-r'} ${draggedEvent?.id === event.id ? 'opacity-50' : ''}`}
+                      style={{
+                        top: SPAN_BAR_TOP + lane * SPAN_BAR_HEIGHT,
+                        height: SPAN_BAR_HEIGHT - 2,
+                        lineHeight: `${SPAN_BAR_HEIGHT - 2}px`,
+                        left: `calc(${(startIndex / 7) * 100}% + 4px)`,
+                        width: `calc(${(span / 7) * 100}% - 8px)`,
+                      }}
+                      draggable={!!onEventReschedule}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', event.id);
+                        setDraggedEvent(event);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedEvent(null);
+                        setDropDate(null);
+                      }}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onEventClick(event);
+                      }}
+                      data-testid={`event-${event.id}`}
+                      title={event.title}
+                    >
+                      {continuesBefore && '← '}{event.title}
                     </div>
-                  )}
+                  ))}
                 </div>
               );
-            })
-          )}
-        </div>
+            })}
+          </>
+        )}
       </div>
     </main>
   );
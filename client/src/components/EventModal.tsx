@@ -5,67 +5,215 @@ import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { X, Mic } from "lucide-react";
-import { format } from "date-fns";
+import { format, addDays, addMinutes, differenceInMinutes, isValid, subDays } from "date-fns";
 import { type Event } from "@shared/schema";
-import { useEvents } from "@/hooks/useEvents";
+import { formatRRule, parseRRule, describeRRule, WEEKDAYS, type Frequency, type RecurrenceRule, type Weekday } from "@shared/recurrence";
+import { fromZonedTime, toZonedTime } from "@shared/timezone";
+import { useEvents, saveWithConflictCheck } from "@/hooks/useEvents";
+import { useDefaultEventDuration, useLocale, useTimeZone } from "@/hooks/useAuth";
+import { getTimeZoneOptions } from "@/lib/dateUtils";
 import { VoiceInput } from "./VoiceInput";
-import { parseVoiceCommand, generateEventFromVoiceCommand } from "@/lib/voiceUtils";
+import { interpretVoiceCommand, generateEventFromVoiceCommand, describeConflicts } from "@/lib/voiceUtils";
+import { getVoiceMessages } from "@/lib/voiceMessages";
+
+type RecurrenceEnd = 'never' | 'count' | 'until';
+
+interface RecurrenceFormData {
+  frequency: Frequency;
+  interval: string;
+  weekdays: Weekday[];
+  monthlyMode: 'monthday' | 'weekday';
+  ends: RecurrenceEnd;
+  count: string;
+  until: string;
+}
+
+const defaultRecurrence = (date: Date): RecurrenceFormData => ({
+  frequency: 'WEEKLY',
+  interval: "1",
+  weekdays: [WEEKDAYS[date.getDay()]],
+  monthlyMode: 'monthday',
+  ends: 'never',
+  count: "10",
+  until: format(date, "yyyy-MM-dd")
+});
+
+// Which occurrence of its weekday the date is within its month (1-4, or -1 for the last)
+function weekdayOrdinal(date: Date): number {
+  const n = Math.ceil(date.getDate() / 7);
+  const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  return date.getDate() + 7 > daysInMonth ? -1 : n;
+}
+
+// `startDate` holds the wall-clock start in the event's zone
+function buildRecurrenceRule(recurrence: RecurrenceFormData, startDate: Date, timeZone: string): string {
+  const rule: RecurrenceRule = {
+    freq: recurrence.frequency,
+    interval: Math.max(1, parseInt(recurrence.interval) || 1)
+  };
+
+  if (recurrence.frequency === 'WEEKLY' && recurrence.weekdays.length > 0) {
+    rule.byDay = recurrence.weekdays.map(weekday => ({ weekday }));
+  } else if (recurrence.frequency === 'MONTHLY' && recurrence.monthlyMode === 'weekday') {
+    rule.byDay = [{ weekday: WEEKDAYS[startDate.getDay()], n: weekdayOrdinal(startDate) }];
+  }
+
+  if (recurrence.ends === 'count') {
+    rule.count = Math.max(1, parseInt(recurrence.count) || 1);
+  } else if (recurrence.ends === 'until' && recurrence.until) {
+    rule.until = fromZonedTime(new Date(`${recurrence.until}T23:59:59`), timeZone);
+  }
+
+  return formatRRule(rule);
+}
+
+function recurrenceFromRule(value: string, date: Date, timeZone: string): RecurrenceFormData {
+  const recurrence = defaultRecurrence(date);
+  try {
+    const rule = parseRRule(value, timeZone);
+    return {
+      ...recurrence,
+      frequency: rule.freq,
+      interval: String(rule.interval),
+      weekdays: rule.freq === 'WEEKLY' && rule.byDay ? rule.byDay.map(day => day.weekday) : recurrence.weekdays,
+      monthlyMode: rule.freq === 'MONTHLY' && rule.byDay ? 'weekday' : 'monthday',
+      ends: rule.count !== undefined ? 'count' : rule.until ? 'until' : 'never',
+      count: rule.count !== undefined ? String(rule.count) : recurrence.count,
+      until: rule.until ? format(toZonedTime(rule.until, timeZone), "yyyy-MM-dd") : recurrence.until
+    };
+  } catch {
+    return recurrence;
+  }
+}
+
+// Wall-clock date for the form's date and time fields
+function fieldsToDate(date: string, time: string): Date {
+  return new Date(`${date}T${time}`);
+}
+
+function endFields(start: Date, minutes: number): { endDate: string; endTime: string } {
+  const end = addMinutes(start, minutes);
+  return { endDate: format(end, "yyyy-MM-dd"), endTime: format(end, "HH:mm") };
+}
+
+// All-day events end at midnight after their last day; the form shows the last day itself
+function lastDayField(start: Date, end: Date | null): string {
+  return format(end && end > start ? subDays(end, 1) : start, "yyyy-MM-dd");
+}
+
+const INTERVAL_UNITS: Record<Frequency, string> = {
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+  YEARLY: "year(s)"
+};
 
 interface EventModalProps {
   event?: Event | null;
+  // When `event` is an occurrence of a series, whether the edit is for it alone or it and the later ones
+  recurringScope?: 'current' | 'following';
   selectedDate: Date;
   onClose: () => void;
   onSuccess: (title: string) => void;
 }
 
-export function EventModal({ event, selectedDate, onClose, onSuccess }: EventModalProps) {
-  const [formData, setFormData] = useState({
-    title: "",
-    description: "",
-    date: format(selectedDate, "yyyy-MM-dd"),
-    time: "09:00",
-    isRecurring: false,
-    recurringPattern: "weekly",
-    recurringWeeks: "indefinite"
+export function EventModal({ event, recurringScope, selectedDate, onClose, onSuccess }: EventModalProps) {
+  const viewerTimeZone = useTimeZone();
+  const locale = useLocale();
+  const voiceMessages = getVoiceMessages(locale);
+  const defaultDuration = useDefaultEventDuration();
+  const [formData, setFormData] = useState(() => {
+    const date = format(selectedDate, "yyyy-MM-dd");
+    // Time slots in the week and day views select a date with an hour
+    const time = selectedDate.getHours() > 0 ? format(selectedDate, "HH:mm") : "09:00";
+    return {
+      title: "",
+      description: "",
+      date,
+      time,
+      ...endFields(fieldsToDate(date, time), defaultDuration),
+      timezone: viewerTimeZone,
+      allDay: false,
+      isRecurring: false
+    };
   });
+  const [endError, setEndError] = useState<string | null>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceFormData>(() => defaultRecurrence(selectedDate));
 
-  const { createEvent, updateEvent } = useEvents();
+  const { createEvent, updateEvent, updateEventInstance, updateFollowingEvents } = useEvents();
+  const isSaving = createEvent.isPending || updateEvent.isPending || updateEventInstance.isPending || updateFollowingEvents.isPending;
 
   useEffect(() => {
     if (event) {
-      const eventDate = new Date(event.startDate);
+      // Edit in the event's own zone so the wall-clock time it was created with is kept
+      const timezone = event.timezone || viewerTimeZone;
+      const eventDate = toZonedTime(new Date(event.startDate), timezone);
+      const duration = event.endDate
+        ? differenceInMinutes(new Date(event.endDate), new Date(event.startDate))
+        : defaultDuration;
+      const date = format(eventDate, "yyyy-MM-dd");
+      // Unticking "All day" falls back to a timed event at the usual hour
+      const time = event.allDay ? "09:00" : format(eventDate, "HH:mm");
+      const allDayEnd = event.endDate ? toZonedTime(new Date(event.endDate), timezone) : null;
       setFormData({
         title: event.title,
         description: event.description || "",
-        date: format(eventDate, "yyyy-MM-dd"),
-        time: format(eventDate, "HH:mm"),
-        isRecurring: event.isRecurring || false,
-        recurringPattern: event.recurringPattern || "weekly",
-        recurringWeeks: event.recurringWeeks || "indefinite"
+        date,
+        time,
+        ...(event.allDay
+          ? { ...endFields(fieldsToDate(date, time), defaultDuration), endDate: lastDayField(eventDate, allDayEnd) }
+          : endFields(eventDate, duration)),
+        timezone,
+        allDay: event.allDay || false,
+        isRecurring: event.isRecurring || false
       });
+      setRecurrence(event.recurrenceRule
+        ? recurrenceFromRule(event.recurrenceRule, eventDate, timezone)
+        : defaultRecurrence(eventDate));
     }
-  }, [event]);
+  }, [event, viewerTimeZone, defaultDuration]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    // All-day events run from midnight on the first day to midnight after the last
+    const localStart = fieldsToDate(formData.date, formData.allDay ? "00:00" : formData.time);
+    const localEnd = formData.allDay
+      ? addDays(fieldsToDate(formData.endDate, "00:00"), 1)
+      : fieldsToDate(formData.endDate, formData.endTime);
+    if (!(localEnd > localStart)) {
+      setEndError(formData.allDay ? "End date can't be before the start date" : "End time must be after the start time");
+      return;
+    }
+    setEndError(null);
+
     try {
-      const startDate = new Date(`${formData.date}T${formData.time}`);
       const eventData = {
         title: formData.title,
         description: formData.description || null,
-        startDate,
-        endDate: null,
+        startDate: fromZonedTime(localStart, formData.timezone),
+        endDate: fromZonedTime(localEnd, formData.timezone),
+        timezone: formData.timezone,
+        allDay: formData.allDay,
         isRecurring: formData.isRecurring,
-        recurringPattern: formData.isRecurring ? formData.recurringPattern : null,
-        recurringWeeks: formData.isRecurring ? formData.recurringWeeks : null
+        recurrenceRule: formData.isRecurring ? buildRecurrenceRule(recurrence, localStart, formData.timezone) : null
       };
 
-      if (event) {
-        await updateEvent.mutateAsync({ id: event.id, data: eventData });
-      } else {
-        await createEvent.mutateAsync(eventData);
-      }
+      const save = (force: boolean): Promise<unknown> => {
+        if (!event) return createEvent.mutateAsync({ ...eventData, force });
+        if (!recurringScope) return updateEvent.mutateAsync({ id: event.id, data: eventData, force });
+
+        const occurrence = { id: event.id.split('-recur-')[0], instanceDate: new Date(event.originalDate ?? event.startDate), data: eventData, force };
+        return recurringScope === 'current'
+          ? updateEventInstance.mutateAsync(occurrence)
+          : updateFollowingEvents.mutateAsync(occurrence);
+      };
+
+      const saved = await saveWithConflictCheck(
+        save,
+        conflicts => window.confirm(voiceMessages.question(`${describeConflicts(conflicts, viewerTimeZone, locale)}, ${voiceMessages.saveAnyway}`))
+      );
+      if (!saved) return;
 
       onSuccess(formData.title);
       onClose();
@@ -78,23 +226,59 @@ export function EventModal({ event, selectedDate, onClose, onSuccess }: EventMod
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleVoiceCommand = (command: string) => {
-    const parsedCommand = parseVoiceCommand(command);
+  // Moving the start moves the end with it, keeping the duration
+  const handleStartChange = (field: 'date' | 'time', value: string) => {
+    setFormData(prev => {
+      const next = { ...prev, [field]: value };
+      const previousStart = fieldsToDate(prev.date, prev.time);
+      const nextStart = fieldsToDate(next.date, next.time);
+      const duration = differenceInMinutes(fieldsToDate(prev.endDate, prev.endTime), previousStart);
+
+      if (!isValid(previousStart) || !isValid(nextStart) || !(duration > 0)) return next;
+      return { ...next, ...endFields(nextStart, duration) };
+    });
+  };
+
+  const handleRecurrenceChange = <K extends keyof RecurrenceFormData>(field: K, value: RecurrenceFormData[K]) => {
+    setRecurrence(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleWeekday = (weekday: Weekday) => {
+    setRecurrence(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(weekday)
+        ? prev.weekdays.filter(day => day !== weekday)
+        : WEEKDAYS.filter(day => day === weekday || prev.weekdays.includes(day))
+    }));
+  };
+
+  const handleVoiceCommand = async (command: string) => {
+    const parsedCommand = await interpretVoiceCommand(command, formData.timezone, locale);
     
     if (parsedCommand.action === 'create' && parsedCommand.title) {
       // Fill form with voice-parsed data
-      const eventData = generateEventFromVoiceCommand(parsedCommand);
+      const eventData = generateEventFromVoiceCommand(parsedCommand, formData.timezone);
       
       if (eventData) {
+        const localStart = toZonedTime(eventData.startDate, formData.timezone);
+        const duration = eventData.endDate
+          ? differenceInMinutes(eventData.endDate, eventData.startDate)
+          : defaultDuration;
+        const localEnd = eventData.endDate ? toZonedTime(eventData.endDate, formData.timezone) : null;
         setFormData(prev => ({
           ...prev,
           title: eventData.title,
           description: eventData.description || prev.description,
-          date: format(eventData.startDate, "yyyy-MM-dd"),
-          time: format(eventData.startDate, "HH:mm"),
-          isRecurring: eventData.isRecurring,
-          recurringPattern: eventData.recurringPattern || prev.recurringPattern
+          date: format(localStart, "yyyy-MM-dd"),
+          ...(eventData.allDay
+            ? { endDate: lastDayField(localStart, localEnd) }
+            : { time: format(localStart, "HH:mm"), ...endFields(localStart, duration) }),
+          allDay: eventData.allDay,
+          isRecurring: eventData.isRecurring
         }));
+        if (eventData.recurrenceRule) {
+          setRecurrence(recurrenceFromRule(eventData.recurrenceRule, localStart, formData.timezone));
+        }
       }
     } else if (parsedCommand.title) {
       // Just fill the title field if we extracted a title
@@ -146,6 +330,18 @@ export function EventModal({ event, selectedDate, onClose, onSuccess }: EventMod
               />
             </div>
             
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="all-day"
+                checked={formData.allDay}
+                onCheckedChange={(checked) => handleChange("allDay", checked as boolean)}
+                data-testid="all-day-checkbox"
+              />
+              <label htmlFor="all-day" className="text-sm text-gray-700">
+                All day
+              </label>
+            </div>
+
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -154,23 +350,77 @@ export function EventModal({ event, selectedDate, onClose, onSuccess }: EventMod
                 <Input
                   type="date"
                   value={formData.date}
-                  onChange={(e) => handleChange("date", e.target.value)}
+                  onChange={(e) => handleStartChange("date", e.target.value)}
                   required
                   data-testid="event-date-input"
                 />
               </div>
+              {!formData.allDay && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Time
+                  </label>
+                  <Input
+                    type="time"
+                    value={formData.time}
+                    onChange={(e) => handleStartChange("time", e.target.value)}
+                    required
+                    data-testid="event-time-input"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Time
+                  End Date
                 </label>
                 <Input
-                  type="time"
-                  value={formData.time}
-                  onChange={(e) => handleChange("time", e.target.value)}
+                  type="date"
+                  value={formData.endDate}
+                  min={formData.date}
+                  onChange={(e) => handleChange("endDate", e.target.value)}
                   required
-                  data-testid="event-time-input"
+                  data-testid="event-end-date-input"
                 />
               </div>
+              {!formData.allDay && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    End Time
+                  </label>
+                  <Input
+                    type="time"
+                    value={formData.endTime}
+                    onChange={(e) => handleChange("endTime", e.target.value)}
+                    required
+                    data-testid="event-end-time-input"
+                  />
+                </div>
+              )}
+            </div>
+            {endError && (
+              <p className="text-sm text-red-600 -mt-2" data-testid="event-end-error">{endError}</p>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Time zone
+              </label>
+              <Select
+                value={formData.timezone}
+                onValueChange={(value) => handleChange("timezone", value)}
+              >
+                <SelectTrigger data-testid="event-timezone-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {getTimeZoneOptions(formData.timezone, viewerTimeZone).map(zone => (
+                    <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             
             <div>
@@ -200,47 +450,124 @@ export function EventModal({ event, selectedDate, onClose, onSuccess }: EventMod
 
             {formData.isRecurring && (
               <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Recurring Pattern
-                  </label>
-                  <Select
-                    value={formData.recurringPattern}
-                    onValueChange={(value) => handleChange("recurringPattern", value)}
-                  >
-                    <SelectTrigger data-testid="recurring-pattern-select">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="daily">Daily</SelectItem>
-                      <SelectItem value="weekly">Weekly</SelectItem>
-                      <SelectItem value="monthly">Monthly</SelectItem>
-                      <SelectItem value="yearly">Yearly</SelectItem>
-                    </SelectContent>
-                  </Select>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Repeats
+                    </label>
+                    <Select
+                      value={recurrence.frequency}
+                      onValueChange={(value) => handleRecurrenceChange("frequency", value as Frequency)}
+                    >
+                      <SelectTrigger data-testid="recurring-pattern-select">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="DAILY">Daily</SelectItem>
+                        <SelectItem value="WEEKLY">Weekly</SelectItem>
+                        <SelectItem value="MONTHLY">Monthly</SelectItem>
+                        <SelectItem value="YEARLY">Yearly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Every {INTERVAL_UNITS[recurrence.frequency]}
+                    </label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={recurrence.interval}
+                      onChange={(e) => handleRecurrenceChange("interval", e.target.value)}
+                      data-testid="recurring-interval-input"
+                    />
+                  </div>
                 </div>
+
+                {recurrence.frequency === 'WEEKLY' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      On
+                    </label>
+                    <div className="flex space-x-1" data-testid="recurring-weekdays">
+                      {WEEKDAYS.map((weekday) => (
+                        <Button
+                          key={weekday}
+                          type="button"
+                          variant={recurrence.weekdays.includes(weekday) ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => toggleWeekday(weekday)}
+                          className="w-9 px-0 text-xs"
+                          data-testid={`recurring-weekday-${weekday}`}
+                        >
+                          {weekday.charAt(0) + weekday.charAt(1).toLowerCase()}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {recurrence.frequency === 'MONTHLY' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      On
+                    </label>
+                    <Select
+                      value={recurrence.monthlyMode}
+                      onValueChange={(value) => handleRecurrenceChange("monthlyMode", value as RecurrenceFormData['monthlyMode'])}
+                    >
+                      <SelectTrigger data-testid="recurring-monthly-select">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="monthday">Same day of the month</SelectItem>
+                        <SelectItem value="weekday">Same weekday of the month</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Duration
+                    Ends
                   </label>
-                  <Select
-                    value={formData.recurringWeeks}
-                    onValueChange={(value) => handleChange("recurringWeeks", value)}
-                  >
-                    <SelectTrigger data-testid="recurring-weeks-select">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="2">2 weeks</SelectItem>
-                      <SelectItem value="4">4 weeks</SelectItem>
-                      <SelectItem value="8">8 weeks</SelectItem>
-                      <SelectItem value="12">12 weeks</SelectItem>
-                      <SelectItem value="24">24 weeks (6 months)</SelectItem>
-                      <SelectItem value="indefinite">Indefinite</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <div className="grid grid-cols-2 gap-4">
+                    <Select
+                      value={recurrence.ends}
+                      onValueChange={(value) => handleRecurrenceChange("ends", value as RecurrenceEnd)}
+                    >
+                      <SelectTrigger data-testid="recurring-ends-select">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="never">Never</SelectItem>
+                        <SelectItem value="count">After</SelectItem>
+                        <SelectItem value="until">On date</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {recurrence.ends === 'count' && (
+                      <Input
+                        type="number"
+                        min={1}
+                        value={recurrence.count}
+                        onChange={(e) => handleRecurrenceChange("count", e.target.value)}
+                        data-testid="recurring-count-input"
+                      />
+                    )}
+                    {recurrence.ends === 'until' && (
+                      <Input
+                        type="date"
+                        value={recurrence.until}
+                        onChange={(e) => handleRecurrenceChange("until", e.target.value)}
+                        data-testid="recurring-until-input"
+                      />
+                    )}
+                  </div>
                 </div>
+
+                <p className="text-xs text-gray-500" data-testid="recurring-summary">
+                  {describeRRule(buildRecurrenceRule(recurrence, new Date(`${formData.date}T${formData.time}`), formData.timezone))}
+                </p>
               </div>
             )}
             
@@ -257,10 +584,10 @@ export function EventModal({ event, selectedDate, onClose, onSuccess }: EventMod
               <Button
                 type="submit"
                 className="flex-1 bg-primary-700 text-white hover:bg-primary-600"
-                disabled={createEvent.isPending || updateEvent.isPending}
+                disabled={isSaving}
                 data-testid="save-event-button"
               >
-                {createEvent.isPending || updateEvent.isPending
+                {isSaving
                   ? "Saving..."
                   : event
                   ? "Update Event"
@@ -1,10 +1,12 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { format, isToday, isTomorrow, isThisWeek } from "date-fns";
+import { format, addDays, subDays, isSameDay, isSameMonth, isSameWeek } from "date-fns";
 import { Plus, Edit, Trash2, Repeat } from "lucide-react";
 import { type Event } from "@shared/schema";
+import { toZonedTime } from "@shared/timezone";
 import { useEvents } from "@/hooks/useEvents";
+import { useTimeZone } from "@/hooks/useAuth";
 
 interface EventSidebarProps {
   events: Event[];
@@ -16,6 +18,7 @@ interface EventSidebarProps {
 export function EventSidebar({ events, onEventEdit, onQuickAdd, onEventDelete }: EventSidebarProps) {
   const [quickAddText, setQuickAddText] = useState("");
   const { deleteEvent } = useEvents();
+  const timeZone = useTimeZone();
 
   const handleQuickAdd = () => {
     if (quickAddText.trim()) {
@@ -46,23 +49,43 @@ export function EventSidebar({ events, onEventEdit, onQuickAdd, onEventDelete }:
     }
   };
 
+  // All-day events keep the dates of their own zone and end at midnight after the last day
+  const formatAllDay = (event: Event, today: Date) => {
+    const zone = event.timezone || timeZone;
+    const date = toZonedTime(new Date(event.startDate), zone);
+    const lastDay = event.endDate ? subDays(toZonedTime(new Date(event.endDate), zone), 1) : date;
+
+    if (lastDay > date) {
+      return `${format(date, 'MMM d')} - ${format(lastDay, isSameMonth(date, lastDay) ? 'd' : 'MMM d')}, all day`;
+    }
+    if (isSameDay(date, today)) return 'Today, all day';
+    if (isSameDay(date, addDays(today, 1))) return 'Tomorrow, all day';
+    return `${format(date, isSameWeek(date, today) ? 'EEEE' : 'MMM d')}, all day`;
+  };
+
   const formatEventTime = (event: Event) => {
-    const date = new Date(event.startDate);
+    // Compare calendar days as seen in the viewer's zone
+    const date = toZonedTime(new Date(event.startDate), timeZone);
+    const today = toZonedTime(new Date(), timeZone);
+    if (event.allDay) return formatAllDay(event, today);
+
+    const end = event.endDate ? toZonedTime(new Date(event.endDate), timeZone) : null;
+    const until = end ? ` - ${format(end, isSameDay(end, date) ? 'h:mm a' : 'MMM d, h:mm a')}` : '';
     
-    if (isToday(date)) {
-      return `Today, ${format(date, 'h:mm a')}`;
-    } else if (isTomorrow(date)) {
-      return `Tomorrow, ${format(date, 'h:mm a')}`;
-    } else if (isThisWeek(date)) {
-      return format(date, 'EEEE, h:mm a');
+    if (isSameDay(date, today)) {
+      return `Today, ${format(date, 'h:mm a')}${until}`;
+    } else if (isSameDay(date, addDays(today, 1))) {
+      return `Tomorrow, ${format(date, 'h:mm a')}${until}`;
+    } else if (isSameWeek(date, today)) {
+      return `${format(date, 'EEEE, h:mm a')}${until}`;
     } else {
-      return format(date, 'MMM d, h:mm a');
+      return `${format(date, 'MMM d, h:mm a')}${until}`;
     }
   };
 
-  // Sort events by date and get upcoming ones
+  // Sort events by date and get upcoming ones, including any still in progress
   const upcomingEvents = events
-    .filter(event => new Date(event.startDate) >= new Date())
+    .filter(event => new Date(event.endDate ?? event.startDate) >= new Date())
     .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
     .slice(0, 10); // Show up to 10 upcoming events
 
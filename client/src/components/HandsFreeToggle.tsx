@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { useHandsFree } from "@/hooks/useHandsFree";
+import { Ear, EarOff } from "lucide-react";
+
+// Kept per browser, since it's this device's microphone that stays on
+const STORAGE_KEY = "handsFree";
+
+// On when the user left it on here, or when opened with ?handsfree=on (as the extension does)
+function initiallyEnabled(): boolean {
+  const param = new URLSearchParams(window.location.search).get("handsfree");
+  if (param !== null) return param === "on";
+  return window.localStorage.getItem(STORAGE_KEY) === "on";
+}
+
+interface HandsFreeToggleProps {
+  onVoiceCommand: (command: string) => void;
+  awaitingReply: boolean;
+}
+
+export function HandsFreeToggle({ onVoiceCommand, awaitingReply }: HandsFreeToggleProps) {
+  const [enabled, setEnabled] = useState(initiallyEnabled);
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, enabled ? "on" : "off");
+  }, [enabled]);
+
+  const { isSupported, isListening, isPaused, isAwake, heard, resume } = useHandsFree({
+    enabled,
+    onCommand: onVoiceCommand,
+    awaitingReply,
+  });
+
+  if (!isSupported) return null;
+
+  const status = !enabled
+    ? null
+    : isPaused
+    ? "Paused, click to resume"
+    : heard
+    ? `${heard}...`
+    : isAwake
+    ? "Listening for a command..."
+    : awaitingReply
+    ? 'Say "yes", "no" or a change'
+    : 'Say "Hey Calendar"';
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={() => (isPaused ? resume() : setEnabled(!enabled))}
+        className={`relative flex items-center text-sm rounded-full px-2 py-1 transition-colors ${
+          isAwake
+            ? "bg-white text-secondary-600"
+            : enabled && !isPaused
+            ? "bg-white/20 text-white"
+            : "text-white/80 hover:text-white"
+        }`}
+        title={enabled ? "Turn off hands-free listening" : "Listen for \"Hey Calendar\" without clicking"}
+        aria-pressed={enabled}
+        data-testid="hands-free-toggle"
+      >
+        {enabled && !isPaused ? <Ear className="w-4 h-4" /> : <EarOff className="w-4 h-4" />}
+        {isListening && (
+          <span
+            className={`ml-1.5 w-2 h-2 rounded-full ${isAwake ? "bg-secondary-500 animate-pulse" : "bg-green-400"}`}
+            data-testid="hands-free-indicator"
+          />
+        )}
+      </button>
+      {status && (
+        <span className="text-xs text-white/80 max-w-[12rem] truncate" data-testid="hands-free-status">
+          {status}
+        </span>
+      )}
+    </div>
+  );
+}
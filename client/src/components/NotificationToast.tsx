@@ -7,9 +7,10 @@ interface NotificationToastProps {
   message: string;
   type: 'success' | 'error';
   onClose: () => void;
+  action?: { label: string; onClick: () => void }; // e.g. Undo; the caller replaces or closes the toast
 }
 
-export function NotificationToast({ title, message, type, onClose }: NotificationToastProps) {
+export function NotificationToast({ title, message, type, onClose, action }: NotificationToastProps) {
   const [isVisible, setIsVisible] = useState(false);
 
   useEffect(() => {
@@ -51,6 +52,17 @@ export function NotificationToast({ title, message, type, onClose }: Notificatio
             <p className="mt-1 text-sm text-gray-600" data-testid="notification-message">
               {message}
             </p>
+            {action && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={action.onClick}
+                className="mt-2 h-7"
+                data-testid="notification-action-button"
+              >
+                {action.label}
+              </Button>
+            )}
           </div>
           <Button
             variant="ghost"
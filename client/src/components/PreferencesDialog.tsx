@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, useDefaultEventDuration, useLocale, useTimeZone } from "@/hooks/useAuth";
+import { getTimeZoneOptions } from "@/lib/dateUtils";
+import { getSystemTimeZone } from "@shared/timezone";
+import { LOCALE_NAMES, SUPPORTED_LOCALES, type Locale } from "@shared/locale";
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+interface PreferencesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function PreferencesDialog({ isOpen, onClose }: PreferencesDialogProps) {
+  const { updatePreferences } = useAuth();
+  const currentTimeZone = useTimeZone();
+  const currentDuration = useDefaultEventDuration();
+  const currentLocale = useLocale();
+  const [timezone, setTimezone] = useState(currentTimeZone);
+  const [defaultEventDuration, setDefaultEventDuration] = useState(currentDuration);
+  const [locale, setLocale] = useState<Locale>(currentLocale);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setTimezone(currentTimeZone);
+      setDefaultEventDuration(currentDuration);
+      setLocale(currentLocale);
+    }
+  }, [isOpen, currentTimeZone, currentDuration, currentLocale]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updatePreferences({ timezone, defaultEventDuration, locale });
+      toast({
+        title: "Preferences Saved",
+        description: `Events are shown in ${timezone} and last ${formatDuration(defaultEventDuration)} by default.`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save preferences",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md" data-testid="preferences-dialog">
+        <DialogHeader>
+          <DialogTitle>Preferences</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="preferences-timezone">Time zone</Label>
+          <Select value={timezone} onValueChange={setTimezone}>
+            <SelectTrigger id="preferences-timezone" data-testid="preferences-timezone-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {getTimeZoneOptions(timezone, getSystemTimeZone()).map(zone => (
+                <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            New events are created in this zone, and recurring events keep their local time across daylight saving changes.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="preferences-duration">Default event length</Label>
+          <Select
+            value={String(defaultEventDuration)}
+            onValueChange={(value) => setDefaultEventDuration(parseInt(value))}
+          >
+            <SelectTrigger id="preferences-duration" data-testid="preferences-duration-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from(new Set([...DURATION_OPTIONS, defaultEventDuration])).sort((a, b) => a - b).map(minutes => (
+                <SelectItem key={minutes} value={String(minutes)}>{formatDuration(minutes)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            Used when an event is created without an end time.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="preferences-locale">Voice language</Label>
+          <Select value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+            <SelectTrigger id="preferences-locale" data-testid="preferences-locale-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPORTED_LOCALES.map(option => (
+                <SelectItem key={option} value={option}>{LOCALE_NAMES[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            Voice commands are transcribed and understood in this language, and read back in a matching voice.
+          </p>
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button variant="ghost" onClick={onClose} data-testid="cancel-preferences">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving} data-testid="save-preferences">
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
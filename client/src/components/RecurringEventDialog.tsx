@@ -1,11 +1,22 @@
 import { Button } from "@/components/ui/button";
-import { Calendar, CalendarDays } from "lucide-react";
+import { Calendar, CalendarDays, CalendarRange } from "lucide-react";
+
+export type RecurringEventAction = 'edit' | 'delete' | 'move';
+
+// How much of the series a change to one occurrence applies to
+export type RecurringEventChoice = 'current' | 'following' | 'all';
+
+const ACTION_LABELS: Record<RecurringEventAction, { text: string; verb: string }> = {
+  edit: { text: 'Edit', verb: 'editing' },
+  delete: { text: 'Delete', verb: 'deleting' },
+  move: { text: 'Reschedule', verb: 'rescheduling' },
+};
 
 interface RecurringEventDialogProps {
   isOpen: boolean;
   eventTitle: string;
-  action: 'edit' | 'delete';
-  onChoice: (choice: 'current' | 'all') => void;
+  action: RecurringEventAction;
+  onChoice: (choice: RecurringEventChoice) => void;
   onCancel: () => void;
 }
 
@@ -18,8 +29,7 @@ export function RecurringEventDialog({
 }: RecurringEventDialogProps) {
   if (!isOpen) return null;
 
-  const actionText = action === 'edit' ? 'Edit' : 'Delete';
-  const actionVerb = action === 'edit' ? 'editing' : 'deleting';
+  const { text: actionText, verb: actionVerb } = ACTION_LABELS[action];
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4" data-testid="recurring-event-dialog">
@@ -49,6 +59,21 @@ export function RecurringEventDialog({
               </div>
             </Button>
             
+            <Button
+              onClick={() => onChoice('following')}
+              className="w-full flex items-center justify-start space-x-3 p-4 bg-purple-50 hover:bg-purple-100 text-purple-900 border border-purple-200"
+              variant="outline"
+              data-testid="edit-following-events"
+            >
+              <CalendarRange className="w-5 h-5" />
+              <div className="text-left">
+                <div className="font-medium">This and following events</div>
+                <div className="text-sm text-purple-700">
+                  {actionText} this occurrence and all later ones
+                </div>
+              </div>
+            </Button>
+            
             <Button
               onClick={() => onChoice('all')}
               className="w-full flex items-center justify-start space-x-3 p-4 bg-orange-50 hover:bg-orange-100 text-orange-900 border border-orange-200"
@@ -0,0 +1,296 @@
+import { useEffect, useRef, useState } from "react";
+import { format, isSameDay } from "date-fns";
+import { type Event } from "@shared/schema";
+import { fromZonedTime, toZonedTime } from "@shared/timezone";
+import {
+  HOUR_HEIGHT,
+  SNAP_MINUTES,
+  SPAN_BAR_HEIGHT,
+  getEventColorClass,
+  getMinutesIntoDay,
+  getZonedEventRange,
+  layoutDayEvents,
+  layoutSpanningEvents,
+  moveEvent,
+  offsetToMinutes,
+  snapMinutes,
+  type EventTimeChange,
+} from "@/lib/calendarLayout";
+
+interface TimeGridViewProps {
+  days: Date[];
+  events: Event[];
+  timeZone: string;
+  selectedDate: Date;
+  onDateSelect: (date: Date) => void;
+  onEventClick: (event: Event) => void;
+  onEventReschedule?: (event: Event, changes: EventTimeChange) => void;
+  isHighlighted?: (day: Date) => boolean;
+}
+
+interface ResizeState {
+  event: Event;
+  day: Date;
+  top: number;
+  startY: number;
+  height: number;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Hour the grid scrolls to when first shown
+const FIRST_VISIBLE_HOUR = 8;
+
+export function TimeGridView({ days, events, timeZone, selectedDate, onDateSelect, onEventClick, onEventReschedule, isHighlighted }: TimeGridViewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [now, setNow] = useState(() => toZonedTime(new Date(), timeZone));
+  const [dragged, setDragged] = useState<{ event: Event; grabMinutes: number } | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [resize, setResize] = useState<ResizeState | null>(null);
+
+  // Keep the current-time line moving
+  useEffect(() => {
+    setNow(toZonedTime(new Date(), timeZone));
+    const interval = setInterval(() => setNow(toZonedTime(new Date(), timeZone)), 60000);
+    return () => clearInterval(interval);
+  }, [timeZone]);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = FIRST_VISIBLE_HOUR * HOUR_HEIGHT;
+    }
+  }, []);
+
+  const handleSlotClick = (day: Date, hour: number) => {
+    const date = new Date(day);
+    date.setHours(hour, 0, 0, 0);
+    onDateSelect(date);
+  };
+
+  // Wall-clock `minutes` after midnight on `day`, as an instant
+  const toInstant = (day: Date, minutes: number) => {
+    const local = new Date(day);
+    local.setHours(0, minutes, 0, 0);
+    return fromZonedTime(local, timeZone);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, day: Date) => {
+    e.preventDefault();
+    setDropTarget(null);
+    if (!dragged || !onEventReschedule) return;
+
+    // Keep the point where the event was grabbed under the cursor
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const minutes = snapMinutes(offsetToMinutes(offset) - dragged.grabMinutes);
+    const start = toInstant(day, Math.min(Math.max(minutes, 0), 24 * 60 - SNAP_MINUTES));
+
+    if (start.getTime() !== new Date(dragged.event.startDate).getTime()) {
+      onEventReschedule(dragged.event, moveEvent(dragged.event, start));
+    }
+    setDragged(null);
+  };
+
+  const handleResizeEnd = () => {
+    if (!resize) return;
+    setResize(null);
+    if (!onEventReschedule) return;
+
+    const { start } = getZonedEventRange(resize.event, timeZone);
+    const startMinutes = isSameDay(start, resize.day) ? getMinutesIntoDay(start) : 0;
+    const endMinutes = Math.max(
+      snapMinutes(offsetToMinutes(resize.top + resize.height)),
+      startMinutes + SNAP_MINUTES
+    );
+    const endDate = toInstant(resize.day, Math.min(endMinutes, 24 * 60));
+
+    if (!resize.event.endDate || endDate.getTime() !== new Date(resize.event.endDate).getTime()) {
+      onEventReschedule(resize.event, { startDate: new Date(resize.event.startDate), endDate });
+    }
+  };
+
+  const allDay = layoutSpanningEvents(events, days, timeZone);
+
+  const formatEventRange = (event: Event) => {
+    const { start, end } = getZonedEventRange(event, timeZone);
+    return `${format(start, 'h:mm a')} - ${format(end, 'h:mm a')}`;
+  };
+
+  return (
+    <div data-testid="time-grid">
+      {/* Day headers */}
+      <div className="flex bg-gray-50 border-b border-gray-200">
+        <div className="w-16 shrink-0" />
+        {days.map(day => (
+          <div
+            key={day.toISOString()}
+            className={`flex-1 p-3 text-center text-sm font-medium ${
+              isSameDay(day, now) ? 'text-primary-700' : 'text-gray-700'
+            } ${isHighlighted?.(day) ? 'bg-amber-50 ring-2 ring-inset ring-amber-400' : ''}`}
+          >
+            <div>{format(day, 'EEE')}</div>
+            <div className={`text-lg ${isSameDay(day, selectedDate) ? 'font-semibold' : ''}`}>
+              {format(day, 'd')}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* All-day and multi-day events */}
+      {allDay.lanes > 0 && (
+        <div className="flex border-b border-gray-200" data-testid="all-day-row">
+          <div className="w-16 shrink-0 text-xs text-gray-500 text-right pr-2 py-1">All day</div>
+          <div className="flex-1 relative" style={{ height: allDay.lanes * SPAN_BAR_HEIGHT + 4 }}>
+            {allDay.segments.map(({ event, startIndex, span, lane, continuesBefore, continuesAfter }) => (
+              <div
+                key={event.id}
+                className={`absolute text-xs px-2 truncate cursor-pointer hover:shadow-md transition-shadow ${getEventColorClass(event)} ${
+                  continuesBefore ? '' : 'rounded-l'
+                } ${continuesAfter ? '' : 'rounded-r'}`}
+                style={{
+                  top: 2 + lane * SPAN_BAR_HEIGHT,
+                  height: SPAN_BAR_HEIGHT - 2,
+                  lineHeight: `${SPAN_BAR_HEIGHT - 2}px`,
+                  left: `calc(${(startIndex / days.length) * 100}% + 2px)`,
+                  width: `calc(${(span / days.length) * 100}% - 4px)`,
+                }}
+                onClick={() => onEventClick(event)}
+                data-testid={`event-${event.id}`}
+                title={event.title}
+              >
+                {continuesBefore && '← '}{event.title}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Hourly grid */}
+      <div ref={scrollRef} className="h-[600px] overflow-y-auto">
+        <div className="flex relative" style={{ height: 24 * HOUR_HEIGHT }}>
+          <div className="w-16 shrink-0">
+            {HOURS.map(hour => (
+              <div
+                key={hour}
+                className="text-xs text-gray-500 text-right pr-2 -mt-2"
+                style={{ height: HOUR_HEIGHT }}
+              >
+                {hour > 0 && format(new Date(2000, 0, 1, hour), 'h a')}
+              </div>
+            ))}
+          </div>
+
+          {days.map(day => {
+            const isToday = isSameDay(day, now);
+            const dayKey = format(day, 'yyyy-MM-dd');
+
+            return (
+              <div
+                key={day.toISOString()}
+                className={`flex-1 relative border-l border-gray-100 ${
+                  dropTarget === dayKey ? 'bg-primary-100/50' : isToday ? 'bg-primary-50/40' : ''
+                }`}
+                onDragOver={(e) => {
+                  if (!dragged) return;
+                  e.preventDefault();
+                  e.dataTransfer.dropEffect = 'move';
+                  setDropTarget(dayKey);
+                }}
+                onDragLeave={() => setDropTarget(current => (current === dayKey ? null : current))}
+                onDrop={(e) => handleDrop(e, day)}
+                data-testid={`time-grid-day-${dayKey}`}
+              >
+                {HOURS.map(hour => (
+                  <div
+                    key={hour}
+                    className="border-b border-gray-100 cursor-pointer hover:bg-primary-50"
+                    style={{ height: HOUR_HEIGHT }}
+                    onClick={() => handleSlotClick(day, hour)}
+                    data-testid={`time-slot-${format(day, 'yyyy-MM-dd')}-${hour}`}
+                  />
+                ))}
+
+                {layoutDayEvents(events, day, timeZone).map(({ event, top, height, column, columns }) => {
+                  const isResizing = resize?.event.id === event.id && isSameDay(resize.day, day);
+                  const displayHeight = isResizing ? resize.height : height;
+
+                  return (
+                    <div
+                      key={event.id}
+                      className={`absolute text-xs px-2 py-1 rounded overflow-hidden cursor-pointer hover:shadow-md transition-shadow ${getEventColorClass(event)} ${
+                        dragged?.event.id === event.id ? 'opacity-50' : ''
+                      } ${isResizing ? 'z-20 shadow-md' : ''}`}
+                      style={{
+                        top,
+                        height: displayHeight,
+                        left: `calc(${(column / columns) * 100}% + 2px)`,
+                        width: `calc(${100 / columns}% - 4px)`,
+                      }}
+                      draggable={!!onEventReschedule && !resize}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', event.id);
+                        const grabOffset = e.clientY - e.currentTarget.getBoundingClientRect().top;
+                        setDragged({ event, grabMinutes: offsetToMinutes(grabOffset) });
+                      }}
+                      onDragEnd={() => {
+                        setDragged(null);
+                        setDropTarget(null);
+                      }}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onEventClick(event);
+                      }}
+                      data-testid={`event-${event.id}`}
+                      title={`${event.title} - ${formatEventRange(event)}`}
+                    >
+                      <div className="font-medium truncate">{event.title}</div>
+                      {displayHeight >= HOUR_HEIGHT * 0.75 && (
+                        <div className="opacity-75 truncate">{formatEventRange(event)}</div>
+                      )}
+
+                      {/* Drag the bottom edge to change the end time */}
+                      {onEventReschedule && (
+                        <div
+                          className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize"
+                          onPointerDown={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            e.currentTarget.setPointerCapture(e.pointerId);
+                            setResize({ event, day, top, startY: e.clientY, height });
+                          }}
+                          onPointerMove={(e) => {
+                            if (!isResizing) return;
+                            const minHeight = (SNAP_MINUTES / 60) * HOUR_HEIGHT;
+                            const maxHeight = 24 * HOUR_HEIGHT - top;
+                            const nextHeight = height + e.clientY - resize.startY;
+                            setResize({ ...resize, height: Math.min(Math.max(nextHeight, minHeight), maxHeight) });
+                          }}
+                          onPointerUp={handleResizeEnd}
+                          onPointerCancel={() => setResize(null)}
+                          onClick={(e) => e.stopPropagation()}
+                          data-testid={`resize-event-${event.id}`}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+
+                {isToday && (
+                  <div
+                    className="absolute left-0 right-0 z-10 pointer-events-none"
+                    style={{ top: (getMinutesIntoDay(now) / 60) * HOUR_HEIGHT }}
+                    data-testid="current-time-line"
+                  >
+                    <div className="relative border-t-2 border-red-500">
+                      <div className="absolute -left-1 -top-[5px] w-2 h-2 rounded-full bg-red-500" />
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { Button } from "@/components/ui/button";
+import { format, formatDistanceToNow } from "date-fns";
+import { Repeat, RotateCcw, Trash2, X } from "lucide-react";
+import { type Event } from "@shared/schema";
+import { toZonedTime } from "@shared/timezone";
+import { useEvents, useTrash } from "@/hooks/useEvents";
+import { useTimeZone } from "@/hooks/useAuth";
+
+interface TrashPanelProps {
+  onClose: () => void;
+  onRestored: (event: Event) => void;
+}
+
+export function TrashPanel({ onClose, onRestored }: TrashPanelProps) {
+  const { data: trash, isLoading } = useTrash();
+  const { restoreEvent } = useEvents();
+  const timeZone = useTimeZone();
+
+  const handleRestore = async (event: Event) => {
+    try {
+      onRestored(await restoreEvent.mutateAsync(event.id));
+    } catch (error) {
+      console.error("Error restoring event:", error);
+    }
+  };
+
+  const formatEventTime = (event: Event) => {
+    const date = toZonedTime(new Date(event.startDate), event.allDay ? event.timezone || timeZone : timeZone);
+    return format(date, event.allDay ? 'MMM d, yyyy' : 'MMM d, yyyy h:mm a');
+  };
+
+  return (
+    <aside className="w-72 bg-gray-50 border-r border-gray-200 p-6" data-testid="trash-panel">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-medium text-gray-900">Trash</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 p-1 h-auto"
+          data-testid="close-trash-button"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : !trash || trash.events.length === 0 ? (
+        <div className="text-center py-8">
+          <Trash2 className="w-12 h-12 mx-auto text-gray-400 mb-2" />
+          <p className="text-sm text-gray-500">Trash is empty</p>
+        </div>
+      ) : (
+        <div className="space-y-3" data-testid="trash-events">
+          {trash.events.map((event) => (
+            <div
+              key={event.id}
+              className="bg-white p-4 rounded-lg shadow-sm border border-gray-200"
+              data-testid={`trash-card-${event.id}`}
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <h4 className="font-medium text-gray-900">{event.title}</h4>
+                  <p className="text-sm text-gray-600 mt-1">{formatEventTime(event)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Deleted {formatDistanceToNow(new Date(event.deletedAt!), { addSuffix: true })}
+                  </p>
+                  {event.isRecurring && (
+                    <span className="inline-block mt-2 px-2 py-1 bg-secondary-100 text-secondary-800 text-xs rounded-full">
+                      <Repeat className="w-3 h-3 inline mr-1" />
+                      Recurring
+                    </span>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRestore(event)}
+                  disabled={restoreEvent.isPending}
+                  className="text-gray-400 hover:text-primary-600 p-1 h-auto ml-3"
+                  title="Restore"
+                  data-testid={`restore-event-${event.id}`}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {trash && (
+        <p className="text-xs text-gray-400 mt-4">
+          Deleted events are removed for good after {trash.retentionDays} days
+        </p>
+      )}
+    </aside>
+  );
+}
@@ -1,8 +1,10 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Bell, X, Clock } from "lucide-react";
-import { format, isToday, isTomorrow, differenceInMinutes, differenceInHours, differenceInDays } from "date-fns";
+import { format, addDays, isSameDay, differenceInMinutes, differenceInHours, differenceInDays } from "date-fns";
 import { type Event } from "@shared/schema";
+import { toZonedTime } from "@shared/timezone";
+import { useTimeZone } from "@/hooks/useAuth";
 
 interface UpcomingEventsNotificationProps {
   events: Event[];
@@ -11,10 +13,12 @@ interface UpcomingEventsNotificationProps {
 export function UpcomingEventsNotification({ events }: UpcomingEventsNotificationProps) {
   const [showNotification, setShowNotification] = useState(false);
   const [upcomingEvents, setUpcomingEvents] = useState<Event[]>([]);
+  const timeZone = useTimeZone();
 
   useEffect(() => {
     const checkUpcomingEvents = () => {
       const now = new Date();
+      const zonedNow = toZonedTime(now, timeZone);
       const upcoming = events.filter(event => {
         const eventDate = new Date(event.startDate);
         const minutesUntil = differenceInMinutes(eventDate, now);
@@ -27,7 +31,7 @@ export function UpcomingEventsNotification({ events }: UpcomingEventsNotificatio
           minutesUntil > 0 && 
           (minutesUntil <= 15 || 
            (minutesUntil <= 60 && minutesUntil % 30 === 0) ||
-           (isTomorrow(eventDate) && now.getHours() === 8 && now.getMinutes() < 5))
+           (isSameDay(toZonedTime(eventDate, timeZone), addDays(zonedNow, 1)) && zonedNow.getHours() === 8 && zonedNow.getMinutes() < 5))
         );
       }).slice(0, 3); // Show max 3 upcoming events
 
@@ -42,7 +46,7 @@ export function UpcomingEventsNotification({ events }: UpcomingEventsNotificatio
     const interval = setInterval(checkUpcomingEvents, 60000);
 
     return () => clearInterval(interval);
-  }, [events, upcomingEvents]);
+  }, [events, upcomingEvents, timeZone]);
 
   const formatTimeUntil = (eventDate: Date) => {
     const now = new Date();
@@ -55,12 +59,19 @@ export function UpcomingEventsNotification({ events }: UpcomingEventsNotificatio
     } else if (hoursUntil < 24) {
       return `in ${hoursUntil} hours`;
     } else if (daysUntil === 1) {
-      return `tomorrow at ${format(eventDate, 'h:mm a')}`;
+      return `tomorrow at ${format(toZonedTime(eventDate, timeZone), 'h:mm a')}`;
     } else {
-      return format(eventDate, 'MMM d, h:mm a');
+      return format(toZonedTime(eventDate, timeZone), 'MMM d, h:mm a');
     }
   };
 
+  const formatDuration = (start: Date, end: Date) => {
+    const minutes = differenceInMinutes(end, start);
+    if (minutes < 60) return `${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    return minutes % 60 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+  };
+
   const getNotificationColor = (eventDate: Date) => {
     const minutesUntil = differenceInMinutes(eventDate, new Date());
     if (minutesUntil <= 15) return "border-red-200 bg-red-50";
@@ -101,6 +112,7 @@ export function UpcomingEventsNotification({ events }: UpcomingEventsNotificatio
                 </p>
                 <p className="text-xs text-gray-600">
                   {formatTimeUntil(new Date(event.startDate))}
+                  {event.endDate && ` (${formatDuration(new Date(event.startDate), new Date(event.endDate))})`}
                 </p>
               </div>
             </div>
@@ -0,0 +1,165 @@
+import { format } from "date-fns";
+import { Loader2, Mic, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAudioRecorder } from "@/hooks/useAudioRecorder";
+import { describeDraft, moveDraft, retargetDraft, type VoiceActionDraft } from "@/lib/voiceUtils";
+import { fromZonedTime, toZonedTime } from "@shared/timezone";
+import { describeRRule } from "@shared/recurrence";
+
+const CONFIRM_LABELS: Record<VoiceActionDraft['action'], string> = {
+  create: 'Create',
+  edit: 'Save',
+  delete: 'Delete',
+};
+
+interface VoiceCommandPreviewProps {
+  draft: VoiceActionDraft;
+  timeZone: string;
+  isSaving: boolean;
+  onChange: (draft: VoiceActionDraft) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  onVoiceReply: (reply: string) => void;
+}
+
+// What a voice command was understood as, editable by hand or by voice, committed only on confirmation
+export function VoiceCommandPreview({
+  draft,
+  timeZone,
+  isSaving,
+  onChange,
+  onConfirm,
+  onCancel,
+  onVoiceReply
+}: VoiceCommandPreviewProps) {
+  const { isRecording, isTranscribing, isSupported, startRecording, stopRecording } = useAudioRecorder({
+    onTranscript: onVoiceReply,
+  });
+
+  const target = draft.target;
+  const start = draft.startDate ?? (target ? new Date(target.startDate) : undefined);
+  const allDay = draft.action === 'create' ? !!draft.allDay : !!target?.allDay;
+  const zonedStart = start ? toZonedTime(start, timeZone) : undefined;
+
+  const handleStartChange = (field: 'date' | 'time', value: string) => {
+    if (!zonedStart || !value) return;
+    const date = field === 'date' ? value : format(zonedStart, 'yyyy-MM-dd');
+    const time = field === 'time' ? value : format(zonedStart, 'HH:mm');
+    onChange(moveDraft(draft, fromZonedTime(new Date(`${date}T${time}`), timeZone)));
+  };
+
+  const describeCandidate = (event: NonNullable<VoiceActionDraft['target']>) => {
+    const eventStart = toZonedTime(new Date(event.startDate), event.allDay ? event.timezone ?? timeZone : timeZone);
+    return `${event.title} — ${format(eventStart, event.allDay ? 'EEE, MMM d' : 'EEE, MMM d, h:mm a')}`;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4" data-testid="voice-command-preview">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">{describeDraft(draft, timeZone)}?</h3>
+            <p className="text-sm text-gray-500 mt-1" data-testid="voice-preview-transcript">
+              Heard: "{draft.originalText}"
+            </p>
+          </div>
+
+          {target && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Event</label>
+              <select
+                value={target.id}
+                onChange={(e) => {
+                  const chosen = draft.candidates.find(event => event.id === e.target.value)!;
+                  onChange(retargetDraft(draft, chosen, timeZone));
+                }}
+                className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                data-testid="voice-preview-target"
+              >
+                {draft.candidates.map(event => (
+                  <option key={event.id} value={event.id}>{describeCandidate(event)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {draft.action !== 'delete' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Title</label>
+              <Input
+                type="text"
+                value={draft.title}
+                onChange={(e) => onChange({ ...draft, title: e.target.value })}
+                data-testid="voice-preview-title"
+              />
+            </div>
+          )}
+
+          {draft.action !== 'delete' && zonedStart && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Date</label>
+                <Input
+                  type="date"
+                  value={format(zonedStart, 'yyyy-MM-dd')}
+                  onChange={(e) => handleStartChange('date', e.target.value)}
+                  data-testid="voice-preview-date"
+                />
+              </div>
+              {!allDay && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Time</label>
+                  <Input
+                    type="time"
+                    value={format(zonedStart, 'HH:mm')}
+                    onChange={(e) => handleStartChange('time', e.target.value)}
+                    data-testid="voice-preview-time"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {draft.recurrenceRule && (
+            <p className="flex items-center text-sm text-gray-600" data-testid="voice-preview-recurrence">
+              <Repeat className="w-4 h-4 mr-2" />
+              {describeRRule(draft.recurrenceRule)}
+            </p>
+          )}
+
+          <div className="flex items-center justify-between pt-2">
+            {isSupported ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => (isRecording ? stopRecording() : startRecording())}
+                disabled={isTranscribing || isSaving}
+                className={isRecording ? 'voice-active' : ''}
+                title='Say "yes", "no", or a change such as "change the time to 4"'
+                data-testid="voice-preview-reply"
+              >
+                {isTranscribing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mic className="w-4 h-4" />}
+                <span className="ml-2">{isRecording ? 'Stop' : 'Reply'}</span>
+              </Button>
+            ) : <span />}
+
+            <div className="flex space-x-2">
+              <Button variant="ghost" onClick={onCancel} disabled={isSaving} data-testid="voice-preview-cancel">
+                Cancel
+              </Button>
+              <Button
+                variant={draft.action === 'delete' ? 'destructive' : 'default'}
+                onClick={onConfirm}
+                disabled={isSaving || (draft.action !== 'delete' && !draft.title.trim())}
+                data-testid="voice-preview-confirm"
+              >
+                {CONFIRM_LABELS[draft.action]}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
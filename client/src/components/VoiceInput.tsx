@@ -18,6 +18,8 @@ export function VoiceInput({ onVoiceCommand, onShowEventModal }: VoiceInputProps
     startRecording,
     stopRecording,
     transcript,
+    interimTranscript,
+    level,
     error
   } = useAudioRecorder({
     onTranscript: onVoiceCommand,
@@ -79,20 +81,32 @@ export function VoiceInput({ onVoiceCommand, onShowEventModal }: VoiceInputProps
       {(isRecording || isTranscribing) && (
         <div className="mt-3 text-sm transition-opacity duration-300" data-testid="voice-status">
           <div className="flex items-center space-x-2">
-            <div className="flex space-x-1">
-              {[...Array(4)].map((_, i) => (
+            {isRecording ? (
+              // Live input level, so it's clear the microphone hears you
+              <div className="w-12 h-1.5 bg-gray-200 rounded-full overflow-hidden" data-testid="voice-level">
                 <div
-                  key={i}
-                  className="voice-wave w-1 h-4 bg-secondary-400 rounded-full animate-voice-wave"
-                  style={{ animationDelay: `${i * 0.1}s` }}
+                  className="h-full bg-secondary-500 rounded-full transition-[width] duration-75"
+                  style={{ width: `${Math.round(level * 100)}%` }}
                 />
-              ))}
-            </div>
-            <span>
-              {isTranscribing 
-                ? 'Processing with Whisper AI...' 
+              </div>
+            ) : (
+              <div className="flex space-x-1">
+                {[...Array(4)].map((_, i) => (
+                  <div
+                    key={i}
+                    className="voice-wave w-1 h-4 bg-secondary-400 rounded-full animate-voice-wave"
+                    style={{ animationDelay: `${i * 0.1}s` }}
+                  />
+                ))}
+              </div>
+            )}
+            <span data-testid="voice-transcript">
+              {interimTranscript
+                ? `${interimTranscript}...`
+                : isTranscribing 
+                ? 'Transcribing...' 
                 : isRecording 
-                ? 'Recording... Click to stop'
+                ? 'Listening... Stops when you pause'
                 : transcript || 'Try "Schedule meeting", "Edit event", or "Delete appointment"'
               }
             </span>
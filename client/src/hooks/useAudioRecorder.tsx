@@ -1,8 +1,24 @@
 import { useState, useRef, useCallback } from 'react';
+import { TRANSCRIPTION_STREAM_PATH, type TranscriptionStreamMessage } from '@shared/transcription';
+import { measureDecibels, meterLevel, trimSilence, type SpeechSpan } from '@/lib/audio';
+
+// How often MediaRecorder hands over audio to stream
+const TIMESLICE_MS = 250;
+
+// How often the input level is measured
+const MONITOR_INTERVAL_MS = 50;
+
+// A recording in which nobody starts speaking stops after this long
+const NO_SPEECH_TIMEOUT_MS = 8000;
+
+const AUDIO_MIME_TYPE = 'audio/webm;codecs=opus';
 
 interface UseAudioRecorderOptions {
   onTranscript: (transcript: string) => void;
   onError?: (error: string) => void;
+  silenceTimeoutMs?: number; // Stop this long after speech ends
+  maxDurationMs?: number; // Stop after this long regardless
+  silenceThresholdDb?: number; // Input quieter than this, in dBFS, counts as silence
 }
 
 interface UseAudioRecorderReturn {
@@ -12,21 +28,78 @@ interface UseAudioRecorderReturn {
   startRecording: () => Promise<void>;
   stopRecording: () => void;
   transcript: string;
+  interimTranscript: string; // The words heard so far, while recording
+  level: number; // Input level from 0 to 1, while recording
   error: string | null;
 }
 
+// A transcription socket and the final transcript it will deliver
+interface TranscriptionStream {
+  socket: WebSocket;
+  final: Promise<string>;
+}
+
+function openTranscriptionStream(onPartial: (transcript: string) => void): TranscriptionStream {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const socket = new WebSocket(`${protocol}//${window.location.host}${TRANSCRIPTION_STREAM_PATH}`);
+
+  const final = new Promise<string>((resolve, reject) => {
+    socket.onmessage = (event) => {
+      const message: TranscriptionStreamMessage = JSON.parse(event.data);
+      if (message.type === 'partial') {
+        onPartial(message.transcript);
+      } else if (message.type === 'final') {
+        resolve(message.transcript);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    socket.onclose = () => reject(new Error('Transcription stream closed'));
+  });
+  // Handled when the recording stops; a stream that fails before then is simply not used
+  final.catch(() => {});
+
+  return { socket, final };
+}
+
+// Send a whole recording in one request, for when the stream is unavailable
+async function uploadRecording(audioBlob: Blob): Promise<string> {
+  const formData = new FormData();
+  formData.append('audio', audioBlob, audioBlob.type === 'audio/wav' ? 'recording.wav' : 'recording.webm');
+
+  const response = await fetch('/api/transcribe', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Transcription failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return result.success ? result.transcript : '';
+}
+
 export function useAudioRecorder({ 
   onTranscript, 
-  onError 
+  onError,
+  silenceTimeoutMs = 1500,
+  maxDurationMs = 60000,
+  silenceThresholdDb = -45
 }: UseAudioRecorderOptions): UseAudioRecorderReturn {
   const [isRecording, setIsRecording] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [transcript, setTranscript] = useState('');
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const [level, setLevel] = useState(0);
   const [error, setError] = useState<string | null>(null);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
+  const transcriptionRef = useRef<TranscriptionStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const monitorRef = useRef<number | null>(null);
 
   // Check if audio recording is supported
   const isSupported = typeof navigator !== 'undefined' && 
@@ -34,6 +107,59 @@ export function useAudioRecorder({
                      'getUserMedia' in navigator.mediaDevices &&
                      typeof MediaRecorder !== 'undefined';
 
+  const finishRecording = useCallback(() => {
+    if (mediaRecorderRef.current?.state === 'recording') {
+      mediaRecorderRef.current.stop();
+      setIsRecording(false);
+    }
+  }, []);
+
+  const stopMonitoring = useCallback(() => {
+    if (monitorRef.current !== null) {
+      window.clearInterval(monitorRef.current);
+      monitorRef.current = null;
+    }
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    setLevel(0);
+  }, []);
+
+  /**
+   * Watch the input level, noting when speech starts and ends, and stop the recording once
+   * speech has been followed by `silenceTimeoutMs` of silence or it runs too long.
+   */
+  const monitorSpeech = (stream: MediaStream): { speech: SpeechSpan | null } => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = audioContext;
+
+    const samples = new Float32Array(analyser.fftSize);
+    const startedAt = performance.now();
+    const heard: { speech: SpeechSpan | null } = { speech: null };
+
+    monitorRef.current = window.setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      const decibels = measureDecibels(samples);
+      const elapsed = performance.now() - startedAt;
+      setLevel(meterLevel(decibels));
+
+      if (decibels > silenceThresholdDb) {
+        heard.speech = { start: heard.speech?.start ?? elapsed, end: elapsed };
+      }
+
+      const timedOut = heard.speech
+        ? elapsed - heard.speech.end >= silenceTimeoutMs
+        : elapsed >= NO_SPEECH_TIMEOUT_MS;
+      if (timedOut || elapsed >= maxDurationMs) {
+        finishRecording();
+      }
+    }, MONITOR_INTERVAL_MS);
+
+    return heard;
+  };
+
   const startRecording = useCallback(async () => {
     if (!isSupported) {
       const errorMsg = 'Audio recording is not supported in this browser';
@@ -44,6 +170,7 @@ export function useAudioRecorder({
 
     try {
       setError(null);
+      setInterimTranscript('');
       audioChunksRef.current = [];
 
       // Request microphone access
@@ -59,46 +186,66 @@ export function useAudioRecorder({
 
       // Create MediaRecorder
       const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm;codecs=opus'
+        mimeType: AUDIO_MIME_TYPE
       });
       
       mediaRecorderRef.current = mediaRecorder;
+      const heard = monitorSpeech(stream);
+
+      // Stream the audio for live results; whatever was recorded before the socket opened
+      // goes first
+      const transcription = openTranscriptionStream(setInterimTranscript);
+      transcriptionRef.current = transcription;
+      transcription.socket.onopen = () => {
+        transcription.socket.send(JSON.stringify({ type: 'start', mimeType: AUDIO_MIME_TYPE }));
+        audioChunksRef.current.forEach(chunk => transcription.socket.send(chunk));
+      };
 
       // Collect audio data
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           audioChunksRef.current.push(event.data);
+          if (transcription.socket.readyState === WebSocket.OPEN) {
+            transcription.socket.send(event.data);
+          }
         }
       };
 
       // Handle recording stop
       mediaRecorder.onstop = async () => {
+        stopMonitoring();
         try {
+          // A recording nobody spoke in isn't worth transcribing
+          const speech = heard.speech;
+          if (!speech) {
+            throw new Error('No speech detected');
+          }
+
           setIsTranscribing(true);
           
           // Create audio blob
           const audioBlob = new Blob(audioChunksRef.current, { 
-            type: 'audio/webm;codecs=opus' 
-          });
-
-          // Send to Whisper API
-          const formData = new FormData();
-          formData.append('audio', audioBlob, 'recording.webm');
-
-          const response = await fetch('/api/transcribe', {
-            method: 'POST',
-            body: formData,
+            type: AUDIO_MIME_TYPE
           });
+          const trimmed = await trimSilence(audioBlob, speech);
 
-          if (!response.ok) {
-            throw new Error(`Transcription failed: ${response.statusText}`);
+          // Every chunk has been streamed by now, so the final pass gets the trimmed recording
+          // in their place; fall back to uploading it when the stream never opened or fails
+          let result: string;
+          if (transcription.socket.readyState === WebSocket.OPEN) {
+            if (trimmed !== audioBlob) {
+              transcription.socket.send(JSON.stringify({ type: 'replace', mimeType: trimmed.type }));
+              transcription.socket.send(trimmed);
+            }
+            transcription.socket.send(JSON.stringify({ type: 'stop' }));
+            result = await transcription.final.catch(() => uploadRecording(trimmed));
+          } else {
+            result = await uploadRecording(trimmed);
           }
 
-          const result = await response.json();
-          
-          if (result.success && result.transcript) {
-            setTranscript(result.transcript);
-            onTranscript(result.transcript);
+          if (result) {
+            setTranscript(result);
+            onTranscript(result);
           } else {
             throw new Error('No transcript received');
           }
@@ -108,6 +255,9 @@ export function useAudioRecorder({
           onError?.(errorMsg);
         } finally {
           setIsTranscribing(false);
+          setInterimTranscript('');
+          transcription.socket.close();
+          transcriptionRef.current = null;
           
           // Clean up stream
           if (streamRef.current) {
@@ -118,7 +268,7 @@ export function useAudioRecorder({
       };
 
       // Start recording
-      mediaRecorder.start();
+      mediaRecorder.start(TIMESLICE_MS);
       setIsRecording(true);
       
     } catch (error) {
@@ -126,15 +276,13 @@ export function useAudioRecorder({
       setError(errorMsg);
       onError?.(errorMsg);
       setIsRecording(false);
+      stopMonitoring();
+      transcriptionRef.current?.socket.close();
+      transcriptionRef.current = null;
     }
-  }, [isSupported, onTranscript, onError]);
+  }, [isSupported, onTranscript, onError, silenceTimeoutMs, maxDurationMs, silenceThresholdDb]);
 
-  const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-    }
-  }, [isRecording]);
+  const stopRecording = finishRecording;
 
   return {
     isRecording,
@@ -143,6 +291,8 @@ export function useAudioRecorder({
     startRecording,
     stopRecording,
     transcript,
+    interimTranscript,
+    level,
     error,
   };
 }
\ No newline at end of file
@@ -1,11 +1,15 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from "react";
-import { type User } from "@shared/schema";
+import { type User, type UserPreferences, DEFAULT_EVENT_DURATION } from "@shared/schema";
+import { getSystemTimeZone } from "@shared/timezone";
+import { DEFAULT_LOCALE, isSupportedLocale, type Locale } from "@shared/locale";
+import { apiRequest } from "@/lib/queryClient";
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   login: (user: User) => void;
   logout: () => void;
+  updatePreferences: (preferences: UserPreferences) => Promise<void>;
   isAuthenticated: boolean;
 }
 
@@ -53,6 +57,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const updatePreferences = async (preferences: UserPreferences) => {
+    const response = await apiRequest("PUT", "/api/user/preferences", preferences);
+    const userData = await response.json();
+    setUser(userData.user);
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -60,6 +70,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         login,
         logout,
+        updatePreferences,
         isAuthenticated: !!user,
       }}
     >
@@ -74,4 +85,21 @@ export function useAuth() {
     throw new Error("useAuth must be used within an AuthProvider");
   }
   return context;
-}
\ No newline at end of file
+}
+// The zone events are displayed and entered in: the user's preference, else the browser's
+export function useTimeZone(): string {
+  const { user } = useAuth();
+  return user?.timezone || getSystemTimeZone();
+}
+
+// Minutes an event lasts when it's created without an end time
+export function useDefaultEventDuration(): number {
+  const { user } = useAuth();
+  return user?.defaultEventDuration || DEFAULT_EVENT_DURATION;
+}
+
+// The language voice commands are spoken and answered in
+export function useLocale(): Locale {
+  const { user } = useAuth();
+  return user?.locale && isSupportedLocale(user.locale) ? user.locale : DEFAULT_LOCALE;
+}
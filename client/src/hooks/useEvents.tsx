@@ -1,17 +1,146 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
-import { type Event, type InsertEvent } from "@shared/schema";
+import { useUndo } from "@/hooks/useUndo";
+import { type Event, type FreeSlot, type InsertEvent, type SeriesSplit } from "@shared/schema";
 
+export interface CalendarImportResult {
+  dryRun: boolean;
+  imported: { uid: string; title: string; startDate: string; isRecurring: boolean }[];
+  duplicates: { uid: string; title: string }[];
+  errors: { uid: string; title: string; message: string }[];
+}
+
+export interface AvailabilityResult {
+  durationMinutes: number;
+  timezone: string;
+  slots: FreeSlot[];
+}
+
+export interface TrashListing {
+  retentionDays: number; // Events are purged this long after being deleted
+  events: Event[];
+}
+
+export interface AvailabilitySearch {
+  startDate: Date;
+  endDate: Date;
+  durationMinutes?: number;
+  workdayStart?: string;
+  workdayEnd?: string;
+  timezone?: string;
+}
+
+// Free slots from GET /api/availability; unset fields use the user's defaults
+export async function fetchAvailability(search: AvailabilitySearch): Promise<AvailabilityResult> {
+  const params = new URLSearchParams({
+    startDate: search.startDate.toISOString(),
+    endDate: search.endDate.toISOString(),
+  });
+  if (search.durationMinutes) params.set("duration", String(search.durationMinutes));
+  if (search.workdayStart) params.set("workdayStart", search.workdayStart);
+  if (search.workdayEnd) params.set("workdayEnd", search.workdayEnd);
+  if (search.timezone) params.set("timezone", search.timezone);
+
+  const response = await apiRequest("GET", `/api/availability?${params}`);
+  return response.json();
+}
+
+// Events (recurring occurrences included) starting within the range, earliest first
+export async function fetchEventsInRange(startDate: Date, endDate: Date): Promise<Event[]> {
+  const params = new URLSearchParams({
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+  });
+  const response = await apiRequest("GET", `/api/events/range?${params}`);
+  return response.json();
+}
+
+// Thrown when the server refuses a change because it overlaps other events
+export class EventConflictError extends Error {
+  constructor(message: string, public conflicts: Event[]) {
+    super(message);
+    this.name = "EventConflictError";
+  }
+}
+
+// Like apiRequest, but surfaces a 409 as an EventConflictError; `force` books anyway
+async function eventRequest(method: string, url: string, data: unknown, force?: boolean): Promise<Response> {
+  const response = await fetch(force ? `${url}?force=true` : url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+    credentials: "include",
+  });
+
+  if (response.status === 409) {
+    const result = await response.json();
+    throw new EventConflictError(result.message, result.conflicts);
+  }
+  if (!response.ok) {
+    const text = (await response.text()) || response.statusText;
+    throw new Error(`${response.status}: ${text}`);
+  }
+  return response;
+}
+
+/**
+ * Run `save`, and if the server refuses it for overlapping other events, save again with
+ * force once `confirmOverlap` agrees. Resolves to null when the user backs out.
+ */
+export async function saveWithConflictCheck<T>(
+  save: (force: boolean) => Promise<T>,
+  confirmOverlap: (conflicts: Event[]) => boolean
+): Promise<T | null> {
+  try {
+    return await save(false);
+  } catch (error) {
+    if (!(error instanceof EventConflictError)) throw error;
+    if (!confirmOverlap(error.conflicts)) return null;
+    return save(true);
+  }
+}
+
+// The values `data` is about to overwrite, so that the update can be undone
+function previousValues(event: Event, data: Partial<InsertEvent>): Partial<InsertEvent> {
+  return Object.fromEntries(Object.keys(data).map(key => [key, event[key as keyof Event]]));
+}
+
+// Title of an event or series in the loaded calendar, for describing what a change did
+function cachedTitle(id: string): string | undefined {
+  const events = queryClient.getQueryData<Event[]>(["/api/events"]);
+  return events?.find(event => event.id === id || event.id.startsWith(`${id}-recur-`))?.title;
+}
+
+// Undo the last change to a single occurrence of a recurring series
+async function restoreInstance(id: string, instanceDate: Date): Promise<void> {
+  await apiRequest("POST", `/api/events/${id}/instance/restore`, { instanceDate });
+}
+
+/**
+ * Events and the mutations that change them. Every change made through these is recorded
+ * with useUndo; undoing and redoing bypass the overlap check, since the calendar looked
+ * that way before.
+ */
 export function useEvents() {
+  const { record } = useUndo();
+
   const eventsQuery = useQuery<Event[]>({
     queryKey: ["/api/events"],
   });
 
   const createEvent = useMutation({
-    mutationFn: async (data: InsertEvent) => {
-      const response = await apiRequest("POST", "/api/events", data);
-      return response.json();
+    mutationFn: async ({ force, ...data }: InsertEvent & { force?: boolean }): Promise<Event> => {
+      const response = await eventRequest("POST", "/api/events", data, force);
+      const event: Event = await response.json();
+
+      // Undoing keeps the deleted event on the server, so redoing brings back the same id
+      record({
+        label: `Created "${event.title}"`,
+        undo: async () => { await apiRequest("DELETE", `/api/events/${event.id}`); },
+        redo: async () => { await apiRequest("POST", `/api/events/${event.id}/restore`); },
+      });
+      return event;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/events"] });
@@ -19,18 +148,126 @@ export function useEvents() {
   });
 
   const updateEvent = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: Partial<InsertEvent> }) => {
-      const response = await apiRequest("PUT", `/api/events/${id}`, data);
-      return response.json();
+    mutationFn: async ({ id, data, force }: { id: string; data: Partial<InsertEvent>; force?: boolean }): Promise<Event> => {
+      const previous: Event = await (await apiRequest("GET", `/api/events/${id}`)).json();
+      const response = await eventRequest("PUT", `/api/events/${id}`, data, force);
+      const event: Event = await response.json();
+
+      record({
+        label: `Changed "${previous.title}"`,
+        undo: async () => { await eventRequest("PUT", `/api/events/${id}`, previousValues(previous, data), true); },
+        redo: async () => { await eventRequest("PUT", `/api/events/${id}`, data, true); },
+      });
+      return event;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    },
+  });
+
+  // Change a single occurrence of a recurring series, identified by its original start
+  const updateEventInstance = useMutation({
+    mutationFn: async ({ id, instanceDate, data, force }: { id: string; instanceDate: Date; data: Partial<InsertEvent>; force?: boolean }): Promise<Event> => {
+      const response = await eventRequest("PATCH", `/api/events/${id}/instance`, { ...data, instanceDate }, force);
+      const event: Event = await response.json();
+
+      record({
+        label: `Changed an occurrence of "${event.title}"`,
+        undo: () => restoreInstance(id, instanceDate),
+        redo: async () => { await eventRequest("PATCH", `/api/events/${id}/instance`, { ...data, instanceDate }, true); },
+      });
+      return event;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/events"] });
     },
   });
 
+  // Undo for splitting a series: remove the new part, give the original back its rule, bring
+  // back the occurrences trashed with the split and delete again the ones it had deleted.
+  // Redoing splits it again.
+  const recordSplit = (label: string, previousRule: string | null, split: SeriesSplit, resplit: () => Promise<SeriesSplit>) => {
+    let current = split;
+    record({
+      label,
+      undo: async () => {
+        if (current.series) {
+          await apiRequest("DELETE", `/api/events/${current.series.id}`);
+        }
+        await eventRequest("PUT", `/api/events/${current.original.id}`, { recurrenceRule: previousRule }, true);
+        for (const id of current.trashedIds) {
+          await apiRequest("POST", `/api/events/${id}/restore`);
+        }
+        for (const date of current.deletedDates) {
+          await apiRequest("DELETE", `/api/events/${current.original.id}?instanceDate=${new Date(date).toISOString()}`);
+        }
+      },
+      redo: async () => { current = await resplit(); },
+    });
+  };
+
+  // Change an occurrence and every one after it, which ends the series there and starts a new one
+  const updateFollowingEvents = useMutation({
+    mutationFn: async ({ id, instanceDate, data, force }: { id: string; instanceDate: Date; data: Partial<InsertEvent>; force?: boolean }): Promise<SeriesSplit> => {
+      const previous: Event = await (await apiRequest("GET", `/api/events/${id}`)).json();
+      const split = async (force?: boolean): Promise<SeriesSplit> =>
+        (await eventRequest("PATCH", `/api/events/${id}/following`, { ...data, instanceDate }, force)).json();
+
+      const result = await split(force);
+      recordSplit(`Changed "${previous.title}" and the events after it`, previous.recurrenceRule, result, () => split(true));
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    },
+  });
+
+  // Delete an occurrence and every one after it, ending the series there
+  const deleteFollowingEvents = useMutation({
+    mutationFn: async ({ id, instanceDate }: { id: string; instanceDate: Date }): Promise<SeriesSplit> => {
+      const previous: Event = await (await apiRequest("GET", `/api/events/${id}`)).json();
+      const split = async (): Promise<SeriesSplit> =>
+        (await apiRequest("DELETE", `/api/events/${id}/following?instanceDate=${instanceDate.toISOString()}`)).json();
+
+      const result = await split();
+      recordSplit(`Deleted "${previous.title}" and the events after it`, previous.recurrenceRule, result, split);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    },
+  });
+
+  // Delete a single occurrence of a recurring series, identified by its original start
+  const deleteEventInstance = useMutation({
+    mutationFn: async ({ id, instanceDate }: { id: string; instanceDate: Date }) => {
+      const title = cachedTitle(id);
+      const url = `/api/events/${id}?instanceDate=${instanceDate.toISOString()}`;
+      await apiRequest("DELETE", url);
+
+      record({
+        label: title ? `Deleted an occurrence of "${title}"` : "Deleted an occurrence",
+        undo: () => restoreInstance(id, instanceDate),
+        redo: async () => { await apiRequest("DELETE", url); },
+      });
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    },
+  });
+
+  // Moves an event, or a series with its changed occurrences, to the trash
   const deleteEvent = useMutation({
     mutationFn: async (id: string) => {
+      const title = cachedTitle(id);
       await apiRequest("DELETE", `/api/events/${id}`);
+
+      record({
+        label: title ? `Deleted "${title}"` : "Deleted an event",
+        undo: async () => { await apiRequest("POST", `/api/events/${id}/restore`); },
+        redo: async () => { await apiRequest("DELETE", `/api/events/${id}`); },
+      });
       return id;
     },
     onSuccess: () => {
@@ -38,16 +275,70 @@ export function useEvents() {
     },
   });
 
+  // Take an event back out of the trash
+  const restoreEvent = useMutation({
+    mutationFn: async (id: string): Promise<Event> => {
+      const response = await apiRequest("POST", `/api/events/${id}/restore`);
+      const event: Event = await response.json();
+
+      record({
+        label: `Restored "${event.title}"`,
+        undo: async () => { await apiRequest("DELETE", `/api/events/${id}`); },
+        redo: async () => { await apiRequest("POST", `/api/events/${id}/restore`); },
+      });
+      return event;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    },
+  });
+
+  const importCalendar = useMutation({
+    mutationFn: async ({ file, dryRun }: { file: File; dryRun: boolean }): Promise<CalendarImportResult> => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch(`/api/import/ics?dryRun=${dryRun}`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.message || "Failed to import calendar");
+      }
+      return response.json();
+    },
+    onSuccess: (result) => {
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      }
+    },
+  });
+
   return {
     events: eventsQuery.data,
     isLoading: eventsQuery.isLoading,
     error: eventsQuery.error,
     createEvent,
     updateEvent,
+    updateEventInstance,
+    deleteEventInstance,
+    updateFollowingEvents,
+    deleteFollowingEvents,
     deleteEvent,
+    restoreEvent,
+    importCalendar,
   };
 }
 
+// Deleted events awaiting restore or purge; under ["/api/events"] so every change refreshes it
+export function useTrash() {
+  return useQuery<TrashListing>({
+    queryKey: ["/api/events", "trash"],
+  });
+}
+
 export function useEventsByDateRange(startDate: Date, endDate: Date) {
   return useQuery<Event[]>({
     queryKey: ["/api/events/range", startDate.toISOString(), endDate.toISOString()],
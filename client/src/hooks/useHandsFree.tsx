@@ -0,0 +1,124 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useVoiceRecognition } from '@/hooks/useVoiceRecognition';
+import { useLocale } from '@/hooks/useAuth';
+import { findWakePhrase } from '@/lib/voiceGrammar';
+
+// After the wake phrase on its own, the next phrase said within this long is the command
+const WAKE_WINDOW_MS = 8000;
+
+interface UseHandsFreeOptions {
+  enabled: boolean;
+  onCommand: (command: string) => void;
+  awaitingReply?: boolean; // A command waits for "yes", "no" or a change, which need no wake phrase
+  inactivityTimeoutMs?: number; // Pause when no command has been given for this long
+}
+
+interface UseHandsFreeReturn {
+  isSupported: boolean;
+  isListening: boolean;
+  isPaused: boolean; // Stopped after inactivity, until resumed
+  isAwake: boolean; // The wake phrase was heard and a command is expected
+  heard: string; // What is being said, while awake or awaiting a reply
+  resume: () => void;
+}
+
+/**
+ * Listen continuously while `enabled`, passing on only what is said after a wake phrase such
+ * as "Hey Calendar", either in the same breath or within a few seconds of it.
+ */
+export function useHandsFree({
+  enabled,
+  onCommand,
+  awaitingReply = false,
+  inactivityTimeoutMs = 5 * 60 * 1000
+}: UseHandsFreeOptions): UseHandsFreeReturn {
+  const [isPaused, setIsPaused] = useState(false);
+  const [isAwake, setIsAwake] = useState(false);
+  const locale = useLocale();
+
+  const onCommandRef = useRef(onCommand);
+  const awaitingReplyRef = useRef(awaitingReply);
+  onCommandRef.current = onCommand;
+  awaitingReplyRef.current = awaitingReply;
+  const awakeTimerRef = useRef<number | null>(null);
+  const inactivityTimerRef = useRef<number | null>(null);
+
+  const sleep = useCallback(() => {
+    if (awakeTimerRef.current !== null) {
+      window.clearTimeout(awakeTimerRef.current);
+      awakeTimerRef.current = null;
+    }
+    setIsAwake(false);
+  }, []);
+
+  const clearInactivity = () => {
+    if (inactivityTimerRef.current !== null) {
+      window.clearTimeout(inactivityTimerRef.current);
+      inactivityTimerRef.current = null;
+    }
+  };
+
+  const restartInactivity = () => {
+    clearInactivity();
+    inactivityTimerRef.current = window.setTimeout(() => {
+      setIsPaused(true);
+      sleep();
+    }, inactivityTimeoutMs);
+  };
+
+  const handlePhrase = (phrase: string) => {
+    // The app reading back a confirmation is not the user speaking
+    if ('speechSynthesis' in window && window.speechSynthesis.speaking) return;
+
+    const afterWake = findWakePhrase(phrase, locale);
+    if (afterWake === null && !awaitingReplyRef.current && awakeTimerRef.current === null) return;
+
+    restartInactivity();
+    if (afterWake === '') {
+      sleep();
+      setIsAwake(true);
+      awakeTimerRef.current = window.setTimeout(sleep, WAKE_WINDOW_MS);
+      return;
+    }
+
+    sleep();
+    onCommandRef.current(afterWake ?? phrase);
+  };
+
+  const { isListening, isSupported, transcript, startListening, stopListening } = useVoiceRecognition({
+    onResult: handlePhrase,
+    onError: (error) => console.error('Hands-free listening error:', error),
+    continuous: true,
+  });
+
+  useEffect(() => {
+    if (!enabled || isPaused || !isSupported) return;
+
+    startListening();
+    restartInactivity();
+    return () => {
+      stopListening();
+      clearInactivity();
+      sleep();
+    };
+    // startListening changes with isListening, which starting sets; that mustn't restart this
+  }, [enabled, isPaused, isSupported, inactivityTimeoutMs]);
+
+  // Turning hands-free mode off and on again starts it fresh
+  useEffect(() => {
+    if (!enabled) setIsPaused(false);
+  }, [enabled]);
+
+  const resume = useCallback(() => setIsPaused(false), []);
+
+  const heard = isAwake || awaitingReply ? findWakePhrase(transcript, locale) ?? transcript : '';
+
+  return {
+    isSupported,
+    isListening: isListening && enabled && !isPaused,
+    isPaused: enabled && isPaused,
+    isAwake,
+    heard,
+    resume,
+  };
+}
@@ -0,0 +1,92 @@
+import { useState, useEffect, useRef, createContext, useContext, ReactNode } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "./useAuth";
+
+// How many changes can be undone; older ones are forgotten first
+const MAX_UNDO_ENTRIES = 50;
+
+// A change to the calendar and how to take it back and reapply it
+export interface UndoEntry {
+  label: string; // What was done, e.g. `Deleted "Dentist"`
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+interface UndoContextType {
+  record: (entry: UndoEntry) => void;
+  // Resolve to the entry undone or redone, or null when there was nothing to do
+  undo: () => Promise<UndoEntry | null>;
+  redo: () => Promise<UndoEntry | null>;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const UndoContext = createContext<UndoContextType | undefined>(undefined);
+
+export function UndoProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  // Kept in refs so that quick repeated Ctrl+Z presses never see a stale stack
+  const past = useRef<UndoEntry[]>([]);
+  const future = useRef<UndoEntry[]>([]);
+  const isBusy = useRef(false);
+  const [, setVersion] = useState(0);
+
+  const changed = () => setVersion(version => version + 1);
+
+  // Another user's changes can't be undone
+  useEffect(() => {
+    past.current = [];
+    future.current = [];
+    changed();
+  }, [user?.id]);
+
+  const record = (entry: UndoEntry) => {
+    past.current = [...past.current, entry].slice(-MAX_UNDO_ENTRIES);
+    future.current = [];
+    changed();
+  };
+
+  // Move the newest entry from one stack to the other once it has been applied; an entry
+  // that fails is dropped, since the calendar no longer matches it
+  const step = async (from: typeof past, to: typeof past, apply: (entry: UndoEntry) => Promise<void>) => {
+    const entry = from.current[from.current.length - 1];
+    if (!entry || isBusy.current) return null;
+
+    isBusy.current = true;
+    from.current = from.current.slice(0, -1);
+    try {
+      await apply(entry);
+      to.current = [...to.current, entry].slice(-MAX_UNDO_ENTRIES);
+      return entry;
+    } finally {
+      isBusy.current = false;
+      changed();
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    }
+  };
+
+  const undo = () => step(past, future, entry => entry.undo());
+  const redo = () => step(future, past, entry => entry.redo());
+
+  return (
+    <UndoContext.Provider
+      value={{
+        record,
+        undo,
+        redo,
+        canUndo: past.current.length > 0,
+        canRedo: future.current.length > 0,
+      }}
+    >
+      {children}
+    </UndoContext.Provider>
+  );
+}
+
+export function useUndo() {
+  const context = useContext(UndoContext);
+  if (context === undefined) {
+    throw new Error("useUndo must be used within an UndoProvider");
+  }
+  return context;
+}
@@ -1,9 +1,12 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { parseVoiceCommand } from "@/lib/voiceUtils";
+import { useLocale } from "@/hooks/useAuth";
+import { SPEECH_LANGUAGES } from "@shared/locale";
 
 interface UseVoiceRecognitionProps {
   onResult: (command: string) => void;
   onError?: (error: string) => void;
+  continuous?: boolean; // Keep listening, reporting each phrase once it's finished, until stopped
 }
 
 interface SpeechRecognitionEvent extends Event {
@@ -16,19 +19,43 @@ interface SpeechRecognitionErrorEvent extends Event {
   message: string;
 }
 
+// The Web Speech API's recognizer, which TypeScript's DOM types leave out
+interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onstart: (() => void) | null;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
 declare global {
   interface Window {
-    SpeechRecognition: typeof SpeechRecognition;
-    webkitSpeechRecognition: typeof SpeechRecognition;
+    SpeechRecognition: new () => SpeechRecognition;
+    webkitSpeechRecognition: new () => SpeechRecognition;
   }
 }
 
-export function useVoiceRecognition({ onResult, onError }: UseVoiceRecognitionProps) {
+// Errors that only mean nothing was said for a while
+const QUIET_ERRORS = ['no-speech', 'aborted'];
+
+export function useVoiceRecognition({ onResult, onError, continuous = false }: UseVoiceRecognitionProps) {
   const [isListening, setIsListening] = useState(false);
   const [transcript, setTranscript] = useState("");
   const [isSupported, setIsSupported] = useState(false);
   
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  // Whether to start again when the browser ends recognition, as it does after a pause
+  const keepListeningRef = useRef(false);
+  const onResultRef = useRef(onResult);
+  const onErrorRef = useRef(onError);
+  onResultRef.current = onResult;
+  onErrorRef.current = onError;
+  const locale = useLocale();
 
   useEffect(() => {
     // Check if Speech Recognition is supported
@@ -38,9 +65,9 @@ export function useVoiceRecognition({ onResult, onError }: UseVoiceRecognitionPr
       setIsSupported(true);
       
       const recognition = new SpeechRecognition();
-      recognition.continuous = false;
+      recognition.continuous = continuous;
       recognition.interimResults = true;
-      recognition.lang = 'en-US';
+      recognition.lang = SPEECH_LANGUAGES[locale];
 
       recognition.onstart = () => {
         setIsListening(true);
@@ -64,25 +91,41 @@ export function useVoiceRecognition({ onResult, onError }: UseVoiceRecognitionPr
         setTranscript(currentTranscript);
 
         if (finalTranscript) {
-          const parsedCommand = parseVoiceCommand(finalTranscript);
-          onResult(parsedCommand.originalText);
+          const parsedCommand = parseVoiceCommand(finalTranscript, undefined, locale);
+          onResultRef.current(parsedCommand.originalText.trim());
         }
       };
 
       recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+        // Continuous listening carries on through silence; onend starts it again
+        if (keepListeningRef.current && QUIET_ERRORS.includes(event.error)) return;
+
         console.error("Speech recognition error:", event.error);
+        keepListeningRef.current = false;
         setIsListening(false);
-        if (onError) {
-          onError(event.error);
-        }
+        onErrorRef.current?.(event.error);
       };
 
       recognition.onend = () => {
-        setIsListening(false);
         setTranscript("");
+        if (keepListeningRef.current) {
+          try {
+            recognition.start();
+            return;
+          } catch (error) {
+            console.error("Error restarting speech recognition:", error);
+            keepListeningRef.current = false;
+          }
+        }
+        setIsListening(false);
       };
 
       recognitionRef.current = recognition;
+
+      // Carry on listening in the new language
+      if (keepListeningRef.current) {
+        recognition.start();
+      }
     } else {
       setIsSupported(false);
       console.warn("Speech Recognition is not supported in this browser");
@@ -90,29 +133,31 @@ export function useVoiceRecognition({ onResult, onError }: UseVoiceRecognitionPr
 
     return () => {
       if (recognitionRef.current) {
+        recognitionRef.current.onend = null;
         recognitionRef.current.abort();
+        setIsListening(false);
       }
     };
-  }, [onResult, onError]);
+  }, [continuous, locale]);
 
   const startListening = useCallback(() => {
     if (recognitionRef.current && !isListening) {
+      keepListeningRef.current = continuous;
       try {
         recognitionRef.current.start();
       } catch (error) {
         console.error("Error starting speech recognition:", error);
-        if (onError) {
-          onError("Failed to start voice recognition");
-        }
+        keepListeningRef.current = false;
+        onErrorRef.current?.("Failed to start voice recognition");
       }
     }
-  }, [isListening, onError]);
+  }, [isListening, continuous]);
 
+  // Stopping a recognizer that isn't running does nothing, so this needn't know whether it is
   const stopListening = useCallback(() => {
-    if (recognitionRef.current && isListening) {
-      recognitionRef.current.stop();
-    }
-  }, [isListening]);
+    keepListeningRef.current = false;
+    recognitionRef.current?.stop();
+  }, []);
 
   return {
     isListening,
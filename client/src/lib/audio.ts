@@ -0,0 +1,84 @@
+// Quietest level the meter shows; anything below reads as silence
+const METER_FLOOR_DB = -60;
+
+// Sample rate recordings are trimmed to, the rate speech-to-text engines work at
+const TRIM_SAMPLE_RATE = 16000;
+
+// Kept on either side of the speech when trimming, so first and last syllables survive
+const TRIM_PADDING_MS = 300;
+
+// Stretch of a recording in which speech was heard, in milliseconds from its start
+export interface SpeechSpan {
+  start: number;
+  end: number;
+}
+
+// Loudness of a block of samples in dBFS (0 is full scale)
+export function measureDecibels(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  const rms = Math.sqrt(sum / samples.length);
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+}
+
+// A level in dBFS as a 0 to 1 fraction for a meter
+export function meterLevel(decibels: number): number {
+  return Math.min(1, Math.max(0, 1 - decibels / METER_FLOOR_DB));
+}
+
+function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/**
+ * Cut the silence before and after `speech` from a recording, as 16 kHz mono WAV. Resolves
+ * to the recording unchanged when the browser can't decode it.
+ */
+export async function trimSilence(recording: Blob, speech: SpeechSpan): Promise<Blob> {
+  try {
+    const context = new OfflineAudioContext(1, 1, TRIM_SAMPLE_RATE);
+    const audio = await context.decodeAudioData(await recording.arrayBuffer());
+
+    const toSample = (ms: number) => Math.round(ms / 1000 * audio.sampleRate);
+    const from = Math.max(0, toSample(speech.start - TRIM_PADDING_MS));
+    const to = Math.min(audio.length, toSample(speech.end + TRIM_PADDING_MS));
+
+    const samples = new Float32Array(Math.max(0, to - from));
+    for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+      const data = audio.getChannelData(channel);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] += data[from + i] / audio.numberOfChannels;
+      }
+    }
+    return encodeWav(samples, audio.sampleRate);
+  } catch (error) {
+    console.warn('Could not trim recording:', error);
+    return recording;
+  }
+}
@@ -0,0 +1,201 @@
+import { addDays, differenceInMinutes, startOfDay } from "date-fns";
+import { type Event, DEFAULT_EVENT_DURATION } from "@shared/schema";
+import { toZonedTime } from "@shared/timezone";
+
+// Height of one hour in the week and day time grids, in pixels
+export const HOUR_HEIGHT = 48;
+
+// Shortest block drawn in the time grid, so very short events stay clickable
+const MIN_EVENT_MINUTES = 20;
+
+export interface EventTimeChange {
+  startDate: Date;
+  endDate: Date | null;
+}
+
+export interface PositionedEvent {
+  event: Event;
+  top: number;
+  height: number;
+  column: number;
+  columns: number;
+}
+
+export function getEventColorClass(event: Event): string {
+  if (event.isRecurring) {
+    return 'bg-secondary-500 text-white border-l-2 border-secondary-700';
+  }
+  const title = event.title.toLowerCase();
+  if (title.includes('meeting')) {
+    return 'bg-blue-500 text-white border-l-2 border-blue-700';
+  }
+  if (title.includes('lunch') || title.includes('dinner')) {
+    return 'bg-orange-500 text-white border-l-2 border-orange-700';
+  }
+  return 'bg-primary-500 text-white border-l-2 border-primary-700';
+}
+
+// Start and end of an event as wall-clock times in the viewer's zone; events saved
+// without an end are drawn with the default duration
+export function getZonedEventRange(event: Event, timeZone: string): { start: Date; end: Date } {
+  const start = toZonedTime(new Date(event.startDate), timeZone);
+  const end = event.endDate
+    ? toZonedTime(new Date(event.endDate), timeZone)
+    : new Date(start.getTime() + DEFAULT_EVENT_DURATION * 60 * 1000);
+  return { start, end: end > start ? end : start };
+}
+
+export function getMinutesIntoDay(date: Date): number {
+  return differenceInMinutes(date, startOfDay(date));
+}
+
+/**
+ * Position the timed events that overlap `day` (a wall-clock date) in a time grid column.
+ * Overlapping events are grouped into clusters and split side by side, each event
+ * taking the first column that is free at its start time.
+ */
+export function layoutDayEvents(events: Event[], day: Date, timeZone: string): PositionedEvent[] {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+
+  const blocks = events
+    .filter(event => !isSpanningEvent(event))
+    .map(event => ({ event, ...getZonedEventRange(event, timeZone) }))
+    .filter(({ start, end }) => start < dayEnd && (end > dayStart || start >= dayStart))
+    .map(({ event, start, end }) => {
+      const top = Math.max(0, differenceInMinutes(start, dayStart));
+      const bottom = Math.min(24 * 60, Math.max(differenceInMinutes(end, dayStart), top + MIN_EVENT_MINUTES));
+      return { event, top, bottom };
+    })
+    .sort((a, b) => a.top - b.top || b.bottom - a.bottom);
+
+  const positioned: PositionedEvent[] = [];
+  let cluster: { block: typeof blocks[number]; column: number }[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -1;
+
+  const flush = () => {
+    for (const { block, column } of cluster) {
+      positioned.push({
+        event: block.event,
+        top: (block.top / 60) * HOUR_HEIGHT,
+        height: ((block.bottom - block.top) / 60) * HOUR_HEIGHT,
+        column,
+        columns: columnEnds.length,
+      });
+    }
+    cluster = [];
+    columnEnds = [];
+  };
+
+  for (const block of blocks) {
+    if (block.top >= clusterEnd) {
+      flush();
+    }
+
+    let column = columnEnds.findIndex(end => end <= block.top);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(block.bottom);
+    } else {
+      columnEnds[column] = block.bottom;
+    }
+
+    cluster.push({ block, column });
+    clusterEnd = Math.max(clusterEnd, block.bottom);
+  }
+  flush();
+
+  return positioned;
+}
+
+// Drag and resize positions snap to this many minutes
+export const SNAP_MINUTES = 15;
+
+export function snapMinutes(minutes: number): number {
+  return Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+}
+
+// Vertical offset within a time grid column, in minutes from midnight
+export function offsetToMinutes(offset: number): number {
+  return (offset / HOUR_HEIGHT) * 60;
+}
+
+// The new start and end for an event moved to `start`, keeping its duration
+export function moveEvent(event: Event, start: Date): EventTimeChange {
+  const duration = event.endDate
+    ? new Date(event.endDate).getTime() - new Date(event.startDate).getTime()
+    : 0;
+  return {
+    startDate: start,
+    endDate: duration > 0 ? new Date(start.getTime() + duration) : null,
+  };
+}
+
+// Height of one lane of all-day and multi-day bars, in pixels
+export const SPAN_BAR_HEIGHT = 22;
+
+export interface SpanSegment {
+  event: Event;
+  startIndex: number;
+  span: number;
+  lane: number;
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+// All-day dates belong to the event's own zone; timed events are seen in the viewer's
+function getEventDayRange(event: Event, timeZone: string): { first: Date; last: Date } {
+  const zone = event.allDay ? event.timezone ?? timeZone : timeZone;
+  const { start, end } = getZonedEventRange(event, zone);
+  const lastInstant = end > start ? new Date(end.getTime() - 1) : start;
+  return { first: startOfDay(start), last: startOfDay(lastInstant) };
+}
+
+// All-day events and events lasting a day or more are drawn as bars across day cells
+export function isSpanningEvent(event: Event): boolean {
+  if (event.allDay) return true;
+  if (!event.endDate) return false;
+  return new Date(event.endDate).getTime() - new Date(event.startDate).getTime() >= 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Bars for the spanning events that touch `days` (consecutive wall-clock dates), each
+ * placed in the first lane that is free across all of its days.
+ */
+export function layoutSpanningEvents(events: Event[], days: Date[], timeZone: string): { segments: SpanSegment[]; lanes: number } {
+  const firstDay = startOfDay(days[0]);
+  const lastDay = startOfDay(days[days.length - 1]);
+  const dayIndex = (date: Date) => Math.round((date.getTime() - firstDay.getTime()) / (24 * 60 * 60 * 1000));
+
+  const candidates = events
+    .filter(isSpanningEvent)
+    .map(event => ({ event, ...getEventDayRange(event, timeZone) }))
+    .filter(({ first, last }) => first <= lastDay && last >= firstDay)
+    .sort((a, b) => a.first.getTime() - b.first.getTime() || b.last.getTime() - a.last.getTime());
+
+  const laneEnds: number[] = [];
+  const segments = candidates.map(({ event, first, last }) => {
+    const startIndex = Math.max(0, dayIndex(first));
+    const endIndex = Math.min(days.length - 1, dayIndex(last));
+
+    let lane = laneEnds.findIndex(end => end < startIndex);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(endIndex);
+    } else {
+      laneEnds[lane] = endIndex;
+    }
+
+    return {
+      event,
+      startIndex,
+      span: endIndex - startIndex + 1,
+      lane,
+      continuesBefore: first < firstDay,
+      continuesAfter: last > lastDay,
+    };
+  });
+
+  return { segments, lanes: laneEnds.length };
+}
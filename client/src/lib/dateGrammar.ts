@@ -0,0 +1,355 @@
+import { DEFAULT_LOCALE, type Locale } from "@shared/locale";
+
+// Letters that can't border a word; \b doesn't know accented ones
+export const LETTERS = 'a-z0-9áéíóúüñäöß';
+
+export type DateUnit = 'day' | 'week' | 'month' | 'year';
+export type PartOfDay = 'morning' | 'afternoon' | 'evening';
+
+/**
+ * How dates, times and lengths are said in one language, read by parseNaturalLanguageDate.
+ * Entries are regular expression sources for whole words of lowercased text, with single
+ * spaces between words and only non-capturing groups. In templates, {weekday}, {month},
+ * {day}, {year}, {count}, {unit} and {part} stand for what is said there.
+ */
+export interface DateGrammar {
+  locale: Locale;
+  weekdays: string[]; // From Sunday
+  months: string[]; // From January
+  countWords: Record<string, number>; // "two weeks", "a month", "for three hours"
+  units: Record<DateUnit, string>;
+
+  today: string; // Including "tonight" and "this morning"
+  tomorrow: string;
+  yesterday: string;
+  dayAfterTomorrow: string;
+  relativeDates: string[]; // "in {count} {unit}"
+  nextPeriod: string; // "next {unit}", said of months and years
+  thisWeekday: string; // "this {weekday}", which may be today
+  nextWeekday: string; // "next {weekday}", the one in the week after the coming one
+  weekdayRange: string; // "{from} to {to}"
+  weekend: string;
+  thisWeek: string;
+  nextWeek: string;
+  monthDates: string[]; // "{month} {day}", "{day} of {month}", each with an optional {year}
+  numericDates: string[]; // "{month}/{day}", in the order the language writes them
+  dayOfMonth: string; // "the {day}th"
+
+  am: string; // After a clock time: "3 pm"
+  pm: string;
+  oClock: string;
+  at: string; // Before a clock time: "at 3", "by 5"
+  sayAt: string; // Put before a bare number to make it a time
+  militaryHours: string; // "1500 hours"
+  clockContext: { am: string; pm: string }; // Said alongside an hour without am/pm: "at 8 tonight"
+  noon: string;
+  midnight: string;
+  range: { from: string; between: string; to: string; and: string; article?: string }; // "from 2 to 4", "between 9 and 11"
+
+  partsOfDay: Record<PartOfDay, string>;
+  tonight: string;
+  wholePartOfDay: string; // "all {part}"
+  allDay: string;
+  dayparts: [string, number][]; // Hours meant by a part of the day said without a time, first match wins
+
+  durations: { for: string; halfHour: string; hourAndAHalf: string; hours: string; minutes: string };
+
+  // Times said in words as digits, so "half past three" reads as "3:30"
+  timesToDigits(text: string): string;
+}
+
+const clock = (hours: number, minutes: number) => `${hours}:${String(minutes).padStart(2, '0')}`;
+
+// Number words in spoken times: "three thirty", "ten oh five", "quarter past four"
+const CLOCK_WORDS: Record<string, number> = {
+  oh: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50
+};
+const HOUR_WORDS = '(one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)';
+const UNIT_WORDS = '(?:one|two|three|four|five|six|seven|eight|nine)';
+const MINUTE_WORDS = `(?:oh[\\s-]+${UNIT_WORDS}|(?:twenty|thirty|forty|fifty)(?:[\\s-]+${UNIT_WORDS})?|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen)`;
+const ENGLISH_MERIDIEM = '(am|pm|a\\.m\\.|p\\.m\\.)';
+
+// Numbers spoken as words: "forty five" is 45, "oh five" is 5
+function wordsToNumber(words: string): number {
+  return words.split(/[\s-]+/).reduce((sum, word) => sum + (CLOCK_WORDS[word] ?? 0), 0);
+}
+
+function hourValue(value: string): number {
+  return /^\d/.test(value) ? parseInt(value) : CLOCK_WORDS[value];
+}
+
+// "at seven thirty pm" is "at 7:30 pm". Words that could be counts ("two thirty minute calls")
+// are left alone unless "at", am/pm or o'clock makes them a time.
+function englishTimesToDigits(text: string): string {
+  const notALength = `(?![\\s-]*(?:minutes?|mins?|hours?|hrs?|days?|weeks?|people|of)\\b)`;
+
+  return text
+    // "quarter past 3", "half past two", "quarter to five", "twenty minutes past six"
+    .replace(new RegExp(`\\b(quarter|half|${MINUTE_WORDS}(?:\\s+minutes?)?|\\d{1,2}\\s+minutes?)\\s+(past|after|to|before)\\s+(\\d{1,2}|${HOUR_WORDS})\\b`, 'g'),
+      (phrase, amount: string, direction: string, hour: string) => {
+        if (direction === 'to' && !/^(quarter|half)/.test(amount) && !/minute/.test(amount)) return phrase;
+        const minutes = amount === 'quarter' ? 15 : amount === 'half' ? 30 : /^\d/.test(amount) ? parseInt(amount) : wordsToNumber(amount.replace(/\s+minutes?$/, ''));
+        const hours = hourValue(hour);
+        if (minutes >= 60 || hours > 12) return phrase;
+        return direction === 'past' || direction === 'after'
+          ? clock(hours, minutes)
+          : clock(hours === 1 ? 12 : hours - 1, 60 - minutes);
+      })
+    // "from three to four", "between nine and eleven"
+    .replace(new RegExp(`\\b(from|between)\\s+${HOUR_WORDS}(\\s+(?:to|and|until|till)\\s+)${HOUR_WORDS}\\b`, 'g'),
+      (_, prefix: string, start: string, separator: string, end: string) => `${prefix} ${hourValue(start)}${separator}${hourValue(end)}`)
+    // "three thirty", "ten fifteen pm"
+    .replace(new RegExp(`\\b${HOUR_WORDS}[\\s-]+(${MINUTE_WORDS})\\b${notALength}`, 'g'),
+      (phrase, hour: string, minutes: string, offset: number, whole: string) => {
+        const isClockish = /^(oh|fifteen|thirty|forty[\s-]+five)\b/.test(minutes)
+          || /\bat\s*$/.test(whole.slice(0, offset))
+          || new RegExp(`^\\s*${ENGLISH_MERIDIEM}`).test(whole.slice(offset + phrase.length));
+        return isClockish ? clock(hourValue(hour), wordsToNumber(minutes)) : phrase;
+      })
+    // "seven o'clock", "seven pm", "at seven"
+    .replace(new RegExp(`\\b${HOUR_WORDS}(?=\\s+o'?clock\\b|\\s*${ENGLISH_MERIDIEM}(?![a-z]))`, 'g'), hour => String(hourValue(hour)))
+    .replace(new RegExp(`\\bat\\s+${HOUR_WORDS}\\b${notALength}`, 'g'), (_, hour: string) => `at ${hourValue(hour)}`);
+}
+
+const englishGrammar: DateGrammar = {
+  locale: 'en',
+  weekdays: ['sundays?', 'mondays?', 'tuesdays?', 'wednesdays?', 'thursdays?', 'fridays?', 'saturdays?'],
+  months: ['jan(?:uary)?', 'feb(?:ruary)?', 'mar(?:ch)?', 'apr(?:il)?', 'may', 'june?', 'july?', 'aug(?:ust)?', 'sept?(?:ember)?', 'oct(?:ober)?', 'nov(?:ember)?', 'dec(?:ember)?'],
+  countWords: {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+    seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+  },
+  units: { day: 'days?', week: 'weeks?', month: 'months?', year: 'years?' },
+
+  today: 'today|tonight|this (?:morning|afternoon|evening)',
+  tomorrow: 'tomorrow',
+  yesterday: 'yesterday',
+  dayAfterTomorrow: '(?:the )?day after tomorrow',
+  relativeDates: ['in {count} {unit}', '{count} {unit} from (?:now|today)'],
+  nextPeriod: 'next {unit}',
+  thisWeekday: '(?:this|coming) {weekday}',
+  nextWeekday: 'next {weekday}',
+  weekdayRange: '{from} (?:to|through|thru|until|till|-) {to}',
+  weekend: 'weekend',
+  thisWeek: 'this week',
+  nextWeek: 'next week',
+  monthDates: [
+    '{month}\\.? (?:the )?{day}(?:st|nd|rd|th)?(?:,? {year})?',
+    '{day}(?:(?:st|nd|rd|th) (?:of )?| of ){month}(?:,? {year})?',
+  ],
+  numericDates: ['{month}/{day}(?:/{year})?'],
+  dayOfMonth: 'the {day}(?:st|nd|rd|th)',
+
+  am: 'am|a\\.m\\.',
+  pm: 'pm|p\\.m\\.',
+  oClock: "o'?clock",
+  at: 'at|by|around',
+  sayAt: 'at',
+  militaryHours: 'hours|hrs',
+  clockContext: { am: 'morning', pm: 'afternoon|evening|tonight|night' },
+  noon: 'noon|midday',
+  midnight: 'midnight',
+  range: { from: 'from', between: 'between', to: 'to|until|till', and: 'and' },
+
+  partsOfDay: { morning: 'morning', afternoon: 'afternoon', evening: 'evening' },
+  tonight: 'tonight',
+  wholePartOfDay: 'all {part}',
+  allDay: 'all day',
+  dayparts: [
+    ['first thing', 9],
+    ['morning', 9],
+    ['after lunch', 13],
+    ['at lunch|lunchtime', 12],
+    ['afternoon', 14],
+    ['end of (?:the )?(?:day|business)|eod|close of business', 17],
+    ['evening', 18],
+    ['tonight', 19],
+  ],
+
+  durations: { for: 'for', halfHour: 'half an hour', hourAndAHalf: 'an? hour and a half', hours: 'hours?|hrs?', minutes: 'minutes?|mins?' },
+
+  timesToDigits: englishTimesToDigits,
+};
+
+const SPANISH_HOURS: Record<string, number> = {
+  una: 1, uno: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10, once: 11, doce: 12
+};
+const SPANISH_HOUR = `(\\d{1,2}|${Object.keys(SPANISH_HOURS).join('|')})`;
+
+// "las dos y media" is "las 2:30", "las cinco menos cuarto" "las 4:45" and "de dos a cuatro" "de 2 a 4"
+function spanishTimesToDigits(text: string): string {
+  const hour = (value: string) => /^\d/.test(value) ? parseInt(value) : SPANISH_HOURS[value];
+  const before = `(^|[^${LETTERS}])`;
+  const after = `(?![${LETTERS}])`;
+
+  return text
+    .replace(new RegExp(`${before}${SPANISH_HOUR} (y media|y cuarto|menos cuarto)${after}`, 'g'), (phrase, prefix: string, value: string, part: string) => {
+      const hours = hour(value);
+      if (hours > 12) return phrase;
+      if (part === 'menos cuarto') return `${prefix}${clock(hours === 1 ? 12 : hours - 1, 45)}`;
+      return `${prefix}${clock(hours, part === 'y media' ? 30 : 15)}`;
+    })
+    .replace(new RegExp(`${before}(las? )${SPANISH_HOUR}${after}`, 'g'), (_, prefix: string, article: string, value: string) => `${prefix}${article}${hour(value)}`)
+    .replace(new RegExp(`${before}((?:de|desde|entre) )${SPANISH_HOUR}( (?:a|hasta|y) (?:las? )?)${SPANISH_HOUR}${after}`, 'g'),
+      (_, prefix: string, from: string, start: string, separator: string, end: string) => `${prefix}${from}${hour(start)}${separator}${hour(end)}`)
+    .replace(new RegExp(`${before}${SPANISH_HOUR}(?= (?:en punto|de la (?:ma[ñn]ana|madrugada|tarde|noche))${after})`, 'g'),
+      (_, prefix: string, value: string) => `${prefix}${hour(value)}`);
+}
+
+const spanishGrammar: DateGrammar = {
+  locale: 'es',
+  weekdays: ['domingos?', 'lunes', 'martes', 'mi[eé]rcoles', 'jueves', 'viernes', 's[aá]bados?'],
+  months: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre|setiembre', 'octubre', 'noviembre', 'diciembre'],
+  countWords: {
+    un: 1, una: 1, uno: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10, once: 11, doce: 12,
+    quince: 15, veinte: 20, treinta: 30, cuarenta: 40, 'cuarenta y cinco': 45, cincuenta: 50, noventa: 90
+  },
+  units: { day: 'd[ií]as?', week: 'semanas?', month: 'mes(?:es)?', year: 'a[ñn]os?' },
+
+  today: 'hoy|esta (?:ma[ñn]ana|tarde|noche)',
+  // Not the morning of "por la mañana"
+  tomorrow: `(?<!(?:^|[^${LETTERS}])(?:la|esta|pasado) )ma[ñn]ana`,
+  yesterday: 'ayer',
+  dayAfterTomorrow: 'pasado ma[ñn]ana',
+  relativeDates: ['(?:en|dentro de) {count} {unit}'],
+  nextPeriod: '(?:el |la )?(?:pr[oó]xim[oa] {unit}|{unit} que viene)',
+  thisWeekday: 'este {weekday}',
+  nextWeekday: '(?:el )?(?:pr[oó]ximo {weekday}|{weekday} que viene)',
+  weekdayRange: '(?:(?:de|desde) (?:el )?)?{from} (?:a|al|hasta(?: el)?) {to}',
+  weekend: 'fin de semana|finde',
+  thisWeek: 'esta semana',
+  nextWeek: '(?:la )?(?:pr[oó]xima semana|semana que viene)',
+  monthDates: ['{day} de {month}(?: del? {year})?'],
+  numericDates: ['{day}/{month}(?:/{year})?'],
+  dayOfMonth: 'el (?:d[ií]a )?{day}',
+
+  am: 'de la ma[ñn]ana|de la madrugada',
+  pm: 'de la tarde|de la noche',
+  oClock: 'en punto',
+  at: 'a las?|sobre las?|hacia las?',
+  sayAt: 'a las',
+  militaryHours: 'horas',
+  clockContext: { am: '(?:la|esta) ma[ñn]ana|madrugada', pm: 'tarde|noche' },
+  noon: 'mediod[ií]a',
+  midnight: 'medianoche',
+  range: { from: 'de|desde', between: 'entre', to: 'a|hasta', and: 'y', article: 'las?' },
+
+  partsOfDay: { morning: '(?:la|esta) ma[ñn]ana', afternoon: '(?:la|esta) tarde', evening: '(?:la|esta) noche' },
+  tonight: 'esta noche',
+  wholePartOfDay: 'toda {part}',
+  allDay: 'todo el d[ií]a',
+  dayparts: [
+    ['a primera hora', 9],
+    ['(?:la|esta) ma[ñn]ana', 9],
+    ['despu[eé]s de comer|despu[eé]s del almuerzo', 13],
+    ['a la hora de comer', 12],
+    ['(?:la|esta) tarde', 14],
+    ['(?:al )?final del d[ií]a|fin de la jornada', 17],
+    ['esta noche', 19],
+    ['la noche', 18],
+  ],
+
+  durations: { for: 'durante|por', halfHour: 'media hora', hourAndAHalf: '(?:una )?hora y media', hours: 'horas?', minutes: 'minutos?' },
+
+  timesToDigits: spanishTimesToDigits,
+};
+
+const GERMAN_HOURS: Record<string, number> = {
+  ein: 1, eins: 1, zwei: 2, drei: 3, vier: 4, fünf: 5, sechs: 6, sieben: 7, acht: 8, neun: 9, zehn: 10, elf: 11, zwölf: 12
+};
+const GERMAN_MINUTES: Record<string, number> = {
+  fünf: 5, zehn: 10, fünfzehn: 15, zwanzig: 20, fünfundzwanzig: 25, dreißig: 30,
+  fünfunddreißig: 35, vierzig: 40, fünfundvierzig: 45, fünfzig: 50, fünfundfünfzig: 55
+};
+const GERMAN_HOUR = `(\\d{1,2}|${Object.keys(GERMAN_HOURS).join('|')})`;
+
+// "halb vier" is "3:30", "viertel vor fünf" "4:45", "drei Uhr dreißig" "3:30" and "um drei" "um 3"
+function germanTimesToDigits(text: string): string {
+  const hour = (value: string) => /^\d/.test(value) ? parseInt(value) : GERMAN_HOURS[value];
+  const before = `(^|[^${LETTERS}])`;
+  const after = `(?![${LETTERS}])`;
+  const minutes = `(\\d{1,2}|${Object.keys(GERMAN_MINUTES).sort((a, b) => b.length - a.length).join('|')})`;
+
+  return text
+    .replace(new RegExp(`${before}(halb|viertel nach|viertel vor|dreiviertel) ${GERMAN_HOUR}${after}`, 'g'), (phrase, prefix: string, part: string, value: string) => {
+      const hours = hour(value);
+      const previous = hours === 1 ? 12 : hours - 1;
+      if (hours > 12) return phrase;
+      if (part === 'halb') return `${prefix}${clock(previous, 30)}`;
+      return `${prefix}${part === 'viertel nach' ? clock(hours, 15) : clock(previous, 45)}`;
+    })
+    .replace(new RegExp(`${before}${GERMAN_HOUR} uhr ${minutes}${after}`, 'g'), (_, prefix: string, value: string, spoken: string) =>
+      `${prefix}${clock(hour(value), /^\d/.test(spoken) ? parseInt(spoken) : GERMAN_MINUTES[spoken])}`)
+    .replace(new RegExp(`${before}((?:um|gegen|ab|von|bis|zwischen|und) )${GERMAN_HOUR}${after}`, 'g'), (_, prefix: string, word: string, value: string) => `${prefix}${word}${hour(value)}`)
+    .replace(new RegExp(`${before}${GERMAN_HOUR}(?= (?:uhr|morgens|früh|vormittags|nachmittags|abends|nachts)${after})`, 'g'),
+      (_, prefix: string, value: string) => `${prefix}${hour(value)}`);
+}
+
+const germanGrammar: DateGrammar = {
+  locale: 'de',
+  weekdays: ['sonntags?', 'montags?', 'dienstags?', 'mittwochs?', 'donnerstags?', 'freitags?', 'samstags?|sonnabends?'],
+  months: ['januar|jänner', 'februar', 'märz|maerz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'],
+  countWords: {
+    ein: 1, eine: 1, einem: 1, einer: 1, einen: 1, eins: 1, zwei: 2, drei: 3, vier: 4, fünf: 5, sechs: 6, sieben: 7, acht: 8,
+    neun: 9, zehn: 10, elf: 11, zwölf: 12, fünfzehn: 15, zwanzig: 20, dreißig: 30, vierzig: 40, fünfundvierzig: 45, fünfzig: 50, neunzig: 90
+  },
+  units: { day: 'tage?n?', week: 'wochen?', month: 'monate?n?', year: 'jahre?n?' },
+
+  today: 'heute',
+  // Not the morning of "am Morgen"
+  tomorrow: `(?<!(?:^|[^${LETTERS}])(?:am|heute|ganzen) )morgen`,
+  yesterday: 'gestern',
+  dayAfterTomorrow: 'übermorgen',
+  relativeDates: ['in {count} {unit}'],
+  nextPeriod: '(?:im )?(?:nächste[nms]?|kommende[nms]?) {unit}',
+  thisWeekday: '(?:diese[nm]?|kommende[nm]?) {weekday}',
+  nextWeekday: '(?:am )?nächste[nm]? {weekday}',
+  weekdayRange: '(?:von )?{from} bis(?: zum)? {to}',
+  weekend: 'wochenende',
+  thisWeek: 'diese woche',
+  nextWeek: '(?:nächste|kommende) woche',
+  monthDates: ['{day}\\.? {month}(?: {year})?'],
+  numericDates: ['{day}\\.{month}\\.(?:{year})?', '{day}/{month}(?:/{year})?'],
+  dayOfMonth: '(?:am|den) {day}\\.',
+
+  am: 'morgens|früh|vormittags',
+  pm: 'nachmittags|abends|nachts',
+  oClock: 'uhr',
+  at: 'um|gegen|ab',
+  sayAt: 'um',
+  militaryHours: 'uhr',
+  clockContext: { am: 'morgens|vormittags?|früh|(?:am|heute) morgen', pm: 'nachmittags?|abends?|nachts?' },
+  noon: 'mittags?',
+  midnight: 'mitternacht',
+  range: { from: 'von|ab', between: 'zwischen', to: 'bis', and: 'und' },
+
+  partsOfDay: { morning: 'vormittags?|morgens|früh|(?:am|heute|ganzen) morgen', afternoon: 'nachmittags?', evening: 'abends?|nachts?' },
+  tonight: 'heute (?:abend|nacht)',
+  wholePartOfDay: 'den ganzen {part}',
+  allDay: 'den ganzen tag|ganztägig',
+  dayparts: [
+    ['früh|morgens|vormittags?|(?:am|heute) morgen', 9],
+    ['nach dem mittagessen', 13],
+    ['zum mittagessen|in der mittagspause', 12],
+    ['nachmittags?', 14],
+    ['zum feierabend|(?:am )?ende des tages', 17],
+    ['heute (?:abend|nacht)', 19],
+    ['abends?|nachts?', 18],
+  ],
+
+  durations: { for: 'für', halfHour: '(?:eine )?halbe stunde', hourAndAHalf: '(?:eineinhalb|anderthalb) stunden', hours: 'stunden?', minutes: 'minuten?' },
+
+  timesToDigits: germanTimesToDigits,
+};
+
+const GRAMMARS: Record<Locale, DateGrammar> = {
+  en: englishGrammar,
+  es: spanishGrammar,
+  de: germanGrammar,
+};
+
+export function getDateGrammar(locale: Locale = DEFAULT_LOCALE): DateGrammar {
+  return GRAMMARS[locale] ?? englishGrammar;
+}
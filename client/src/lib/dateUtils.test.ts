@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import { format } from "date-fns";
+import type { Locale } from "@shared/locale";
+import { parseNaturalLanguageDate } from "./dateUtils";
+
+// Wednesday 11 March 2026, mid-afternoon; the suite runs with TZ=UTC (vitest.config.ts)
+const NOW = new Date("2026-03-11T15:00:00Z");
+
+interface Expected {
+  date?: string; // yyyy-MM-dd
+  time?: string; // HH:mm
+  endTime?: string;
+  endDate?: string;
+  durationMinutes?: number;
+  allDay?: boolean;
+}
+
+// What the parser read, in the shape of Expected
+function read(input: string, timeZone?: string, now: Date = NOW, locale: Locale = "en"): Expected & { isValid: boolean } {
+  const parsed = parseNaturalLanguageDate(input, timeZone, now, locale);
+  return {
+    date: parsed.date && format(parsed.date, "yyyy-MM-dd"),
+    time: parsed.time && format(parsed.time, "HH:mm"),
+    endTime: parsed.endTime && format(parsed.endTime, "HH:mm"),
+    endDate: parsed.endDate && format(parsed.endDate, "yyyy-MM-dd"),
+    durationMinutes: parsed.durationMinutes,
+    allDay: parsed.allDay,
+    isValid: parsed.isValid,
+  };
+}
+
+function expected(values: Expected): Expected & { isValid: boolean } {
+  return {
+    date: undefined,
+    time: undefined,
+    endTime: undefined,
+    endDate: undefined,
+    durationMinutes: undefined,
+    allDay: false,
+    ...values,
+    isValid: !!(values.date || values.time),
+  };
+}
+
+const CASES: [string, Expected][] = [
+  // Days relative to today
+  ["today", { date: "2026-03-11" }],
+  ["tomorrow", { date: "2026-03-12" }],
+  ["yesterday", { date: "2026-03-10" }],
+  ["the day after tomorrow", { date: "2026-03-13" }],
+  ["in 3 days", { date: "2026-03-14" }],
+  ["in two weeks", { date: "2026-03-25" }],
+  ["a month from now", { date: "2026-04-11" }],
+  ["next month", { date: "2026-04-11" }],
+  ["next year", { date: "2027-03-11" }],
+
+  // Absolute dates; without a year, the next time the day comes round
+  ["March 14", { date: "2026-03-14" }],
+  ["March 3rd", { date: "2027-03-03" }],
+  ["march the 20th", { date: "2026-03-20" }],
+  ["the 3rd of April 2027", { date: "2027-04-03" }],
+  ["3/14", { date: "2026-03-14" }],
+  ["3/14/27", { date: "2027-03-14" }],
+  ["2026-12-25", { date: "2026-12-25" }],
+  ["the 21st", { date: "2026-03-21" }],
+  ["the 5th", { date: "2026-04-05" }],
+  ["February 29", { date: "2028-02-29" }],
+  ["February 30", {}],
+
+  // Weekdays: bare is the coming one, "this" may be today, "next" is the week after
+  ["Friday", { date: "2026-03-13" }],
+  ["Wednesday", { date: "2026-03-18" }],
+  ["this Wednesday", { date: "2026-03-11" }],
+  ["coming Monday", { date: "2026-03-16" }],
+  ["next Friday", { date: "2026-03-20" }],
+  ["next Wednesday", { date: "2026-03-18" }],
+
+  // Clock times
+  ["tomorrow at 3pm", { date: "2026-03-12", time: "15:00" }],
+  ["at 3", { time: "15:00" }],
+  ["at 9", { time: "09:00" }],
+  ["at 8 tonight", { date: "2026-03-11", time: "20:00" }],
+  ["tomorrow morning at 8", { date: "2026-03-12", time: "08:00" }],
+  ["15:30", { time: "15:30" }],
+  ["07:30", { time: "07:30" }],
+  ["at 1500 hours", { time: "15:00" }],
+  ["3 o'clock", { time: "15:00" }],
+  ["12am", { time: "00:00" }],
+  ["12:15 pm", { time: "12:15" }],
+
+  // Times in words
+  ["half past three", { time: "15:30" }],
+  ["quarter to five", { time: "16:45" }],
+  ["twenty past six pm", { time: "18:20" }],
+  ["at seven thirty pm", { time: "19:30" }],
+  ["three thirty", { time: "15:30" }],
+  ["ten oh five am", { time: "10:05" }],
+  ["seven o'clock", { time: "19:00" }],
+  ["noon tomorrow", { date: "2026-03-12", time: "12:00" }],
+  ["midnight", { time: "00:00" }],
+
+  // Parts of the day
+  ["tomorrow morning", { date: "2026-03-12", time: "09:00" }],
+  ["first thing Friday", { date: "2026-03-13", time: "09:00" }],
+  ["after lunch", { time: "13:00" }],
+  ["end of day", { time: "17:00" }],
+  ["this evening", { date: "2026-03-11", time: "18:00" }],
+  ["tonight", { date: "2026-03-11", time: "19:00" }],
+
+  // Ranges and lengths
+  ["from 2 to 3:30", { time: "14:00", endTime: "15:30" }],
+  ["between 9am and 11", { time: "09:00", endTime: "11:00" }],
+  ["2-4pm", { time: "14:00", endTime: "16:00" }],
+  ["from three to four", { time: "15:00", endTime: "16:00" }],
+  ["all afternoon", { time: "12:00", endTime: "17:00" }],
+  ["tomorrow at 10am for 45 minutes", { date: "2026-03-12", time: "10:00", durationMinutes: 45 }],
+  ["Friday at 2 for an hour and a half", { date: "2026-03-13", time: "14:00", durationMinutes: 90 }],
+
+  // Whole days
+  ["from Monday to Friday", { date: "2026-03-16", endDate: "2026-03-20", allDay: true }],
+  ["this weekend", { date: "2026-03-14", endDate: "2026-03-15", allDay: true }],
+  ["next week", { date: "2026-03-16", endDate: "2026-03-22", allDay: true }],
+  ["all day Friday", { date: "2026-03-13", allDay: true }],
+
+  // Numbers that aren't times
+  ["lunch for 2 people", {}],
+  ["two thirty minute calls", {}],
+  ["2 to 3 people", {}],
+  ["team meeting", {}],
+];
+
+const SPANISH_CASES: [string, Expected][] = [
+  ["hoy", { date: "2026-03-11" }],
+  ["mañana", { date: "2026-03-12" }],
+  ["escuela mañana", { date: "2026-03-12" }],
+  ["pasado mañana", { date: "2026-03-13" }],
+  ["en tres días", { date: "2026-03-14" }],
+  ["el 14 de marzo", { date: "2026-03-14" }],
+  ["el 3 de abril de 2027", { date: "2027-04-03" }],
+  ["14/3", { date: "2026-03-14" }],
+  ["el viernes", { date: "2026-03-13" }],
+  ["el próximo lunes", { date: "2026-03-23" }],
+  ["mañana a las tres", { date: "2026-03-12", time: "15:00" }],
+  ["a las nueve de la mañana", { time: "09:00" }],
+  ["a las dos y media", { time: "14:30" }],
+  ["a las cinco menos cuarto", { time: "16:45" }],
+  ["a la una de la tarde", { time: "13:00" }],
+  ["a las 15:30", { time: "15:30" }],
+  ["mediodía", { time: "12:00" }],
+  ["mañana por la mañana", { date: "2026-03-12", time: "09:00" }],
+  ["esta noche", { date: "2026-03-11", time: "19:00" }],
+  ["de dos a cuatro", { time: "14:00", endTime: "16:00" }],
+  ["entre las 9 y las 11 de la mañana", { time: "09:00", endTime: "11:00" }],
+  ["mañana a las 3 durante una hora y media", { date: "2026-03-12", time: "15:00", durationMinutes: 90 }],
+  ["por 45 minutos", { durationMinutes: 45 }],
+  ["toda la tarde", { time: "12:00", endTime: "17:00" }],
+  ["este fin de semana", { date: "2026-03-14", endDate: "2026-03-15", allDay: true }],
+  ["todo el día el viernes", { date: "2026-03-13", allDay: true }],
+  ["cena para 2 personas", {}],
+];
+
+const GERMAN_CASES: [string, Expected][] = [
+  ["heute", { date: "2026-03-11" }],
+  ["morgen", { date: "2026-03-12" }],
+  ["Team morgen", { date: "2026-03-12" }],
+  ["übermorgen", { date: "2026-03-13" }],
+  ["in zwei Wochen", { date: "2026-03-25" }],
+  ["am 14. März", { date: "2026-03-14" }],
+  ["am 3. April 2027", { date: "2027-04-03" }],
+  ["14.3.", { date: "2026-03-14" }],
+  ["am Freitag", { date: "2026-03-13" }],
+  ["nächsten Montag", { date: "2026-03-23" }],
+  ["morgen um drei", { date: "2026-03-12", time: "15:00" }],
+  ["um 9 Uhr morgens", { time: "09:00" }],
+  ["um halb drei", { time: "14:30" }],
+  ["um viertel nach vier", { time: "16:15" }],
+  ["um 15:30 Uhr", { time: "15:30" }],
+  ["mittags", { time: "12:00" }],
+  ["morgen früh", { date: "2026-03-12", time: "09:00" }],
+  ["heute Abend", { date: "2026-03-11", time: "19:00" }],
+  ["von 2 bis 4 Uhr", { time: "14:00", endTime: "16:00" }],
+  ["zwischen 9 und 11 Uhr vormittags", { time: "09:00", endTime: "11:00" }],
+  ["morgen um 3 für eineinhalb Stunden", { date: "2026-03-12", time: "15:00", durationMinutes: 90 }],
+  ["für 45 Minuten", { durationMinutes: 45 }],
+  ["den ganzen Nachmittag", { time: "12:00", endTime: "17:00" }],
+  ["am Wochenende", { date: "2026-03-14", endDate: "2026-03-15", allDay: true }],
+  ["ganztägig am Freitag", { date: "2026-03-13", allDay: true }],
+  ["Mittagessen für 2 Personen", {}],
+];
+
+describe("parseNaturalLanguageDate", () => {
+  it.each(CASES)("%s", (input, values) => {
+    expect(read(input)).toEqual(expected(values));
+  });
+
+  it.each(SPANISH_CASES)("es: %s", (input, values) => {
+    expect(read(input, undefined, NOW, "es")).toEqual(expected(values));
+  });
+
+  it.each(GERMAN_CASES)("de: %s", (input, values) => {
+    expect(read(input, undefined, NOW, "de")).toEqual(expected(values));
+  });
+
+  it("reads dates and times in the given zone", () => {
+    // 22:00 on the 10th in Los Angeles
+    const now = new Date("2026-03-11T05:00:00Z");
+    expect(read("today at 9", "America/Los_Angeles", now)).toEqual(expected({ date: "2026-03-10", time: "09:00" }));
+    expect(read("tomorrow", "America/Los_Angeles", now)).toEqual(expected({ date: "2026-03-11" }));
+    expect(read("tomorrow", "Asia/Tokyo", now)).toEqual(expected({ date: "2026-03-12" }));
+  });
+
+  it("keeps the original text", () => {
+    expect(parseNaturalLanguageDate("Lunch Tomorrow", undefined, NOW).originalText).toBe("Lunch Tomorrow");
+  });
+});
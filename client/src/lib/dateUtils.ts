@@ -1,80 +1,539 @@
 import { format, parse, isValid, addDays, addWeeks, addMonths, addYears, startOfDay } from "date-fns";
+import { expandRRule } from "@shared/recurrence";
+import { fromZonedTime, toZonedTime } from "@shared/timezone";
+import { DEFAULT_LOCALE, type Locale } from "@shared/locale";
+import { getDateGrammar, LETTERS, type DateGrammar, type DateUnit, type PartOfDay } from "./dateGrammar";
 
 export interface ParsedDateTime {
   date?: Date;
   time?: Date;
+  endTime?: Date; // From ranges such as "from 2 to 3:30" or "all afternoon"
+  durationMinutes?: number; // From phrases such as "for 45 minutes"
+  endDate?: Date; // Last day of a multi-day span such as "from Monday to Friday"
+  allDay?: boolean;
   isValid: boolean;
   originalText: string;
 }
 
-export function parseNaturalLanguageDate(input: string): ParsedDateTime {
-  const lowercaseInput = input.toLowerCase();
+// Spans covered by "all morning" and friends, as [start hour, end hour]
+export const PARTS_OF_DAY: Record<PartOfDay, [number, number]> = {
+  morning: [9, 12],
+  afternoon: [12, 17],
+  evening: [17, 21],
+};
+
+// Stretches of days named in questions such as "what's on this week"
+export type NamedSpan = 'thisWeek' | 'nextWeek' | 'weekend';
+
+const DATE_UNITS: DateUnit[] = ['day', 'week', 'month', 'year'];
+
+// `pattern` where it stands as whole words
+function wordsRegex(pattern: string, flags?: string): RegExp {
+  return new RegExp(`(?:^|[^${LETTERS}])(?:${pattern})(?![${LETTERS}])`, flags);
+}
+
+// Whether `text` is all of `pattern`, such as which weekday a matched name is
+function isWhole(pattern: string, text: string): boolean {
+  return new RegExp(`^(?:${pattern})$`).test(text);
+}
+
+interface Template {
+  regex: RegExp;
+  slots: string[]; // Slot names in the order of their groups
+}
+
+// A grammar template with each {slot} captured as its pattern
+function template(source: string, slots: Record<string, string>): Template {
+  const names: string[] = [];
+  const pattern = source.replace(/\{([a-z]+)\}/g, (_, name: string) => {
+    names.push(name);
+    return `(${slots[name]})`;
+  });
+  return { regex: wordsRegex(pattern), slots: names };
+}
+
+// The first of `templates` found in the text, with what each slot matched
+function matchTemplate(templates: Template[], text: string): { text: string; slots: Record<string, string> } | undefined {
+  for (const { regex, slots } of templates) {
+    const match = text.match(regex);
+    if (match) {
+      const values: Record<string, string> = {};
+      slots.forEach((name, i) => {
+        values[name] = values[name] ?? match[i + 1];
+      });
+      return { text: match[0], slots: values };
+    }
+  }
+  return undefined;
+}
+
+// A grammar's patterns as regular expressions, built the first time its locale is parsed
+interface DatePatterns {
+  grammar: DateGrammar;
+  weekdays: RegExp[];
+  thisWeekday: RegExp[];
+  nextWeekday: RegExp[];
+  weekdayRange: Template[];
+  relativeDates: Template[];
+  nextPeriod: Template[];
+  monthDates: Template[];
+  numericDates: Template[];
+  dayOfMonth: Template[];
+  today: RegExp;
+  tomorrow: RegExp;
+  yesterday: RegExp;
+  dayAfterTomorrow: RegExp;
+  weekend: RegExp;
+  thisWeek: RegExp;
+  nextWeek: RegExp;
+  duration: RegExp; // "for 45 minutes"
+  bareDuration: RegExp; // "45 minutes", "an hour and a half", "30-minute"
+  timeRange: RegExp; // "from 2 to 3:30", "between 9am and 11", "2-4pm"
+  clockTimes: [RegExp, 'clock' | 'hour' | 'military'][];
+  clockContext: { am: RegExp; pm: RegExp };
+  noon: RegExp;
+  midnight: RegExp;
+  partOfDay: RegExp; // Groups in the order of PART_NAMES
+  wholePartOfDay: Template[];
+  allDay: RegExp;
+  dayparts: [RegExp, number][];
+}
+
+const PART_NAMES: (PartOfDay | 'tonight')[] = ['tonight', 'morning', 'afternoon', 'evening'];
+const compiledPatterns = new Map<Locale, DatePatterns>();
+
+function datePatterns(locale: Locale): DatePatterns {
+  const cached = compiledPatterns.get(locale);
+  if (cached) return cached;
+
+  const grammar = getDateGrammar(locale);
+  const count = `\\d+|${Object.keys(grammar.countWords).sort((a, b) => b.length - a.length).join('|')}`;
+  const weekday = grammar.weekdays.join('|');
+  const meridiem = `(${grammar.am}|${grammar.pm})`;
+  const oClock = `(?:\\s*(?:${grammar.oClock}))?`;
+  const at = `(?:(?:^|[^${LETTERS}])(?:${grammar.at})\\s+|@\\s*)`;
+  const article = grammar.range.article ? `(?:(?:${grammar.range.article})\\s+)?` : '';
+  const hour = `${article}(\\d{1,2})(?::(\\d{2}))?${oClock}\\s*${meridiem}?`;
+  const durationPhrase = `(${grammar.durations.halfHour}|${grammar.durations.hourAndAHalf}|(${count})[\\s-]*(${grammar.durations.hours}|${grammar.durations.minutes}))`;
+  const dateSlots = { month: grammar.months.join('|'), day: '\\d{1,2}', year: '(?:19|20)\\d{2}' };
+  const numericSlots = { month: '\\d{1,2}', day: '\\d{1,2}', year: '\\d{4}|\\d{2}' };
+  const partsOfDay = [grammar.tonight, grammar.partsOfDay.morning, grammar.partsOfDay.afternoon, grammar.partsOfDay.evening];
+
+  const patterns: DatePatterns = {
+    grammar,
+    weekdays: grammar.weekdays.map(day => wordsRegex(day)),
+    thisWeekday: grammar.weekdays.map(day => wordsRegex(grammar.thisWeekday.replace(/\{weekday\}/g, `(?:${day})`))),
+    nextWeekday: grammar.weekdays.map(day => wordsRegex(grammar.nextWeekday.replace(/\{weekday\}/g, `(?:${day})`))),
+    weekdayRange: [template(grammar.weekdayRange, { from: weekday, to: weekday })],
+    relativeDates: grammar.relativeDates.map(source => template(source, { count, unit: DATE_UNITS.map(unit => grammar.units[unit]).join('|') })),
+    nextPeriod: [template(grammar.nextPeriod, { unit: `${grammar.units.month}|${grammar.units.year}` })],
+    monthDates: grammar.monthDates.map(source => template(source, dateSlots)),
+    numericDates: grammar.numericDates.map(source => template(source, numericSlots)),
+    dayOfMonth: [template(grammar.dayOfMonth, dateSlots)],
+    today: wordsRegex(grammar.today),
+    tomorrow: wordsRegex(grammar.tomorrow),
+    yesterday: wordsRegex(grammar.yesterday),
+    dayAfterTomorrow: wordsRegex(grammar.dayAfterTomorrow),
+    weekend: wordsRegex(grammar.weekend),
+    thisWeek: wordsRegex(grammar.thisWeek),
+    nextWeek: wordsRegex(grammar.nextWeek),
+    duration: wordsRegex(`(?:${grammar.durations.for})\\s+${durationPhrase}`, 'i'),
+    bareDuration: wordsRegex(durationPhrase, 'i'),
+    timeRange: new RegExp(
+      `(?:^|[^${LETTERS}])(?:(${grammar.range.from})|(${grammar.range.between}))?\\s*${hour}\\s*(?:(${grammar.range.to})(?![${LETTERS}])|(${grammar.range.and})(?![${LETTERS}])|-|–)\\s*${hour}`
+    ),
+    clockTimes: [
+      [new RegExp(`(?:^|[^${LETTERS}])(\\d{1,2}):(\\d{2})${oClock}(?:\\s*${meridiem}(?![${LETTERS}]))?`), 'clock'],
+      [new RegExp(`(?:^|[^${LETTERS}])(\\d{1,2})()${oClock}\\s*${meridiem}(?![${LETTERS}])`), 'clock'],
+      [new RegExp(`(?:^|[^${LETTERS}])(\\d{1,2})\\s*(?:${grammar.oClock})(?![${LETTERS}])`), 'hour'],
+      [new RegExp(`(?:^|[^${LETTERS}])([01]\\d|2[0-3])([0-5]\\d)\\s*(?:${grammar.militaryHours})(?![${LETTERS}])`), 'military'],
+      [new RegExp(`${at}([01]\\d|2[0-3])([0-5]\\d)(?![${LETTERS}])`), 'military'],
+      [new RegExp(`${at}(\\d{1,2})(?![${LETTERS}])`), 'hour'],
+    ],
+    clockContext: { am: wordsRegex(grammar.clockContext.am), pm: wordsRegex(grammar.clockContext.pm) },
+    noon: wordsRegex(grammar.noon),
+    midnight: wordsRegex(grammar.midnight),
+    partOfDay: wordsRegex(partsOfDay.map(part => `(${part})`).join('|'), 'i'),
+    wholePartOfDay: [template(grammar.wholePartOfDay, { part: partsOfDay.slice(1).join('|') })],
+    allDay: wordsRegex(grammar.allDay),
+    dayparts: grammar.dayparts.map(([pattern, hours]) => [wordsRegex(pattern), hours]),
+  };
+  compiledPatterns.set(locale, patterns);
+  return patterns;
+}
+
+function to24Hour(hours: number, meridiem?: 'am' | 'pm'): number {
+  if (meridiem === 'pm' && hours !== 12) return hours + 12;
+  if (meridiem === 'am' && hours === 12) return 0;
+  return hours;
+}
+
+// Whether a matched am/pm word is am or pm
+function readMeridiem(grammar: DateGrammar, text: string | undefined): 'am' | 'pm' | undefined {
+  if (!text) return undefined;
+  return isWhole(grammar.pm, text.toLowerCase()) ? 'pm' : 'am';
+}
+
+function parseDurationMinutes(grammar: DateGrammar, match: RegExpMatchArray): number {
+  const phrase = match[1].toLowerCase();
+  if (isWhole(grammar.durations.halfHour, phrase)) return 30;
+  if (isWhole(grammar.durations.hourAndAHalf, phrase)) return 90;
+
+  const amount = grammar.countWords[match[2].toLowerCase()] ?? parseFloat(match[2]);
+  return Math.round(isWhole(grammar.durations.hours, match[3].toLowerCase()) ? amount * 60 : amount);
+}
+
+// Length mentioned anywhere in the text, with or without "for" ("find me an hour" is 60),
+// and the text without it
+export function extractSpokenDuration(input: string, locale: Locale = DEFAULT_LOCALE): { durationMinutes?: number; remaining: string } {
+  const patterns = datePatterns(locale);
+  const match = input.match(patterns.bareDuration);
+  return match
+    ? { durationMinutes: parseDurationMinutes(patterns.grammar, match), remaining: input.replace(match[0], ' ') }
+    : { remaining: input };
+}
+
+// The first part of the day named in the text, "tonight" being this evening
+export function namePartOfDay(input: string, locale: Locale = DEFAULT_LOCALE): PartOfDay | 'tonight' | undefined {
+  const match = input.match(datePatterns(locale).partOfDay);
+  return match ? PART_NAMES[match.slice(1).findIndex(group => group !== undefined)] : undefined;
+}
+
+// Hours covered by the first morning, afternoon or evening named in the text
+export function parsePartOfDay(input: string, locale: Locale = DEFAULT_LOCALE): [number, number] | undefined {
+  const part = namePartOfDay(input, locale);
+  return part && part !== 'tonight' ? PARTS_OF_DAY[part] : undefined;
+}
+
+// "this week", "next week" or the weekend, when the text names one
+export function parseNamedSpan(input: string, locale: Locale = DEFAULT_LOCALE): NamedSpan | undefined {
+  const patterns = datePatterns(locale);
+  const text = input.toLowerCase();
+  if (patterns.thisWeek.test(text)) return 'thisWeek';
+  if (patterns.nextWeek.test(text)) return 'nextWeek';
+  return patterns.weekend.test(text) ? 'weekend' : undefined;
+}
+
+/**
+ * Start and end hours of a spoken range. A missing am/pm is taken from the other end;
+ * with neither given, hours 1-7 are read as afternoon ("from 2 to 3:30").
+ */
+function parseTimeRange(grammar: DateGrammar, match: RegExpMatchArray): { start: [number, number]; end: [number, number] } | undefined {
+  const [, from, between, startHours, startMinutes, startMeridiem, , and, endHours, endMinutes, endMeridiem] = match;
+
+  // Bare "2 to 3" is too ambiguous ("2 to 3 people") without "from", a colon or am/pm
+  if (!from && !between && !startMeridiem && !endMeridiem && !startMinutes && !endMinutes) return undefined;
+  if (and && !between) return undefined;
+
+  const startRaw = parseInt(startHours);
+  const endRaw = parseInt(endHours);
+  if (startRaw > 23 || endRaw > 23) return undefined;
+
+  const startMer = readMeridiem(grammar, startMeridiem);
+  const endMer = readMeridiem(grammar, endMeridiem);
+  let start: number;
+  let end: number;
+
+  if (startMer || endMer) {
+    end = endMer ? to24Hour(endRaw, endMer) : to24Hour(endRaw, startMer);
+    start = to24Hour(startRaw, startMer ?? endMer);
+    if (!startMer && start > end) {
+      start = to24Hour(startRaw, endMer === 'pm' ? 'am' : 'pm');
+    }
+    if (!endMer && end <= start && end + 12 < 24) {
+      end += 12;
+    }
+  } else {
+    start = startRaw >= 1 && startRaw <= 7 ? startRaw + 12 : startRaw;
+    end = endRaw >= 1 && endRaw <= 7 ? endRaw + 12 : endRaw;
+  }
+
+  const startMins = parseInt(startMinutes || '0');
+  const endMins = parseInt(endMinutes || '0');
+  if (end * 60 + endMins <= start * 60 + startMins) return undefined;
+
+  return { start: [start, startMins], end: [end, endMins] };
+}
+
+// First date after `from` (or on it, with includeSameDay) falling on the weekday
+function nextWeekday(from: Date, weekday: number, includeSameDay: boolean): Date {
+  let daysToAdd = (weekday - from.getDay() + 7) % 7;
+  if (daysToAdd === 0 && !includeSameDay) daysToAdd = 7;
+  return addDays(from, daysToAdd);
+}
+
+// Wall-clock time in the zone at `now`, or in the browser's zone when none is given
+function zonedNow(timeZone?: string, now: Date = new Date()): Date {
+  return timeZone ? toZonedTime(now, timeZone) : new Date(now);
+}
+
+// The day, or undefined when the month doesn't have it ("February 30"); months past 11 roll into later years
+function calendarDay(year: number, month: number, day: number): Date | undefined {
+  const date = new Date(year, month, day);
+  return day >= 1 && date.getDate() === day ? date : undefined;
+}
+
+// The day in the spoken year, or its next occurrence from today when no year was said
+function upcomingDay(month: number, day: number, today: Date, year?: string): Date | undefined {
+  if (year) {
+    return calendarDay(year.length === 2 ? 2000 + parseInt(year) : parseInt(year), month, day);
+  }
+  // Up to four years ahead, for February 29
+  for (let offset = 0; offset <= 4; offset++) {
+    const date = calendarDay(today.getFullYear() + offset, month, day);
+    if (date && date >= today) return date;
+  }
+  return undefined;
+}
+
+// "in 3 days", "two weeks from now", "next month", "the day after tomorrow"
+function parseRelativeDate(patterns: DatePatterns, text: string, today: Date): { date: Date; text: string } | undefined {
+  const { grammar } = patterns;
+  const dayAfterTomorrow = text.match(patterns.dayAfterTomorrow);
+  if (dayAfterTomorrow) return { date: addDays(today, 2), text: dayAfterTomorrow[0] };
+
+  const offset = matchTemplate(patterns.relativeDates, text);
+  if (offset) {
+    const count = grammar.countWords[offset.slots.count] ?? parseInt(offset.slots.count);
+    const unit = DATE_UNITS.find(unit => isWhole(grammar.units[unit], offset.slots.unit))!;
+    const shift = { day: addDays, week: addWeeks, month: addMonths, year: addYears }[unit];
+    return { date: shift(today, count), text: offset.text };
+  }
+
+  const next = matchTemplate(patterns.nextPeriod, text);
+  if (next) {
+    return { date: isWhole(grammar.units.month, next.slots.unit) ? addMonths(today, 1) : addYears(today, 1), text: next.text };
+  }
+
+  return undefined;
+}
+
+// "March 3rd", "the 3rd of March 2027", "3/14", "2027-03-14", "the 21st"
+function parseAbsoluteDate(patterns: DatePatterns, text: string, today: Date): { date: Date; text: string } | undefined {
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    const date = calendarDay(parseInt(iso[1]), parseInt(iso[2]) - 1, parseInt(iso[3]));
+    if (date) return { date, text: iso[0] };
+  }
+
+  const named = matchTemplate(patterns.monthDates, text);
+  if (named) {
+    const month = patterns.grammar.months.findIndex(pattern => isWhole(pattern, named.slots.month));
+    const date = upcomingDay(month, parseInt(named.slots.day), today, named.slots.year);
+    if (date) return { date, text: named.text };
+  }
+
+  const numeric = matchTemplate(patterns.numericDates, text);
+  if (numeric) {
+    const date = upcomingDay(parseInt(numeric.slots.month) - 1, parseInt(numeric.slots.day), today, numeric.slots.year);
+    if (date) return { date, text: numeric.text };
+  }
+
+  // This month's, or the next month that has it once that has passed
+  const dayOfMonth = matchTemplate(patterns.dayOfMonth, text);
+  if (dayOfMonth) {
+    const day = parseInt(dayOfMonth.slots.day);
+    for (let offset = 0; offset < 12; offset++) {
+      const date = calendarDay(today.getFullYear(), today.getMonth() + offset, day);
+      if (date && date >= today) return { date, text: dayOfMonth.text };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The first clock time in the text as [hours, minutes]: "3:30 pm", "15:30", "3pm", "3 o'clock",
+ * "1500 hours" or "at 3". Other numbers ("2 people") aren't times. Without am/pm, a part of the
+ * day said alongside decides ("at 8 tonight"); otherwise 1-7 is afternoon and "07:30" morning.
+ */
+function parseClockTime(patterns: DatePatterns, text: string, context: string): [number, number] | undefined {
+  const resolve = (hoursText: string, minutesText: string | undefined, meridiem: 'am' | 'pm' | undefined): [number, number] | undefined => {
+    const hours = parseInt(hoursText);
+    const minutes = parseInt(minutesText || '0');
+    if (minutes > 59 || hours > 23 || (meridiem && (hours < 1 || hours > 12))) return undefined;
+    if (meridiem) return [to24Hour(hours, meridiem), minutes];
+    if (hours > 12 || hoursText.startsWith('0')) return [hours, minutes];
+
+    if (patterns.clockContext.am.test(context)) return [to24Hour(hours, 'am'), minutes];
+    if (patterns.clockContext.pm.test(context)) return [to24Hour(hours, 'pm'), minutes];
+    return [hours >= 1 && hours <= 7 ? hours + 12 : hours, minutes];
+  };
+
+  for (const [pattern, kind] of patterns.clockTimes) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const time: [number, number] | undefined = kind === 'military'
+      ? [parseInt(match[1]), parseInt(match[2])]
+      : kind === 'clock' ? resolve(match[1], match[2], readMeridiem(patterns.grammar, match[3])) : resolve(match[1], undefined, undefined);
+    if (time) return time;
+  }
+  return undefined;
+}
+
+/**
+ * Parsed dates and times are wall-clock values in `timeZone`: their local fields hold the
+ * zone's calendar date and time. Turn them into an instant with combineDateAndTime. Relative
+ * phrases are read against `now`, in the words of `locale` (dateGrammar.ts).
+ */
+export function parseNaturalLanguageDate(input: string, timeZone?: string, now: Date = new Date(), locale: Locale = DEFAULT_LOCALE): ParsedDateTime {
+  const patterns = datePatterns(locale);
+  const lowercaseInput = input.toLowerCase().replace(/\s+/g, ' ');
   let date: Date | undefined;
   let time: Date | undefined;
 
+  // Date phrases are taken out before reading times, so "March 3rd" or "in 2 days" isn't 3:00 or 2:00
+  const dateText: string[] = [];
+  const today = startOfDay(zonedNow(timeZone, now));
+
+  const named = parseRelativeDate(patterns, lowercaseInput, today) ?? parseAbsoluteDate(patterns, lowercaseInput, today);
+  if (named) {
+    date = named.date;
+    dateText.push(named.text);
+  }
+
   // Today, tomorrow, yesterday
-  const today = startOfDay(new Date());
-  
-  if (lowercaseInput.includes('today')) {
+  if (date) {
+    // Already named
+  } else if (patterns.today.test(lowercaseInput)) {
     date = today;
-  } else if (lowercaseInput.includes('tomorrow')) {
+  } else if (patterns.tomorrow.test(lowercaseInput)) {
     date = addDays(today, 1);
-  } else if (lowercaseInput.includes('yesterday')) {
+  } else if (patterns.yesterday.test(lowercaseInput)) {
     date = addDays(today, -1);
   }
 
   // Day names (next Monday, Tuesday, etc.)
-  const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  const dayMatch = dayNames.find(day => lowercaseInput.includes(day));
+  const dayMatch = patterns.weekdays.findIndex(day => day.test(lowercaseInput));
+
+  // Spans of whole days: "from Monday to Friday", "the whole weekend", "next week"
+  let endDate: Date | undefined;
+  const dayRange = matchTemplate(patterns.weekdayRange, lowercaseInput);
+  const weekdayOf = (name: string) => patterns.grammar.weekdays.findIndex(day => isWhole(day, name));
+
+  if (dayRange && !date) {
+    date = nextWeekday(today, weekdayOf(dayRange.slots.from), false);
+    endDate = nextWeekday(date, weekdayOf(dayRange.slots.to), true);
+  } else if (patterns.weekend.test(lowercaseInput) && !date) {
+    // Saturday and Sunday; on a Sunday, just what's left of it
+    date = today.getDay() === 0 ? today : nextWeekday(today, 6, true);
+    endDate = nextWeekday(date, 0, true);
+  } else if (patterns.nextWeek.test(lowercaseInput) && !date && dayMatch < 0) {
+    date = nextWeekday(today, 1, false);
+    endDate = addDays(date, 6);
+  }
   
-  if (dayMatch && !date) {
-    const targetDayIndex = dayNames.indexOf(dayMatch);
-    const currentDayIndex = today.getDay();
-    let daysToAdd = targetDayIndex - currentDayIndex;
-    
-    if (daysToAdd <= 0) {
-      daysToAdd += 7; // Next occurrence
+  if (dayMatch >= 0 && !date) {
+    // "Tuesday" is the coming one, never today; "this Tuesday" may be today, and
+    // "next Tuesday" is the one in the week after that
+    if (patterns.nextWeekday[dayMatch].test(lowercaseInput)) {
+      date = addDays(nextWeekday(today, dayMatch, true), 7);
+    } else {
+      date = nextWeekday(today, dayMatch, patterns.thisWeekday[dayMatch].test(lowercaseInput));
     }
-    
-    date = addDays(today, daysToAdd);
+  }
+
+  const atTime = (hours: number, minutes: number) => {
+    const value = zonedNow(timeZone, now);
+    value.setHours(hours, minutes, 0, 0);
+    return value;
+  };
+
+  // Durations and ranges are taken out first so their numbers aren't read as the start time
+  let remaining = dateText.reduce((text, phrase) => text.replace(phrase, ' '), lowercaseInput);
+  let endTime: Date | undefined;
+  let durationMinutes: number | undefined;
+
+  const durationMatch = remaining.match(patterns.duration);
+  if (durationMatch) {
+    durationMinutes = parseDurationMinutes(patterns.grammar, durationMatch);
+    remaining = remaining.replace(durationMatch[0], ' ');
+  }
+
+  remaining = patterns.grammar.timesToDigits(remaining);
+
+  const rangeMatch = remaining.match(patterns.timeRange);
+  const range = rangeMatch ? parseTimeRange(patterns.grammar, rangeMatch) : undefined;
+  if (rangeMatch && range) {
+    time = atTime(...range.start);
+    endTime = atTime(...range.end);
+    remaining = remaining.replace(rangeMatch[0], ' ');
+  }
+
+  const wholePart = matchTemplate(patterns.wholePartOfDay, lowercaseInput);
+  const wholePartName = wholePart ? namePartOfDay(wholePart.slots.part, locale) : undefined;
+  if (wholePartName && wholePartName !== 'tonight' && !time) {
+    const [startHour, endHour] = PARTS_OF_DAY[wholePartName];
+    time = atTime(startHour, 0);
+    endTime = atTime(endHour, 0);
   }
 
   // Time parsing
-  const timeRegex = /(\d{1,2}):?(\d{2})?\s*(am|pm|a\.m\.|p\.m\.)?/gi;
-  const timeMatch = timeRegex.exec(input);
-  
-  if (timeMatch) {
-    let hours = parseInt(timeMatch[1]);
-    const minutes = parseInt(timeMatch[2] || '0');
-    const meridiem = timeMatch[3]?.toLowerCase();
-    
-    if (meridiem && (meridiem.includes('pm') || meridiem.includes('p.m.')) && hours !== 12) {
-      hours += 12;
-    } else if (meridiem && (meridiem.includes('am') || meridiem.includes('a.m.')) && hours === 12) {
-      hours = 0;
-    }
-    
-    time = new Date();
-    time.setHours(hours, minutes, 0, 0);
+  const clockTime = time ? undefined : parseClockTime(patterns, remaining, lowercaseInput);
+  if (clockTime) {
+    time = atTime(...clockTime);
   }
 
   // Common time phrases
-  if (lowercaseInput.includes('noon') || lowercaseInput.includes('12pm')) {
-    time = new Date();
-    time.setHours(12, 0, 0, 0);
-  } else if (lowercaseInput.includes('midnight') || lowercaseInput.includes('12am')) {
-    time = new Date();
-    time.setHours(0, 0, 0, 0);
+  if (!endTime && patterns.noon.test(lowercaseInput)) {
+    time = atTime(12, 0);
+  } else if (!endTime && patterns.midnight.test(lowercaseInput)) {
+    time = atTime(0, 0);
+  }
+
+  // "tomorrow morning", "after lunch", "end of day"
+  const daypart = time ? undefined : patterns.dayparts.find(([pattern]) => pattern.test(lowercaseInput));
+  if (daypart) {
+    time = atTime(daypart[1], 0);
   }
 
+  // Spans of days without a time, or anything said to take "all day", cover whole days
+  const allDay = patterns.allDay.test(lowercaseInput) || (!!endDate && !time);
+
   return {
     date,
-    time,
+    time: allDay ? undefined : time,
+    endTime: allDay ? undefined : endTime,
+    durationMinutes: allDay ? undefined : durationMinutes,
+    endDate,
+    allDay,
     isValid: !!(date || time),
     originalText: input
   };
 }
 
+// The instant for a parsed date and time; missing parts default to today and the current time
+export function combineDateAndTime(date?: Date, time?: Date, timeZone?: string): Date {
+  const combined = date ? new Date(date) : zonedNow(timeZone);
+  if (time) {
+    combined.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  }
+  return timeZone ? fromZonedTime(combined, timeZone) : combined;
+}
+
+// End of an event starting at `startDate`, from a parsed range or duration
+export function getParsedEndDate(parsed: ParsedDateTime, startDate: Date, timeZone?: string): Date | null {
+  if (parsed.endTime) {
+    const startDay = timeZone ? toZonedTime(startDate, timeZone) : startDate;
+    const endDate = combineDateAndTime(startOfDay(startDay), parsed.endTime, timeZone);
+    return endDate > startDate ? endDate : null;
+  }
+  if (parsed.durationMinutes) {
+    return new Date(startDate.getTime() + parsed.durationMinutes * 60 * 1000);
+  }
+  return null;
+}
+
+// Midnight-to-midnight bounds of an all-day event over the parsed day or span of days
+export function getParsedAllDayRange(parsed: ParsedDateTime, timeZone?: string): { startDate: Date; endDate: Date } {
+  const firstDay = startOfDay(parsed.date ?? zonedNow(timeZone));
+  const dayAfterLast = addDays(startOfDay(parsed.endDate ?? firstDay), 1);
+  return {
+    startDate: timeZone ? fromZonedTime(firstDay, timeZone) : firstDay,
+    endDate: timeZone ? fromZonedTime(dayAfterLast, timeZone) : dayAfterLast,
+  };
+}
+
 export function createDateTimeFromParts(dateStr?: string, timeStr?: string): Date {
   const baseDate = dateStr ? parse(dateStr, 'yyyy-MM-dd', new Date()) : new Date();
   
@@ -86,33 +545,16 @@ export function createDateTimeFromParts(dateStr?: string, timeStr?: string): Dat
   return baseDate;
 }
 
-export function getRecurringDates(startDate: Date, pattern: string, count: number = 10): Date[] {
-  const dates: Date[] = [startDate];
-  
-  for (let i = 1; i < count; i++) {
-    let nextDate: Date;
-    
-    switch (pattern.toLowerCase()) {
-      case 'daily':
-        nextDate = addDays(startDate, i);
-        break;
-      case 'weekly':
-        nextDate = addWeeks(startDate, i);
-        break;
-      case 'monthly':
-        nextDate = addMonths(startDate, i);
-        break;
-      case 'yearly':
-        nextDate = addYears(startDate, i);
-        break;
-      default:
-        nextDate = addWeeks(startDate, i); // Default to weekly
-    }
-    
-    dates.push(nextDate);
-  }
-  
-  return dates;
+// IANA zones offered in timezone pickers, always including the ones already in use
+export function getTimeZoneOptions(...current: (string | null | undefined)[]): string[] {
+  const supported = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : ['UTC'];
+  const zones = new Set([...supported, ...current.filter((zone): zone is string => !!zone)]);
+  return Array.from(zones).sort();
+}
+
+export function getRecurringDates(startDate: Date, rule: string, count: number = 10, timeZone?: string): Date[] {
+  // Look up to ten years ahead; the count limit stops expansion long before that for most rules
+  return expandRRule(rule, startDate, startDate, addYears(startDate, 10), { limit: count, timeZone });
 }
 
 export function formatRelativeTime(date: Date): string {
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { findWakePhrase, getVoiceGrammar } from "./voiceGrammar";
+
+describe("toCanonical", () => {
+  const german = getVoiceGrammar("de");
+  const spanish = getVoiceGrammar("es");
+
+  it("reads the command verb only where it opens the transcript", () => {
+    expect(german.toCanonical("Plane Besprechung mit Lege Team morgen")).toBe("schedule Besprechung mit Lege Team morgen");
+    expect(spanish.toCanonical("Programa cena con Pon mañana")).toBe("schedule cena con Pon mañana");
+    expect(german.toCanonical("Bitte lösche das Treffen mit Plane")).toBe("delete Treffen mit Plane");
+  });
+
+  it("leaves dates as spoken for the date grammar", () => {
+    expect(german.toCanonical("Plane Drei Könige Treffen morgen um drei")).toBe("schedule Drei Könige Treffen morgen um drei");
+    expect(spanish.toCanonical("Programa Cinco Sentidos el viernes a las cinco")).toBe("schedule Cinco Sentidos el viernes a las cinco");
+    expect(german.toCanonical("Was habe ich morgen")).toBe("what do i have morgen");
+    expect(spanish.toCanonical("Búscame un hueco mañana por la tarde")).toBe("find free time mañana por la tarde");
+  });
+
+  it("reads repeats after the title", () => {
+    expect(spanish.toCanonical("Programa Tres Veces ensayo cada dos semanas")).toBe("schedule Tres Veces ensayo every 2 weeks");
+    expect(german.toCanonical("Plane Yoga jeden Montag um 7")).toBe("schedule Yoga every monday um 7");
+  });
+
+  it("marks what an edit changes to", () => {
+    expect(german.toCanonical("Verschiebe das Meeting auf Freitag um 3")).toBe("change Meeting to Freitag um 3");
+    expect(spanish.toCanonical("Cambia la reunión a comida")).toBe("change reunión to comida");
+    expect(spanish.toCanonical("Cambia la reunión mañana a las cinco")).toBe("change reunión mañana a las cinco");
+  });
+
+  it("reads replies to the preview card", () => {
+    expect(spanish.toCanonical("Cambia la hora a las cuatro")).toBe("change the time to cuatro");
+  });
+
+  it("ends a title where its date or repeat begins", () => {
+    const title = (text: string, titleEnd: RegExp) => text.slice(0, text.search(titleEnd)).trim();
+    expect(title("Besprechung mit Lege Team morgen", german.titleEnd)).toBe("Besprechung mit Lege Team");
+    expect(title("cena con Pon el viernes", spanish.titleEnd)).toBe("cena con Pon");
+    expect(title("Tres Veces ensayo every 2 weeks", spanish.titleEnd)).toBe("Tres Veces ensayo");
+  });
+});
+
+describe("findWakePhrase", () => {
+  it("hears the English phrase in every language", () => {
+    expect(findWakePhrase("hey calendar, was habe ich morgen", "de")).toBe("was habe ich morgen");
+    expect(findWakePhrase("Hallo Kalender", "de")).toBe("");
+    expect(findWakePhrase("was habe ich morgen", "de")).toBeNull();
+  });
+});
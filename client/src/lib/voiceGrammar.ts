@@ -0,0 +1,250 @@
+import { DEFAULT_LOCALE, type Locale } from "@shared/locale";
+import { getDateGrammar, LETTERS } from "./dateGrammar";
+
+/**
+ * How commands are spoken in one language. The command parser understands English, so a
+ * grammar rewrites a transcript's command words and repeats into the English phrases they
+ * would be, leaving everything else (titles, names) as spoken. Dates, times and lengths stay
+ * in the spoken language; parseNaturalLanguageDate reads them with the locale's date grammar.
+ * The verb is only read at the start, and repeats only after the title.
+ */
+export interface VoiceGrammar {
+  locale: Locale;
+  wakePhrases: string[]; // Patterns that start a hands-free command, such as "hey calendar"
+  titleEnd: RegExp; // Where a spoken title ends and its date, time, length or repeat begins
+  toCanonical(transcript: string): string;
+}
+
+type Replacement = string | ((...groups: string[]) => string);
+
+/**
+ * Rewrite `pattern` where it stands as whole words. In a string replacement the pattern's
+ * own groups are $2 onwards; a function replacement gets them as its arguments.
+ */
+function words(pattern: string, replacement: Replacement): (text: string) => string {
+  const regex = new RegExp(`(^|[^${LETTERS}])(?:${pattern})(?![${LETTERS}])`, 'gi');
+  return text => text.replace(regex, (match: string, prefix: string, ...rest: unknown[]) => {
+    const groups = rest.slice(0, -2).map(group => (group as string | undefined) ?? '');
+    const replaced = typeof replacement === 'string'
+      ? replacement.replace(/\$(\d)/g, (_, n: string) => groups[parseInt(n) - 2] ?? '')
+      : replacement(...groups);
+    return prefix + replaced;
+  });
+}
+
+function applyRules(text: string, rules: ((text: string) => string)[]): string {
+  return rules.reduce((result, rule) => rule(result), text).replace(/\s+/g, ' ').trim();
+}
+
+// Where `pattern` first stands as whole words
+function phrase(pattern: string): RegExp {
+  return new RegExp(`(?:^|[^${LETTERS}])(?:${pattern})(?![${LETTERS}])`, 'i');
+}
+
+// A command that names an event; "change the time to" answers the preview card
+const COMMAND_REGEX = /^(?:schedule|change(?! the time to)|delete|cancel)\b/i;
+
+/**
+ * Rewrite a transcript with `leadRules` (replies, queries and command verbs), then `repeatRules`.
+ * A command's title runs from the verb to `titleEnd` and keeps its words as spoken
+ * ("Tres Veces" isn't "3 times"); repeat rules read only what follows it.
+ */
+function rewrite(transcript: string, leadRules: ((text: string) => string)[], titleEnd: RegExp, repeatRules: ((text: string) => string)[]): string {
+  const text = applyRules(transcript, leadRules);
+  const verb = text.match(COMMAND_REGEX);
+  if (!verb) {
+    return applyRules(text, repeatRules);
+  }
+  const stop = text.slice(verb[0].length).search(titleEnd);
+  if (stop < 0) {
+    return text;
+  }
+  const split = verb[0].length + stop;
+  return `${text.slice(0, split)} ${applyRules(text.slice(split), repeatRules)}`.trim();
+}
+
+const ENGLISH_WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Repeats as the other grammars rewrite them, which end a title as well
+const ENGLISH_REPEATS = 'every|daily|weekly|monthly|yearly|\\d+ times|(?:first|second|third|fourth|last) (?:monday|tuesday|wednesday|thursday|friday|saturday|sunday) of every month';
+
+// A spoken count ("2", "dos", "zwei") as digits
+function countPattern(locale: Locale): [string, (count: string) => string] {
+  const { countWords } = getDateGrammar(locale);
+  const pattern = ['\\d+', ...Object.keys(countWords).sort((a, b) => b.length - a.length)].join('|');
+  return [pattern, count => String(countWords[count.toLowerCase()] ?? count)];
+}
+
+const englishGrammar: VoiceGrammar = {
+  locale: 'en',
+  wakePhrases: ['(?:hey|hi|okay|ok),? calend[ae]r'],
+  titleEnd: /\b(at|on (?=(?:the |this |next )?(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday|weekdays|weekends|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? \d|\d))|for|from|between|all (?:morning|afternoon|evening|day|weekend)|(?:this |next |the )?(?:whole |entire )?weekend|next (?:week|month|year)|(?:this|next|coming) (?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)|this (?:morning|afternoon|evening)|tonight|after lunch|end of (?:the )?day|(?:the )?day after tomorrow|in (?:\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve) (?:days?|weeks?|months?|years?)|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? \d{1,2}(?:st|nd|rd|th)?|the \d{1,2}(?:st|nd|rd|th)|\d{1,2}\/\d{1,2}|\d{1,2}(?::\d{2})?\s*[-–]|every|each|(?:first|second|third|fourth|last) (?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)|daily|weekly|monthly|yearly|tomorrow|today|monday|tuesday|wednesday|thursday|friday|saturday|sunday|\d{1,2}:?\d{0,2}\s*(am|pm|a\.m\.|p\.m\.)|noon|midnight)\b/i,
+  toCanonical: transcript => transcript,
+};
+
+const SPANISH_WEEKDAYS = ['lunes', 'martes', 'mi[eé]rcoles', 'jueves', 'viernes', 's[aá]bado', 'domingo'];
+const SPANISH_MONTHS = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre|setiembre', 'octubre', 'noviembre', 'diciembre'];
+const SPANISH_UNITS: [string, string][] = [['d[ií]as?', 'days'], ['semanas?', 'weeks'], ['mes(?:es)?', 'months'], ['a[ñn]os?', 'years']];
+const SPANISH_HOURS = '\\d|una|dos|tres|cuatro|cinco|seis|siete|ocho|nueve|diez|once|doce';
+
+// Where a title ends and its date, time, length or repeat begins
+const SPANISH_TITLE_END = [
+  'hoy', 'ayer', '(?:pasado )?ma[ñn]ana', 'mediod[ií]a', 'medianoche',
+  `(?:(?:el|los|este|cada|todos los) )?(?:(?:pr[oó]ximo|primer|segundo|tercer|cuarto|[uú]ltimo) )?(?:${SPANISH_WEEKDAYS.join('|')})`,
+  'est[ea] (?:semana|mes|a[ñn]o|fin de semana|ma[ñn]ana|tarde|noche)', '(?:el )?fin de semana',
+  '(?:la|el) (?:pr[oó]xim[oa]|semana que viene|mes que viene)', 'el (?:d[ií]a )?\\d',
+  `\\d{1,2} de (?:${SPANISH_MONTHS.join('|')})`, `(?:en|dentro de) (?:\\d+|un|una|${SPANISH_HOURS})`,
+  'cada', 'tod[oa]s l[oa]s', 'diariamente|semanalmente|mensualmente|anualmente|a diario', 'd[ií]as laborables|entre semana',
+  `a las? (?:${SPANISH_HOURS})`, `(?:de|desde|entre) (?:las? )?(?:${SPANISH_HOURS})`, '\\d{1,2}:\\d{2}',
+  'por la (?:ma[ñn]ana|tarde|noche)', 'tod[oa] (?:el d[ií]a|la ma[ñn]ana|la tarde|la noche)',
+  '(?:durante|por) (?:\\d|una|media)', '(?:\\d+|una) (?:horas?|minutos?)', 'media hora',
+].join('|');
+
+const spanishLeadRules = [
+  // Replies to the preview card
+  words('^(?:s[ií]|vale|claro|de acuerdo|confirm(?:a|ar|o)|adelante|correcto|hazlo)', 'yes'),
+  words('^(?:ol?v[ií]dalo|d[eé]jalo|para)', 'no'),
+  words('(?:el|la) (primer|primera|segund[oa]|tercer[oa]?|cuart[oa]|quint[oa]|otr[oa])\\s*$', (which) =>
+    `the ${({ primer: 'first', primera: 'first', segundo: 'second', segunda: 'second', tercer: 'third', tercero: 'third', tercera: 'third', cuarto: 'fourth', cuarta: 'fourth', quinto: 'fifth', quinta: 'fifth' } as Record<string, string>)[which.toLowerCase()] ?? 'other'} one`),
+  words('ll[aá]malo|ll[aá]mala|ponle de (?:nombre|t[ií]tulo)', 'call it'),
+  words('(?:cambia|pon) la hora a(?: las?)?', 'change the time to'),
+  words('(?:c[aá]mbialo|c[aá]mbiala|mu[eé]velo|mu[eé]vela|p[aá]salo|p[aá]sala) (?:a|al|para)', 'move it to'),
+
+  words('deshacer|deshaz(?:lo)?|anula eso', 'undo'),
+  words('rehacer|rehaz(?:lo)?', 'redo'),
+  words('cuando (?:estoy|estamos) libres?|cu[aá]ndo (?:estoy|estamos) libres?', 'when am i free'),
+  words('^(?:por favor,? )?(?:b[uú]scame|busca|buscar|encu[eé]ntrame|encuentra)', 'find'),
+  words('^find (?:(?:un|una|algo de) )?(?:huecos?|tiempo libre)', 'find free time'),
+  words('(?:qu[eé]) tengo', 'what do i have'),
+  words('(?:qu[eé]) hay', "what's on"),
+  words('(?:estoy|estar[eé]) ocupad[oa]', 'am i busy'),
+
+  // Commands where they open the transcript, with the article that follows them
+  words('^(?:por favor,? )?(?:crea|crear|cr[eé]ame|a[ñn]ade|a[ñn]adir|agrega|agregar|agenda|agendar|programa|programar|reserva|reservar|apunta|apuntar|pon|ponme)(?: (?:un|una|el|la|mi))?', 'schedule'),
+  words('^(?:por favor,? )?(?:cambia|cambiar|mueve|mover|edita|editar|modifica|modificar|actualiza|actualizar|reprograma|reprogramar)(?: (?:el|la|los|las|mi|mis))?', 'change'),
+  words('^(?:por favor,? )?(?:borra|borrar|b[oó]rrame|elimina|eliminar|quita|quitar)(?: (?:el|la|los|las|mi|mis))?', 'delete'),
+  words('^(?:por favor,? )?(?:cancela|cancelar|canc[eé]lame)(?: (?:el|la|los|las|mi|mis))?', 'cancel'),
+];
+
+const [SPANISH_COUNT, spanishCount] = countPattern('es');
+
+const spanishRepeatRules = [
+  words('todos los d[ií]as|cada d[ií]a|diariamente|a diario', 'every day'),
+  words('d[ií]as laborables|entre semana', 'every weekday'),
+  words('cada semana|todas las semanas|semanalmente', 'weekly'),
+  words('cada mes|todos los meses|mensualmente', 'monthly'),
+  words('cada a[ñn]o|todos los a[ñn]os|anualmente', 'yearly'),
+  ...SPANISH_UNITS.map(([unit, english]) => words(`cada (${SPANISH_COUNT}) ${unit}`, (count) => `every ${spanishCount(count)} ${english}`)),
+  words(`(${SPANISH_COUNT}) veces`, (count) => `${spanishCount(count)} times`),
+  ...SPANISH_WEEKDAYS.map((day, i) => words(`(?:todos los|cada) ${day}`, `every ${ENGLISH_WEEKDAYS[i]}`)),
+  ...SPANISH_WEEKDAYS.map((day, i) => words(`(?:el )?(primer|segundo|tercer|cuarto|[uú]ltimo) ${day} de (?:cada|todos los) mes(?:es)?`, (ordinal) =>
+    `${({ primer: 'first', segundo: 'second', tercer: 'third', cuarto: 'fourth' } as Record<string, string>)[ordinal.toLowerCase()] ?? 'last'} ${ENGLISH_WEEKDAYS[i]} of every month`)),
+];
+
+const SPANISH_EDIT_TO = new RegExp(`\\s(?:a|al|por)\\s(?!las? (?:${SPANISH_HOURS}|ma[ñn]ana|tarde|noche)(?![${LETTERS}]))`, 'i');
+
+const spanishGrammar: VoiceGrammar = {
+  locale: 'es',
+  wakePhrases: ['(?:oye|hola),? calendario'],
+  titleEnd: phrase(`${SPANISH_TITLE_END}|${ENGLISH_REPEATS}`),
+  toCanonical: transcript => {
+    const text = rewrite(transcript, spanishLeadRules, phrase(SPANISH_TITLE_END), spanishRepeatRules);
+    // "cambia la reunión a almuerzo": what follows "a" is the change, unless it starts a time ("a las cinco")
+    return /^change\b/i.test(text) ? text.replace(SPANISH_EDIT_TO, ' to ') : text;
+  },
+};
+
+const GERMAN_WEEKDAYS = ['montag', 'dienstag', 'mittwoch', 'donnerstag', 'freitag', 'samstag|sonnabend', 'sonntag'];
+const GERMAN_MONTHS = ['januar|jänner', 'februar', 'märz|maerz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'];
+const GERMAN_UNITS: [string, string][] = [['tage?n?', 'days'], ['wochen?', 'weeks'], ['monate?n?', 'months'], ['jahre?n?', 'years']];
+const GERMAN_HOURS = '\\d|eins?|zwei|drei|vier|fünf|sechs|sieben|acht|neun|zehn|elf|zwölf';
+
+// Where a title ends and its date, time, length or repeat begins
+const GERMAN_TITLE_END = [
+  'heute', 'morgen', 'übermorgen', 'gestern', 'mittags', 'mitternacht', 'um', 'am',
+  `(?:jeden )?(?:${GERMAN_WEEKDAYS.join('|')})s?`, '(?:nächste|kommende|diese|jede)[nrms]?', 'alle \\d',
+  'täglich|wöchentlich|monatlich|jährlich|werktags|an wochentagen', 'wochenende', 'den ganzen|ganztägig',
+  `in (?:\\d+|einer|einem|${GERMAN_HOURS}) (?:${GERMAN_UNITS.map(([unit]) => unit).join('|')})`,
+  `\\d{1,2}\\.? (?:${GERMAN_MONTHS.join('|')})`, `(?:von|ab|zwischen) (?:${GERMAN_HOURS})`, '\\d{1,2}(?::\\d{2})? uhr', '\\d{1,2}:\\d{2}',
+  'halb', 'viertel (?:nach|vor)', 'morgens|vormittags|nachmittags|abends|nachts',
+  'für (?:\\d|eine|anderthalb|eineinhalb)', '(?:\\d+|eine) (?:stunden?|minuten?)', 'halbe stunde', '(?:anderthalb|eineinhalb) stunden',
+].join('|');
+
+const germanLeadRules = [
+  // Replies to the preview card
+  words('^(?:ja|jawohl|genau|richtig|bestätigen|bestätige|passt|mach das|mach es)', 'yes'),
+  words('^(?:nein|abbrechen|vergiss es|lass es)', 'no'),
+  words('(?:der|die|das|den) (erste|ersten|zweite|zweiten|dritte|dritten|vierte|vierten|fünfte|fünften|andere|anderen)\\s*$', (which) =>
+    `the ${({ erste: 'first', zweite: 'second', dritte: 'third', vierte: 'fourth', fünfte: 'fifth' } as Record<string, string>)[which.toLowerCase().replace(/n$/, '')] ?? 'other'} one`),
+  words('nenne? es|benenne es um in', 'call it'),
+  words('(?:ändere|setze|setz) die (?:uhrzeit|zeit) auf', 'change the time to'),
+  words('(?:verschiebe|verschieb|leg|lege) (?:es|ihn|sie) (?:auf|nach)', 'move it to'),
+
+  words('(?:mach das )?rückgängig(?: machen)?', 'undo'),
+  words('wiederherstellen|wiederholen', 'redo'),
+  words('wann (?:bin ich|sind wir) frei|wann habe? ich zeit', 'when am i free'),
+  words('^(?:bitte,? )?(?:finde|such mir|suche mir|suche|such)', 'find'),
+  words('^find (?:(?:eine|einen|ein) )?(?:freie zeit|(?:freien|freies) (?:termin|slot|zeitfenster)|lücke)', 'find free time'),
+  words('was (?:habe|hab) ich', 'what do i have'),
+  words('was steht(?: an| auf dem plan| im kalender)?|was ist los', "what's on"),
+  words('bin ich beschäftigt|habe ich (?:etwas|was) vor', 'am i busy'),
+
+  // Commands where they open the transcript, with the article that follows them
+  words('^(?:bitte,? )?(?:erstelle|erstellen|trage?|eintragen|plane|planen|füge|hinzufügen|buche|buchen|lege?|neuer termin)(?: (?:einen|eine|ein|den|die|das|mein|meine|meinen))?', 'schedule'),
+  words('^(?:bitte,? )?(?:ändere|ändern|verschiebe|verschieben|verschieb|bearbeite|bearbeiten|aktualisiere|verlege|verlegen)(?: (?:den|die|das|mein|meine|meinen))?', 'change'),
+  words('^(?:bitte,? )?(?:lösche|löschen|entferne|entfernen|streiche|streichen)(?: (?:den|die|das|mein|meine|meinen))?', 'delete'),
+  words('^(?:bitte,? )?(?:sage?|absagen)(?: (?:den|die|das|mein|meine|meinen))?', 'cancel'),
+];
+
+const [GERMAN_COUNT, germanCount] = countPattern('de');
+
+const germanRepeatRules = [
+  words('jeden tag|täglich', 'every day'),
+  words('werktags|an wochentagen|jeden werktag', 'every weekday'),
+  words('jede woche|wöchentlich', 'weekly'),
+  words('jeden monat|monatlich', 'monthly'),
+  words('jedes jahr|jährlich', 'yearly'),
+  ...GERMAN_UNITS.map(([unit, english]) => words(`alle (${GERMAN_COUNT}) ${unit}`, (count) => `every ${germanCount(count)} ${english}`)),
+  words(`(${GERMAN_COUNT}) ?mal`, (count) => `${germanCount(count)} times`),
+  ...GERMAN_WEEKDAYS.map((day, i) => words(`jeden (?:${day})|(?:${day})s`, `every ${ENGLISH_WEEKDAYS[i]}`)),
+  ...GERMAN_WEEKDAYS.map((day, i) => words(`(?:am )?(ersten|zweiten|dritten|vierten|letzten) (?:${day}) (?:jedes|im) monats?`, (ordinal) =>
+    `${({ ersten: 'first', zweiten: 'second', dritten: 'third', vierten: 'fourth' } as Record<string, string>)[ordinal.toLowerCase()] ?? 'last'} ${ENGLISH_WEEKDAYS[i]} of every month`)),
+];
+
+const germanGrammar: VoiceGrammar = {
+  locale: 'de',
+  wakePhrases: ['(?:hey|hallo|okay|ok),? kalender'],
+  titleEnd: phrase(`${GERMAN_TITLE_END}|${ENGLISH_REPEATS}`),
+  toCanonical: transcript => {
+    // Separable verbs leave their particle at the end: "trag Zahnarzt morgen ein", "sag das Treffen ab"
+    const text = rewrite(transcript.replace(/\s+(?:ein|hinzu|an|ab)[.!?]*\s*$/i, ''), germanLeadRules, phrase(GERMAN_TITLE_END), germanRepeatRules);
+    // "verschiebe das Meeting auf Freitag": what follows "auf" is the change
+    return /^change\b/i.test(text) ? text.replace(/\s(?:auf|zu|in|nach)\s/i, ' to ') : text;
+  },
+};
+
+const GRAMMARS: Record<Locale, VoiceGrammar> = {
+  en: englishGrammar,
+  es: spanishGrammar,
+  de: germanGrammar,
+};
+
+export function getVoiceGrammar(locale: Locale = DEFAULT_LOCALE): VoiceGrammar {
+  return GRAMMARS[locale] ?? englishGrammar;
+}
+
+/**
+ * What was said after the last wake phrase in `transcript` ("" when the phrase ended it), or
+ * null when there is none. "Hey Calendar" wakes the app whatever the user's language.
+ */
+export function findWakePhrase(transcript: string, locale: Locale = DEFAULT_LOCALE): string | null {
+  const phrases = Array.from(new Set([...englishGrammar.wakePhrases, ...getVoiceGrammar(locale).wakePhrases]));
+  const regex = new RegExp(`(?:^|[^${LETTERS}])(?:${phrases.join('|')})(?![${LETTERS}])`, 'gi');
+
+  let end = -1;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(transcript)) !== null) {
+    end = match.index + match[0].length;
+  }
+  return end < 0 ? null : transcript.slice(end).replace(/^[\s,.!?:;]+/, '').trim();
+}
@@ -0,0 +1,446 @@
+import { format, type Locale as DateFnsLocale } from "date-fns";
+import { de, es } from "date-fns/locale";
+import { describeRRule, WEEKDAYS, type RecurrenceRule, type WeekdayNum } from "@shared/recurrence";
+import { DEFAULT_LOCALE, type Locale } from "@shared/locale";
+import type { PartOfDay } from "./dateGrammar";
+
+/**
+ * What the app says back in one language: confirmations, read-backs and answers, and the
+ * notifications and prompts shown alongside them. Days come formatted by date-fns in
+ * `dateLocale`; everything else is put together by the entries here.
+ */
+export interface VoiceMessages {
+  locale: Locale;
+  dateLocale?: DateFnsLocale;
+
+  // Days and times
+  today: string;
+  tomorrow: string;
+  dayFormats: { weekday: string; nextWeekday: string; date: string }; // "Friday", "next Monday", "March 3"
+  at(time: Date): string; // "at 3 PM"
+  allDay: string;
+  duration(minutes: number): string; // "an hour", "45 minutes"
+  repeats(rule: RecurrenceRule): string; // "weekly on Monday"
+  list(items: string[]): string; // "a, b, and c"
+
+  // Days asked about
+  thisWeek: string;
+  nextWeek: string;
+  thisWeekend: string;
+  through(first: string, last: string): string;
+  partsOfToday: Record<PartOfDay | 'tonight', string>; // "this morning"
+  partOfDay(day: string, part: PartOfDay): string; // "Friday afternoon"
+
+  // The preview card
+  create(title: string, when: string | undefined, repeats: string | undefined): string;
+  delete(title: string, when: string): string;
+  change(title: string, when: string, changes: string[]): string;
+  rename(title: string): string;
+  move(when: string): string;
+  question(text: string): string;
+  confirmDraft(description: string): string;
+  replyHelp: string;
+  cancelled: string;
+
+  // Answers
+  conflicts(title: string, at: string, others: number): string;
+  bookAnyway: string; // After the conflicts, as a question
+  freeSlot(day: string, at: string, duration: string): string;
+  bookSlot(answer: string): string;
+  noFreeTime: string;
+  nothingOn(label: string): string;
+  events(count: number, label: string, list: string): string;
+  more(count: number): string;
+  noMatches(query: string): string;
+
+  // Outcomes
+  created(title: string): string;
+  booked(title: string): string;
+  notBooked(title: string): string;
+  deleted(title: string): string;
+  rescheduled(when: string): string;
+  renamed(title: string): string;
+  notMoved(title: string): string;
+  openingEdit(title: string): string;
+  undone(label: string): string;
+  redone(label: string): string;
+  nothingToUndo: string;
+  nothingToRedo: string;
+
+  // Only on screen
+  titles: Record<'created' | 'deleted' | 'updated' | 'rescheduled' | 'notFound' | 'notUnderstood' | 'noFreeTime' | 'calendar' | 'undo' | 'redo' | 'error', string>;
+  saveAnyway: string; // After the conflicts, as a question, when saving from the event form
+  commandHelp: Record<'create' | 'edit' | 'delete' | 'other', string>; // After a command that wasn't understood
+  commandFailed: string;
+  undoFailed(redo: boolean): string;
+  occurrenceMoved(title: string, when: string): string;
+  followingMoved(title: string): string;
+  seriesMoved(title: string): string;
+  occurrenceDeleted(title: string): string;
+  followingDeleted(title: string): string;
+  seriesDeleted(title: string): string;
+  recurringFailed: string;
+}
+
+const ENGLISH_COUNTS = ['no', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+
+const englishMessages: VoiceMessages = {
+  locale: 'en',
+
+  today: 'today',
+  tomorrow: 'tomorrow',
+  dayFormats: { weekday: 'EEEE', nextWeekday: "'next' EEEE", date: 'MMMM d' },
+  at: time => `at ${format(time, time.getMinutes() === 0 ? 'h a' : 'h:mm a')}`,
+  allDay: 'all day',
+  duration: minutes => {
+    if (minutes === 60) return 'an hour';
+    if (minutes % 60 === 0) return `${minutes / 60} hours`;
+    return `${minutes} minutes`;
+  },
+  repeats: rule => describeRRule(rule).toLowerCase(),
+  list: items => (items.length === 1 ? items[0] : `${items.slice(0, -1).join(', ')}, and ${items[items.length - 1]}`),
+
+  thisWeek: 'this week',
+  nextWeek: 'next week',
+  thisWeekend: 'this weekend',
+  through: (first, last) => `${first} through ${last}`,
+  partsOfToday: { morning: 'this morning', afternoon: 'this afternoon', evening: 'this evening', tonight: 'tonight' },
+  partOfDay: (day, part) => `${day} ${part}`,
+
+  create: (title, when, repeats) => `Create ${title}${when ? ` ${when}` : ''}${repeats ? `, ${repeats}` : ''}`,
+  delete: (title, when) => `Delete ${title} ${when}`,
+  change: (title, when, changes) => `Change ${title} ${when}: ${changes.join(' and ') || 'no changes'}`,
+  rename: title => `rename it to ${title}`,
+  move: when => `move it to ${when}`,
+  question: text => `${text}?`,
+  confirmDraft: description => `${description}? Say yes to confirm, or tell me what to change.`,
+  replyHelp: 'Say yes to confirm, no to cancel, or a change such as "change the time to 4"',
+  cancelled: 'Okay, cancelled',
+
+  conflicts: (title, at, others) =>
+    `That overlaps with ${title} ${at}${others > 0 ? ` and ${others} other event${others === 1 ? '' : 's'}` : ''}`,
+  bookAnyway: 'book anyway',
+  freeSlot: (day, at, duration) => `You're free ${day} ${at} for ${duration}`,
+  bookSlot: answer => `${answer}. Book it?`,
+  noFreeTime: "There's no free time that long then",
+  nothingOn: label => `You have nothing on ${label}`,
+  events: (count, label, list) => `You have ${ENGLISH_COUNTS[count] ?? count} event${count === 1 ? '' : 's'} ${label}: ${list}`,
+  more: count => `${count} more`,
+  noMatches: query => `No events found matching "${query}"`,
+
+  created: title => `Event created: ${title}`,
+  booked: title => `Booked ${title}`,
+  notBooked: title => `Okay, ${title} was not booked`,
+  deleted: title => `Event deleted: ${title}`,
+  rescheduled: when => `Event rescheduled to ${when}`,
+  renamed: title => `Event updated to ${title}`,
+  notMoved: title => `Okay, ${title} was not moved`,
+  openingEdit: title => `Opening edit dialog for ${title}`,
+  undone: label => `Undone: ${label}`,
+  redone: label => `Redone: ${label}`,
+  nothingToUndo: 'Nothing to undo',
+  nothingToRedo: 'Nothing to redo',
+
+  titles: {
+    created: 'Event Created',
+    deleted: 'Event Deleted',
+    updated: 'Event Updated',
+    rescheduled: 'Event Rescheduled',
+    notFound: 'Event Not Found',
+    notUnderstood: 'Voice Command Not Recognized',
+    noFreeTime: 'No Free Time',
+    calendar: 'Your Calendar',
+    undo: 'Undo',
+    redo: 'Redo',
+    error: 'Error',
+  },
+  saveAnyway: 'save anyway',
+  commandHelp: {
+    create: "Try saying something like: 'Schedule meeting tomorrow at 2 PM'",
+    edit: "Try saying something like: 'Edit meeting to lunch' or 'Change dentist appointment'",
+    delete: "Try saying something like: 'Delete meeting' or 'Remove dentist appointment'",
+    other: "Try saying something like: 'Schedule meeting', 'Edit appointment', 'Delete event', 'What's on tomorrow?' or 'Undo that'",
+  },
+  commandFailed: 'There was an error processing your voice command',
+  undoFailed: redo => `Failed to ${redo ? 'redo' : 'undo'} the last change`,
+  occurrenceMoved: (title, when) => `"${title}" occurrence moved to ${when}`,
+  followingMoved: title => `"${title}" moved from this occurrence on`,
+  seriesMoved: title => `All "${title}" events moved`,
+  occurrenceDeleted: title => `"${title}" occurrence deleted`,
+  followingDeleted: title => `"${title}" events from this occurrence on moved to the trash`,
+  seriesDeleted: title => `All "${title}" events moved to the trash`,
+  recurringFailed: 'Failed to update recurring event',
+};
+
+/**
+ * A rule as "<how often><on which days><how long>", with each language's words for the parts.
+ * Positions are read as ordinals ("the first Monday"); -1 is the last.
+ */
+function repeatsIn(words: {
+  every: Record<RecurrenceRule['freq'], string>;
+  everyN(interval: number, freq: RecurrenceRule['freq']): string;
+  weekdays: string;
+  onDays(days: string[]): string; // Every such day of the week
+  onPosition(position: number, days: string[]): string; // The nth of them in the month
+  onDayOfMonth(days: string[]): string;
+  times(count: number): string;
+  until(date: Date): string;
+  weekdayName(day: WeekdayNum): string;
+}): (rule: RecurrenceRule) => string {
+  return rule => {
+    let text = rule.interval === 1 ? words.every[rule.freq] : words.everyN(rule.interval, rule.freq);
+
+    if (rule.byDay?.length) {
+      const position = rule.bySetPos?.length === 1 ? rule.bySetPos[0] : undefined;
+      const isWorkWeek = rule.byDay.length === 5
+        && rule.byDay.every(day => day.n === undefined && !['SA', 'SU'].includes(day.weekday));
+      const days = rule.byDay.map(words.weekdayName);
+      text += isWorkWeek && position === undefined
+        ? ` ${words.weekdays}`
+        : position !== undefined ? ` ${words.onPosition(position, days)}` : ` ${words.onDays(days)}`;
+    } else if (rule.byMonthDay?.length) {
+      text += ` ${words.onDayOfMonth(rule.byMonthDay.map(String))}`;
+    }
+
+    if (rule.count !== undefined) {
+      text += `, ${words.times(rule.count)}`;
+    } else if (rule.until) {
+      text += `, ${words.until(rule.until)}`;
+    }
+    return text;
+  };
+}
+
+const SPANISH_COUNTS = ['ningún', 'un', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez'];
+const SPANISH_WEEKDAYS = ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'];
+const SPANISH_ORDINALS: Record<string, string> = { '1': 'primer', '2': 'segundo', '3': 'tercer', '4': 'cuarto', '5': 'quinto', '-1': 'último' };
+
+const spanishList = (items: string[]) => (items.length === 1 ? items[0] : `${items.slice(0, -1).join(', ')} y ${items[items.length - 1]}`);
+
+// "el viernes a las 15:00" moves "al viernes"
+const spanishTo = (when: string) => (when.startsWith('el ') ? `al ${when.slice(3)}` : `a ${when}`);
+
+const spanishMessages: VoiceMessages = {
+  locale: 'es',
+  dateLocale: es,
+
+  today: 'hoy',
+  tomorrow: 'mañana',
+  dayFormats: { weekday: "'el' EEEE", nextWeekday: "'el próximo' EEEE", date: "'el' d 'de' MMMM" },
+  at: time => `${time.getHours() === 1 ? 'a la' : 'a las'} ${format(time, 'H:mm')}`,
+  allDay: 'todo el día',
+  duration: minutes => {
+    if (minutes === 60) return 'una hora';
+    if (minutes % 60 === 0) return `${minutes / 60} horas`;
+    return `${minutes} minutos`;
+  },
+  repeats: repeatsIn({
+    every: { DAILY: 'cada día', WEEKLY: 'cada semana', MONTHLY: 'cada mes', YEARLY: 'cada año' },
+    everyN: (interval, freq) => `cada ${interval} ${{ DAILY: 'días', WEEKLY: 'semanas', MONTHLY: 'meses', YEARLY: 'años' }[freq]}`,
+    weekdays: 'los días laborables',
+    // "los lunes", "los sábados"
+    onDays: days => `los ${spanishList(days.map(day => (day.endsWith('s') ? day : `${day}s`)))}`,
+    onPosition: (position, days) => `el ${SPANISH_ORDINALS[position] ?? `${position}.º`} ${spanishList(days)}`,
+    onDayOfMonth: days => `el día ${spanishList(days.map(day => (day === '-1' ? 'último' : day)))}`,
+    times: count => `${count} ${count === 1 ? 'vez' : 'veces'}`,
+    until: date => `hasta el ${format(date, "d 'de' MMMM 'de' yyyy", { locale: es })}`,
+    weekdayName: day => {
+      const name = SPANISH_WEEKDAYS[WEEKDAYS.indexOf(day.weekday)];
+      return day.n !== undefined ? `el ${SPANISH_ORDINALS[day.n] ?? `${day.n}.º`} ${name}` : name;
+    },
+  }),
+  list: spanishList,
+
+  thisWeek: 'esta semana',
+  nextWeek: 'la próxima semana',
+  thisWeekend: 'este fin de semana',
+  through: (first, last) => `${first} hasta ${last}`,
+  partsOfToday: { morning: 'esta mañana', afternoon: 'esta tarde', evening: 'esta noche', tonight: 'esta noche' },
+  partOfDay: (day, part) => `${day} por la ${{ morning: 'mañana', afternoon: 'tarde', evening: 'noche' }[part]}`,
+
+  create: (title, when, repeats) => `Crear ${title}${when ? ` ${when}` : ''}${repeats ? `, ${repeats}` : ''}`,
+  delete: (title, when) => `Eliminar ${title} ${when}`,
+  change: (title, when, changes) => `Cambiar ${title} ${when}: ${changes.join(' y ') || 'sin cambios'}`,
+  rename: title => `llamarlo ${title}`,
+  move: when => `moverlo ${spanishTo(when)}`,
+  question: text => `¿${text}?`,
+  confirmDraft: description => `¿${description}? Di sí para confirmar, o dime qué cambiar.`,
+  replyHelp: 'Di sí para confirmar, no para cancelar, o un cambio como "cambia la hora a las cuatro"',
+  cancelled: 'Vale, cancelado',
+
+  conflicts: (title, at, others) =>
+    `Se solapa con ${title} ${at}${others > 0 ? ` y ${others === 1 ? 'otro evento' : `otros ${others} eventos`}` : ''}`,
+  bookAnyway: 'reservar de todos modos',
+  freeSlot: (day, at, duration) => `Estás libre ${day} ${at} durante ${duration}`,
+  bookSlot: answer => `${answer}. ¿Lo reservo?`,
+  noFreeTime: 'No hay tanto tiempo libre entonces',
+  nothingOn: label => `No tienes nada ${label}`,
+  events: (count, label, list) => `Tienes ${SPANISH_COUNTS[count] ?? count} evento${count === 1 ? '' : 's'} ${label}: ${list}`,
+  more: count => `${count} más`,
+  noMatches: query => `No hay eventos que coincidan con "${query}"`,
+
+  created: title => `Evento creado: ${title}`,
+  booked: title => `Reservado: ${title}`,
+  notBooked: title => `Vale, ${title} no se ha reservado`,
+  deleted: title => `Evento eliminado: ${title}`,
+  rescheduled: when => `Evento movido ${spanishTo(when)}`,
+  renamed: title => `Evento renombrado a ${title}`,
+  notMoved: title => `Vale, ${title} no se ha movido`,
+  openingEdit: title => `Abriendo la edición de ${title}`,
+  undone: label => `Deshecho: ${label}`,
+  redone: label => `Rehecho: ${label}`,
+  nothingToUndo: 'No hay nada que deshacer',
+  nothingToRedo: 'No hay nada que rehacer',
+
+  titles: {
+    created: 'Evento creado',
+    deleted: 'Evento eliminado',
+    updated: 'Evento actualizado',
+    rescheduled: 'Evento movido',
+    notFound: 'Evento no encontrado',
+    notUnderstood: 'Comando de voz no reconocido',
+    noFreeTime: 'Sin tiempo libre',
+    calendar: 'Tu calendario',
+    undo: 'Deshacer',
+    redo: 'Rehacer',
+    error: 'Error',
+  },
+  saveAnyway: 'guardar de todos modos',
+  commandHelp: {
+    create: 'Prueba a decir algo como: "Crea reunión mañana a las 14:00"',
+    edit: 'Prueba a decir algo como: "Cambia reunión a almuerzo" o "Mueve dentista al viernes"',
+    delete: 'Prueba a decir algo como: "Borra reunión" o "Quita dentista"',
+    other: 'Prueba a decir algo como: "Crea reunión", "Cambia cita", "Borra evento", "¿Qué tengo mañana?" o "Deshaz eso"',
+  },
+  commandFailed: 'Hubo un error al procesar tu comando de voz',
+  undoFailed: redo => `No se pudo ${redo ? 'rehacer' : 'deshacer'} el último cambio`,
+  occurrenceMoved: (title, when) => `"${title}" movido ${spanishTo(when)} solo esta vez`,
+  followingMoved: title => `"${title}" movido desde esta vez en adelante`,
+  seriesMoved: title => `Todos los eventos "${title}" movidos`,
+  occurrenceDeleted: title => `"${title}" eliminado solo esta vez`,
+  followingDeleted: title => `Eventos "${title}" desde esta vez en adelante movidos a la papelera`,
+  seriesDeleted: title => `Todos los eventos "${title}" movidos a la papelera`,
+  recurringFailed: 'No se pudo actualizar el evento periódico',
+};
+
+const GERMAN_COUNTS = ['keine', 'einen', 'zwei', 'drei', 'vier', 'fünf', 'sechs', 'sieben', 'acht', 'neun', 'zehn'];
+const GERMAN_WEEKDAYS = ['Sonntag', 'Montag', 'Dienstag', 'Mittwoch', 'Donnerstag', 'Freitag', 'Samstag'];
+const GERMAN_ORDINALS: Record<string, string> = { '1': 'ersten', '2': 'zweiten', '3': 'dritten', '4': 'vierten', '5': 'fünften', '-1': 'letzten' };
+
+const germanList = (items: string[]) => (items.length === 1 ? items[0] : `${items.slice(0, -1).join(', ')} und ${items[items.length - 1]}`);
+
+// "am Freitag um 15 Uhr" moves "auf Freitag um 15 Uhr", "am 3. März" "auf den 3. März"
+const germanTo = (when: string) => `auf ${when.replace(/^am (?=\d)/, 'den ').replace(/^am /, '')}`;
+
+const germanMessages: VoiceMessages = {
+  locale: 'de',
+  dateLocale: de,
+
+  today: 'heute',
+  tomorrow: 'morgen',
+  dayFormats: { weekday: "'am' EEEE", nextWeekday: "'nächsten' EEEE", date: "'am' d. MMMM" },
+  at: time => `um ${format(time, time.getMinutes() === 0 ? 'H' : 'H:mm')} Uhr`,
+  allDay: 'ganztägig',
+  duration: minutes => {
+    if (minutes === 60) return 'eine Stunde';
+    if (minutes % 60 === 0) return `${minutes / 60} Stunden`;
+    return `${minutes} Minuten`;
+  },
+  repeats: repeatsIn({
+    every: { DAILY: 'täglich', WEEKLY: 'wöchentlich', MONTHLY: 'monatlich', YEARLY: 'jährlich' },
+    everyN: (interval, freq) => `alle ${interval} ${{ DAILY: 'Tage', WEEKLY: 'Wochen', MONTHLY: 'Monate', YEARLY: 'Jahre' }[freq]}`,
+    weekdays: 'werktags',
+    // "montags und mittwochs"
+    onDays: days => germanList(days.map(day => `${day.toLowerCase()}s`)),
+    onPosition: (position, days) => `am ${GERMAN_ORDINALS[position] ?? `${position}.`} ${germanList(days)}`,
+    onDayOfMonth: days => `am ${germanList(days.map(day => (day === '-1' ? 'letzten Tag' : `${day}.`)))}`,
+    times: count => `${count} Mal`,
+    until: date => `bis ${format(date, 'd. MMMM yyyy', { locale: de })}`,
+    weekdayName: day => {
+      const name = GERMAN_WEEKDAYS[WEEKDAYS.indexOf(day.weekday)];
+      return day.n !== undefined ? `am ${GERMAN_ORDINALS[day.n] ?? `${day.n}.`} ${name}` : name;
+    },
+  }),
+  list: germanList,
+
+  thisWeek: 'diese Woche',
+  nextWeek: 'nächste Woche',
+  thisWeekend: 'am Wochenende',
+  through: (first, last) => `${first} bis ${last}`,
+  partsOfToday: { morning: 'heute Vormittag', afternoon: 'heute Nachmittag', evening: 'heute Abend', tonight: 'heute Abend' },
+  partOfDay: (day, part) => `${day} ${{ morning: 'Vormittag', afternoon: 'Nachmittag', evening: 'Abend' }[part]}`,
+
+  create: (title, when, repeats) => `${title}${when ? ` ${when}` : ''}${repeats ? ` ${repeats}` : ''} eintragen`,
+  delete: (title, when) => `${title} ${when} löschen`,
+  change: (title, when, changes) => `${title} ${when} ändern: ${changes.join(' und ') || 'keine Änderungen'}`,
+  rename: title => `umbenennen in ${title}`,
+  move: when => `${germanTo(when)} verschieben`,
+  question: text => `${text}?`,
+  confirmDraft: description => `${description}? Sag ja zum Bestätigen, oder sag mir, was ich ändern soll.`,
+  replyHelp: 'Sag ja zum Bestätigen, nein zum Abbrechen, oder eine Änderung wie "ändere die Uhrzeit auf 4"',
+  cancelled: 'Okay, abgebrochen',
+
+  conflicts: (title, at, others) =>
+    `Das überschneidet sich mit ${title} ${at}${others > 0 ? ` und ${others === 1 ? 'einem weiteren Termin' : `${others} weiteren Terminen`}` : ''}`,
+  bookAnyway: 'trotzdem eintragen',
+  freeSlot: (day, at, duration) => `Du hast ${day} ${at} ${duration} frei`,
+  bookSlot: answer => `${answer}. Soll ich es eintragen?`,
+  noFreeTime: 'Dann ist nicht so lange etwas frei',
+  nothingOn: label => `Du hast ${label} nichts vor`,
+  events: (count, label, list) => `Du hast ${label} ${GERMAN_COUNTS[count] ?? count} Termin${count === 1 ? '' : 'e'}: ${list}`,
+  more: count => `${count} weitere`,
+  noMatches: query => `Keine Termine gefunden für "${query}"`,
+
+  created: title => `Termin erstellt: ${title}`,
+  booked: title => `${title} eingetragen`,
+  notBooked: title => `Okay, ${title} wurde nicht eingetragen`,
+  deleted: title => `Termin gelöscht: ${title}`,
+  rescheduled: when => `Termin ${germanTo(when)} verschoben`,
+  renamed: title => `Termin umbenannt in ${title}`,
+  notMoved: title => `Okay, ${title} wurde nicht verschoben`,
+  openingEdit: title => `Bearbeitung von ${title} wird geöffnet`,
+  undone: label => `Rückgängig gemacht: ${label}`,
+  redone: label => `Wiederhergestellt: ${label}`,
+  nothingToUndo: 'Nichts rückgängig zu machen',
+  nothingToRedo: 'Nichts wiederherzustellen',
+
+  titles: {
+    created: 'Termin erstellt',
+    deleted: 'Termin gelöscht',
+    updated: 'Termin geändert',
+    rescheduled: 'Termin verschoben',
+    notFound: 'Termin nicht gefunden',
+    notUnderstood: 'Sprachbefehl nicht erkannt',
+    noFreeTime: 'Keine freie Zeit',
+    calendar: 'Dein Kalender',
+    undo: 'Rückgängig',
+    redo: 'Wiederherstellen',
+    error: 'Fehler',
+  },
+  saveAnyway: 'trotzdem speichern',
+  commandHelp: {
+    create: 'Sag zum Beispiel: "Trage Besprechung morgen um 14 Uhr ein"',
+    edit: 'Sag zum Beispiel: "Ändere Besprechung zu Mittagessen" oder "Verschiebe Zahnarzt auf Freitag"',
+    delete: 'Sag zum Beispiel: "Lösche Besprechung" oder "Entferne Zahnarzt"',
+    other: 'Sag zum Beispiel: "Trage Besprechung ein", "Ändere Termin", "Lösche Termin", "Was habe ich morgen?" oder "Mach das rückgängig"',
+  },
+  commandFailed: 'Beim Verarbeiten deines Sprachbefehls ist ein Fehler aufgetreten',
+  undoFailed: redo => `Die letzte Änderung konnte nicht ${redo ? 'wiederhergestellt' : 'rückgängig gemacht'} werden`,
+  occurrenceMoved: (title, when) => `"${title}" nur dieses Mal ${germanTo(when)} verschoben`,
+  followingMoved: title => `"${title}" ab diesem Termin verschoben`,
+  seriesMoved: title => `Alle Termine "${title}" verschoben`,
+  occurrenceDeleted: title => `"${title}" nur dieses Mal gelöscht`,
+  followingDeleted: title => `Termine "${title}" ab diesem Termin in den Papierkorb verschoben`,
+  seriesDeleted: title => `Alle Termine "${title}" in den Papierkorb verschoben`,
+  recurringFailed: 'Der Serientermin konnte nicht geändert werden',
+};
+
+const MESSAGES: Record<Locale, VoiceMessages> = {
+  en: englishMessages,
+  es: spanishMessages,
+  de: germanMessages,
+};
+
+export function getVoiceMessages(locale: Locale = DEFAULT_LOCALE): VoiceMessages {
+  return MESSAGES[locale] ?? englishMessages;
+}
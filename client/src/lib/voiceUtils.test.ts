@@ -0,0 +1,139 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Event } from "@shared/schema";
+import { apiRequest } from "./queryClient";
+import { getVoiceMessages } from "./voiceMessages";
+import { describeConflicts, describeDraft, describeFreeSlot, interpretVoiceCommand, parseVoiceCommand, summarizeEvents, type VoiceActionDraft } from "./voiceUtils";
+
+vi.mock("./queryClient", () => ({ apiRequest: vi.fn() }));
+
+// Wednesday 11 March 2026, mid-afternoon; the suite runs with TZ=UTC (vitest.config.ts)
+const NOW = new Date("2026-03-11T15:00:00Z");
+
+function event(title: string, startDate: string, values: Partial<Event> = {}): Event {
+  return {
+    id: title,
+    userId: "user",
+    title,
+    description: null,
+    startDate: new Date(startDate),
+    endDate: null,
+    timezone: "UTC",
+    allDay: false,
+    isRecurring: false,
+    recurrenceRule: null,
+    parentEventId: null,
+    originalDate: null,
+    icalUid: null,
+    createdAt: null,
+    deletedAt: null,
+    ...values,
+  };
+}
+
+beforeAll(() => {
+  vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe("parseVoiceCommand", () => {
+  it("reads the action from the verb that opens the command", () => {
+    expect(parseVoiceCommand("Add address book review tomorrow at 3 PM", "UTC")).toMatchObject({ action: "create", title: "address book review" });
+    expect(parseVoiceCommand("Change the book club to 5 PM", "UTC")).toMatchObject({ action: "edit", eventQuery: "the book club" });
+    expect(parseVoiceCommand("Cancel my update call", "UTC")).toMatchObject({ action: "delete", eventQuery: "my update call" });
+    expect(parseVoiceCommand("Remind me about the budget", "UTC").action).toBe("unknown");
+  });
+
+  it("ends a title at \"on\" only when a date follows", () => {
+    expect(parseVoiceCommand("Schedule catch up on budget Friday at 10 AM", "UTC").title).toBe("catch up on budget");
+    expect(parseVoiceCommand("Schedule dentist on Friday", "UTC").title).toBe("dentist");
+    expect(parseVoiceCommand("Schedule review on the 20th", "UTC").title).toBe("review");
+  });
+
+  it("understands the commands its help suggests", () => {
+    for (const locale of ["en", "es", "de"] as const) {
+      const { commandHelp } = getVoiceMessages(locale);
+      for (const action of ["create", "edit", "delete"] as const) {
+        const example = commandHelp[action].match(/["'](.+?)["']/)![1];
+        expect(parseVoiceCommand(example, "UTC", locale).action, `${locale}: ${example}`).toBe(action);
+      }
+    }
+  });
+});
+
+describe("interpretVoiceCommand", () => {
+  it("stops asking the server once it has no command parser", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.mocked(apiRequest).mockRejectedValue(new Error("503: Command parsing is not configured"));
+
+    expect(await interpretVoiceCommand("Schedule dentist on Friday", "UTC")).toMatchObject({ action: "create", title: "dentist" });
+    expect(await interpretVoiceCommand("Delete dentist", "UTC")).toMatchObject({ action: "delete", eventQuery: "dentist" });
+    expect(apiRequest).toHaveBeenCalledTimes(1);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe("describeDraft", () => {
+  const create: VoiceActionDraft = {
+    action: "create",
+    originalText: "",
+    title: "Yoga",
+    startDate: new Date("2026-03-13T15:00:00Z"),
+    recurrenceRule: "FREQ=WEEKLY;BYDAY=FR",
+    candidates: [],
+  };
+  const dentist = event("Dentist", "2026-03-12T10:00:00Z");
+  const move: VoiceActionDraft = {
+    action: "edit",
+    originalText: "",
+    title: "Dentist",
+    startDate: new Date("2026-03-13T13:30:00Z"),
+    target: dentist,
+    candidates: [dentist],
+  };
+
+  it("says what confirming will do in the user's language", () => {
+    expect(describeDraft(create, "UTC")).toBe("Create Yoga Friday at 3 PM, weekly on friday");
+    expect(describeDraft(create, "UTC", "es")).toBe("Crear Yoga el viernes a las 15:00, cada semana los viernes");
+    expect(describeDraft(create, "UTC", "de")).toBe("Yoga am Freitag um 15 Uhr wöchentlich freitags eintragen");
+  });
+
+  it("says where an event moves to", () => {
+    expect(describeDraft(move, "UTC", "es")).toBe("Cambiar Dentist mañana a las 10:00: moverlo al viernes a las 13:30");
+    expect(describeDraft(move, "UTC", "de")).toBe("Dentist morgen um 10 Uhr ändern: auf Freitag um 13:30 Uhr verschieben");
+  });
+});
+
+describe("summarizeEvents", () => {
+  const events = [event("Standup", "2026-03-13T09:00:00Z"), event("Cena", "2026-03-13T20:30:00Z")];
+
+  it("reads back the events asked about", () => {
+    const { queryRange } = parseVoiceCommand("Qué tengo el viernes", "UTC", "es");
+    expect(summarizeEvents(events, queryRange!, "UTC", "es")).toBe("Tienes dos eventos el viernes: Standup a las 9:00 y Cena a las 20:30");
+    expect(summarizeEvents([], queryRange!, "UTC", "es")).toBe("No tienes nada el viernes");
+  });
+
+  it("names a part of the day with the day", () => {
+    const { queryRange } = parseVoiceCommand("Was habe ich morgen Nachmittag", "UTC", "de");
+    expect(summarizeEvents([], queryRange!, "UTC", "de")).toBe("Du hast morgen Nachmittag nichts vor");
+  });
+});
+
+describe("answers", () => {
+  const slot = { startDate: new Date("2026-03-12T13:00:00Z"), endDate: new Date("2026-03-12T14:00:00Z") };
+  const conflicts = [event("Standup", "2026-03-12T09:00:00Z"), event("Review", "2026-03-12T09:30:00Z")];
+
+  it("offers a free slot", () => {
+    expect(describeFreeSlot(slot, 60, "UTC")).toBe("You're free tomorrow at 1 PM for an hour");
+    expect(describeFreeSlot(slot, 60, "UTC", "es")).toBe("Estás libre mañana a las 13:00 durante una hora");
+    expect(describeFreeSlot(slot, 30, "UTC", "de")).toBe("Du hast morgen um 13 Uhr 30 Minuten frei");
+  });
+
+  it("warns about a double booking", () => {
+    expect(describeConflicts(conflicts, "UTC")).toBe("That overlaps with Standup at 9 AM and 1 other event");
+    expect(describeConflicts(conflicts, "UTC", "de")).toBe("Das überschneidet sich mit Standup um 9 Uhr und einem weiteren Termin");
+  });
+});
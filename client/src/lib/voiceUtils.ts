@@ -1,47 +1,95 @@
-import { parseNaturalLanguageDate, type ParsedDateTime } from "./dateUtils";
+import { addDays, differenceInMinutes, endOfWeek, format, isSameDay, startOfDay } from "date-fns";
+import { apiRequest } from "./queryClient";
+import { combineDateAndTime, getParsedAllDayRange, getParsedEndDate, parseNaturalLanguageDate, extractSpokenDuration, parsePartOfDay, namePartOfDay, parseNamedSpan, PARTS_OF_DAY, type ParsedDateTime } from "./dateUtils";
+import { getDateGrammar } from "./dateGrammar";
+import { alignToRule, formatRRule, parseRRule, type RecurrenceRule, type Weekday } from "@shared/recurrence";
+import { toZonedTime } from "@shared/timezone";
+import { type Event, type FreeSlot } from "@shared/schema";
+import { parseLocalDateTime, voiceCommandSchema, type ParsedVoiceCommand } from "@shared/voiceCommand";
+import { DEFAULT_LOCALE, SPEECH_LANGUAGES, type Locale } from "@shared/locale";
+import { getVoiceGrammar } from "./voiceGrammar";
+import { getVoiceMessages } from "./voiceMessages";
+
+// What "find me an hour on Thursday afternoon" asks GET /api/availability for
+export interface SlotSearch {
+  startDate: Date;
+  endDate: Date;
+  durationMinutes?: number; // The user's default length when not spoken
+  workdayStart?: string; // "HH:mm" in the user's zone; working hours when not spoken
+  workdayEnd?: string;
+}
+
+// The stretch of time a read-back question such as "what's on Friday morning" asks about
+export interface QueryRange {
+  startDate: Date;
+  endDate: Date;
+  label: string; // Spoken name for the range, e.g. "Friday morning" or "this week"
+}
 
 export interface VoiceCommand {
-  action: 'create' | 'edit' | 'delete' | 'unknown';
+  action: 'create' | 'edit' | 'delete' | 'find-slot' | 'query' | 'undo' | 'redo' | 'unknown';
   title?: string;
   description?: string;
   dateTime?: ParsedDateTime;
   isRecurring?: boolean;
-  recurringPattern?: string;
+  recurrenceRule?: string; // RFC 5545 RRULE value
   originalText: string;
   eventQuery?: string; // For finding events to edit/delete
   newTitle?: string; // For editing event title
+  slotSearch?: SlotSearch; // For finding free time
+  queryRange?: QueryRange; // For reading back the calendar
 }
 
-export function parseVoiceCommand(transcript: string): VoiceCommand {
+// "undo that", "take it back", "redo"
+const UNDO_REGEX = /^(?:undo|take (?:that|it) back|scratch that)\b/;
+const REDO_REGEX = /^(?:redo|do (?:that|it) again)\b/;
+
+// "when am I free tomorrow", "find me an hour with nothing on Thursday afternoon"
+const FIND_SLOT_REGEX = /\bwhen (?:am i|are we) free\b|\bfind\b.*\b(?:time|slot|gap|opening|free|hours?|minutes?|mins?)\b|\b(?:free|open) (?:time|slot)s?\b/;
+
+// "what's on my calendar tomorrow", "what do I have Friday", "am I busy this week"
+const QUERY_REGEX = /\bwhat(?:'s| is)(?: on| happening| coming up| planned)?\b|\bwhat (?:do|have) i (?:have|got)\b|\b(?:do i have|have i got) anything\b|\bam i busy\b|\b(?:read|tell) me (?:my|what)\b/;
+
+// The command verb, which only counts at the start: "add the address book" is one create
+const CREATE_REGEX = /^(?:please,? )?(?:schedule|add|create|book)\b/i;
+const EDIT_REGEX = /^(?:please,? )?(?:edit|modify|change|update|reschedule)\b/i;
+const DELETE_REGEX = /^(?:please,? )?(?:delete|remove|cancel)\b/i;
+
+const ALL_DAY_TITLES = /\b(birthday|anniversary|vacation|holiday|day off|trip|conference|festival)\b/i;
+
+// Commands in other languages are read through their grammar's English equivalent, and
+// their dates in the language they were spoken
+export function parseVoiceCommand(spokenText: string, timeZone?: string, locale: Locale = DEFAULT_LOCALE): VoiceCommand {
+  const grammar = getVoiceGrammar(locale);
+  const transcript = grammar.toCanonical(spokenText);
   const lowercaseTranscript = transcript.toLowerCase().trim();
   
+  // Undo and redo take nothing else
+  if (UNDO_REGEX.test(lowercaseTranscript)) {
+    return { action: 'undo', originalText: spokenText };
+  }
+  if (REDO_REGEX.test(lowercaseTranscript)) {
+    return { action: 'redo', originalText: spokenText };
+  }
+
   // Determine action
   let action: VoiceCommand['action'] = 'unknown';
   
-  if (
-    lowercaseTranscript.includes('schedule') ||
-    lowercaseTranscript.includes('add') ||
-    lowercaseTranscript.includes('create') ||
-    lowercaseTranscript.includes('book')
-  ) {
+  if (FIND_SLOT_REGEX.test(lowercaseTranscript) || (/^find\b/.test(lowercaseTranscript) && extractSpokenDuration(transcript, locale).durationMinutes)) {
+    action = 'find-slot';
+  } else if (QUERY_REGEX.test(lowercaseTranscript)) {
+    action = 'query';
+  } else if (CREATE_REGEX.test(lowercaseTranscript)) {
     action = 'create';
-  } else if (
-    lowercaseTranscript.includes('edit') ||
-    lowercaseTranscript.includes('modify') ||
-    lowercaseTranscript.includes('change') ||
-    lowercaseTranscript.includes('update')
-  ) {
+  } else if (EDIT_REGEX.test(lowercaseTranscript)) {
     action = 'edit';
-  } else if (
-    lowercaseTranscript.includes('delete') ||
-    lowercaseTranscript.includes('remove') ||
-    lowercaseTranscript.includes('cancel')
-  ) {
+  } else if (DELETE_REGEX.test(lowercaseTranscript)) {
     action = 'delete';
   }
 
-  // Parse date and time
-  const dateTime = parseNaturalLanguageDate(transcript);
+  // Parse date and time; a searched-for length isn't a start time ("find a 30 minute slot")
+  const spoken = action === 'find-slot' ? extractSpokenDuration(transcript, locale) : { remaining: transcript };
+  const dateTime = parseNaturalLanguageDate(spoken.remaining, timeZone, new Date(), locale);
 
   // Extract title/event name
   let title: string | undefined;
@@ -51,13 +99,10 @@ export function parseVoiceCommand(transcript: string): VoiceCommand {
 
   if (action === 'create') {
     // Remove command words and extract the event title
-    let cleanedText = transcript
-      .replace(/\b(schedule|add|create|book)\b/gi, '')
-      .trim();
+    let cleanedText = transcript.trim().replace(CREATE_REGEX, '').trim();
     
     // Find the first occurrence of time/date indicators and stop there
-    const stopWords = /\b(at|on|for|tomorrow|today|monday|tuesday|wednesday|thursday|friday|saturday|sunday|\d{1,2}:?\d{0,2}\s*(am|pm|a\.m\.|p\.m\.)|noon|midnight)\b/i;
-    const match = cleanedText.match(stopWords);
+    const match = cleanedText.match(grammar.titleEnd);
     
     if (match && match.index !== undefined) {
       cleanedText = cleanedText.substring(0, match.index).trim();
@@ -72,18 +117,23 @@ export function parseVoiceCommand(transcript: string): VoiceCommand {
     if (cleanedText) {
       title = cleanedText;
     }
+
+    // Birthdays and the like are all-day unless a time was given
+    if (title && !dateTime.time && ALL_DAY_TITLES.test(title)) {
+      dateTime.allDay = true;
+    }
   } else if (action === 'edit') {
     // Parse edit commands - support both title changes and rescheduling
     if (transcript.toLowerCase().includes(' to ')) {
       const parts = transcript.toLowerCase().split(' to ');
       if (parts.length >= 2) {
-        eventQuery = parts[0].replace(/\b(edit|modify|change|update)\b/gi, '').trim();
+        eventQuery = parts[0].trim().replace(EDIT_REGEX, '').trim();
         
         // Check if the "to" part contains a title or a time/date
         const toPart = parts[1].trim();
         
         // Try to parse the "to" part as a date/time
-        const possibleDateTime = parseNaturalLanguageDate(toPart);
+        const possibleDateTime = parseNaturalLanguageDate(toPart, timeZone, new Date(), locale);
         
         if (possibleDateTime?.date || possibleDateTime?.time) {
           // This is a reschedule command like "change meeting to 3 PM tomorrow"
@@ -96,11 +146,10 @@ export function parseVoiceCommand(transcript: string): VoiceCommand {
     } else {
       // Simple edit command like "edit meeting" or "reschedule meeting tomorrow at 3 PM"
       // Try to extract both the event and new time
-      let cleanedText = transcript.replace(/\b(edit|modify|change|update|reschedule)\b/gi, '').trim();
+      let cleanedText = transcript.trim().replace(EDIT_REGEX, '').trim();
       
       // Look for time/date indicators to separate event name from new time
-      const timeIndicators = /\b(at|on|for|to|tomorrow|today|monday|tuesday|wednesday|thursday|friday|saturday|sunday|\d{1,2}:?\d{0,2}\s*(am|pm|a\.m\.|p\.m\.)|noon|midnight)\b/i;
-      const timeMatch = cleanedText.match(timeIndicators);
+      const timeMatch = cleanedText.match(grammar.titleEnd);
       
       if (timeMatch) {
         // Split at the first time indicator
@@ -112,89 +161,311 @@ export function parseVoiceCommand(transcript: string): VoiceCommand {
     }
   } else if (action === 'delete') {
     // Parse delete commands like "delete meeting" or "remove dentist appointment"
-    eventQuery = transcript
-      .replace(/\b(delete|remove|cancel)\b/gi, '')
-      .trim();
+    eventQuery = transcript.trim().replace(DELETE_REGEX, '').trim();
+  } else if (action === 'find-slot') {
+    // "find an hour for the design review on Friday" books "the design review" if accepted
+    const forMatch = spoken.remaining.match(/\bfor\s+(?:an?\s+|the\s+|my\s+|our\s+)?(.+)$/i);
+    if (forMatch) {
+      const stop = forMatch[1].match(grammar.titleEnd);
+      title = (stop?.index !== undefined ? forMatch[1].substring(0, stop.index) : forMatch[1]).trim() || undefined;
+    }
   }
 
   // Check for recurring patterns
-  let isRecurring = false;
-  let recurringPattern: string | undefined;
-  
-  if (
-    lowercaseTranscript.includes('every') ||
-    lowercaseTranscript.includes('recurring') ||
-    lowercaseTranscript.includes('repeat')
-  ) {
-    isRecurring = true;
-    
-    if (lowercaseTranscript.includes('every day') || lowercaseTranscript.includes('daily')) {
-      recurringPattern = 'daily';
-    } else if (
-      lowercaseTranscript.includes('every week') || 
-      lowercaseTranscript.includes('weekly') ||
-      lowercaseTranscript.includes('every monday') ||
-      lowercaseTranscript.includes('every tuesday') ||
-      lowercaseTranscript.includes('every wednesday') ||
-      lowercaseTranscript.includes('every thursday') ||
-      lowercaseTranscript.includes('every friday')
-    ) {
-      recurringPattern = 'weekly';
-    } else if (lowercaseTranscript.includes('every month') || lowercaseTranscript.includes('monthly')) {
-      recurringPattern = 'monthly';
-    } else if (lowercaseTranscript.includes('every year') || lowercaseTranscript.includes('yearly')) {
-      recurringPattern = 'yearly';
-    } else {
-      recurringPattern = 'weekly'; // Default
-    }
-  }
+  const recurrenceRule = parseRecurrencePhrase(lowercaseTranscript);
+  const isRecurring = !!recurrenceRule;
 
   return {
     action,
     title,
-    description: action === 'create' ? `Created via voice command: "${transcript}"` : undefined,
+    description: action === 'create' ? `Created via voice command: "${spokenText}"` : undefined,
     dateTime,
     isRecurring,
-    recurringPattern,
-    originalText: transcript,
+    recurrenceRule,
+    originalText: spokenText,
     eventQuery,
-    newTitle
+    newTitle,
+    slotSearch: action === 'find-slot' ? getSlotSearch(transcript, dateTime, spoken.durationMinutes, timeZone, locale) : undefined,
+    queryRange: action === 'query' ? getQueryRange(lowercaseTranscript, dateTime, timeZone, locale) : undefined
   };
 }
 
-export function generateEventFromVoiceCommand(command: VoiceCommand): {
+// Cleared for the rest of the session once the server says it has no command parser
+let parserConfigured = true;
+
+/**
+ * Parse with the server's command parser (POST /api/parse-command), falling back to
+ * parseVoiceCommand when it isn't configured or reachable, or can't make sense of the command.
+ */
+export async function interpretVoiceCommand(transcript: string, timeZone?: string, locale: Locale = DEFAULT_LOCALE): Promise<VoiceCommand> {
+  if (parserConfigured) {
+    try {
+      const response = await apiRequest("POST", "/api/parse-command", { transcript, timezone: timeZone });
+      const result = await response.json();
+      const parsed = voiceCommandSchema.parse(result.command);
+      if (parsed.action !== 'unknown') {
+        return fromParsedCommand(parsed, transcript, timeZone, locale);
+      }
+    } catch (error) {
+      // apiRequest's errors start with the status; 503 means the server has no parser at all
+      if (error instanceof Error && error.message.startsWith("503:")) {
+        parserConfigured = false;
+      } else {
+        console.warn("Falling back to rule-based command parsing:", error);
+      }
+    }
+  }
+  return parseVoiceCommand(transcript, timeZone, locale);
+}
+
+// The server's structured command in the shape parseVoiceCommand produces
+function fromParsedCommand(parsed: ParsedVoiceCommand, transcript: string, timeZone?: string, locale: Locale = DEFAULT_LOCALE): VoiceCommand {
+  const start = parsed.start ? parseLocalDateTime(parsed.start) : undefined;
+  const end = parsed.end ? parseLocalDateTime(parsed.end) : undefined;
+
+  const dateTime: ParsedDateTime = {
+    date: start?.date,
+    time: parsed.allDay ? undefined : start?.time,
+    allDay: parsed.allDay,
+    isValid: !!start,
+    originalText: transcript
+  };
+  if (start && end) {
+    if (dateTime.time && end.time) {
+      if (isSameDay(start.date, end.date)) {
+        dateTime.endTime = end.time;
+      } else if (end.time > dateTime.time) {
+        dateTime.durationMinutes = differenceInMinutes(end.time, dateTime.time);
+      }
+    } else if (!end.time && addDays(end.date, -1) > start.date) {
+      // Whole days end at the start of the day after the last one
+      dateTime.endDate = addDays(end.date, -1);
+    }
+  }
+
+  let queryRange: QueryRange | undefined;
+  if (parsed.action === 'query') {
+    queryRange = getQueryRange(getVoiceGrammar(locale).toCanonical(transcript).toLowerCase(), dateTime, timeZone, locale);
+    queryRange.label = parsed.rangeLabel ?? queryRange.label;
+  }
+
+  return {
+    action: parsed.action,
+    title: parsed.title,
+    description: parsed.action === 'create' ? `Created via voice command: "${transcript}"` : undefined,
+    dateTime,
+    isRecurring: !!parsed.recurrenceRule,
+    recurrenceRule: parsed.recurrenceRule,
+    originalText: transcript,
+    eventQuery: parsed.eventQuery,
+    newTitle: parsed.newTitle,
+    slotSearch: parsed.action === 'find-slot' ? getSlotSearch(transcript, dateTime, parsed.durationMinutes, timeZone, locale) : undefined,
+    queryRange
+  };
+}
+
+// Spoken name of a day relative to today: "today", "tomorrow", "Friday", "next Monday" or "March 3"
+function describeDay(date: Date, today: Date, locale: Locale = DEFAULT_LOCALE): string {
+  const messages = getVoiceMessages(locale);
+  const { weekday, nextWeekday, date: fullDate } = messages.dayFormats;
+  const options = { locale: messages.dateLocale };
+  if (isSameDay(date, today)) return messages.today;
+  if (isSameDay(date, addDays(today, 1))) return messages.tomorrow;
+  if (date < addDays(today, 7)) return format(date, weekday, options);
+  return format(date, date < addDays(today, 14) ? nextWeekday : fullDate, options);
+}
+
+// Days (and part of the day) asked about; today when nothing else was said
+function getQueryRange(text: string, dateTime: ParsedDateTime, timeZone?: string, locale: Locale = DEFAULT_LOCALE): QueryRange {
+  const today = startOfDay(timeZone ? toZonedTime(new Date(), timeZone) : new Date());
+  let firstDay = dateTime.date ?? today;
+  let lastDay = dateTime.endDate ?? firstDay;
+  let label: string;
+
+  const messages = getVoiceMessages(locale);
+  const span = parseNamedSpan(text, locale);
+
+  if (span === 'thisWeek') {
+    firstDay = today;
+    lastDay = startOfDay(endOfWeek(today));
+    label = messages.thisWeek;
+  } else if (dateTime.endDate) {
+    label = span === 'nextWeek'
+      ? messages.nextWeek
+      : span === 'weekend' ? messages.thisWeekend : messages.through(describeDay(firstDay, today, locale), describeDay(lastDay, today, locale));
+  } else {
+    label = describeDay(firstDay, today, locale);
+  }
+
+  let startDate = combineDateAndTime(firstDay, undefined, timeZone);
+  let endDate = combineDateAndTime(addDays(lastDay, 1), undefined, timeZone);
+
+  // "tomorrow morning", "Friday afternoon"
+  const partOfDay = namePartOfDay(text, locale);
+  if (partOfDay && isSameDay(firstDay, lastDay)) {
+    const hours = PARTS_OF_DAY[partOfDay === 'tonight' ? 'evening' : partOfDay];
+    const at = (hour: number) => {
+      const value = new Date(firstDay);
+      value.setHours(hour, 0, 0, 0);
+      return combineDateAndTime(value, value, timeZone);
+    };
+    startDate = at(hours[0]);
+    endDate = at(hours[1]);
+    label = partOfDay === 'tonight' || isSameDay(firstDay, today)
+      ? messages.partsOfToday[partOfDay]
+      : messages.partOfDay(label, partOfDay);
+  }
+
+  return { startDate, endDate, label };
+}
+
+// The days to search (today unless others were named) and the part of the day to look in
+function getSlotSearch(transcript: string, dateTime: ParsedDateTime, durationMinutes: number | undefined, timeZone?: string, locale: Locale = DEFAULT_LOCALE): SlotSearch {
+  const today = startOfDay(timeZone ? toZonedTime(new Date(), timeZone) : new Date());
+  const firstDay = dateTime.date ?? today;
+  const lastDay = dateTime.endDate ?? firstDay;
+
+  const search: SlotSearch = {
+    // Never offer time that has already passed
+    startDate: new Date(Math.max(combineDateAndTime(firstDay, undefined, timeZone).getTime(), Date.now())),
+    endDate: combineDateAndTime(addDays(lastDay, 1), undefined, timeZone),
+    durationMinutes
+  };
+
+  // "Thursday afternoon", or an explicit range such as "between 2 and 5"
+  const partOfDay = parsePartOfDay(transcript, locale);
+  if (partOfDay) {
+    search.workdayStart = `${String(partOfDay[0]).padStart(2, '0')}:00`;
+    search.workdayEnd = `${String(partOfDay[1]).padStart(2, '0')}:00`;
+  } else if (dateTime.time && dateTime.endTime) {
+    search.workdayStart = format(dateTime.time, 'HH:mm');
+    search.workdayEnd = format(dateTime.endTime, 'HH:mm');
+  }
+
+  return search;
+}
+
+const RECURRENCE_WEEKDAYS: Record<string, Weekday> = {
+  sunday: 'SU', monday: 'MO', tuesday: 'TU', wednesday: 'WE',
+  thursday: 'TH', friday: 'FR', saturday: 'SA'
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, last: -1
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+
+const FREQUENCY_UNITS: Record<string, RecurrenceRule['freq']> = {
+  day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY'
+};
+
+// Turn phrases like "every other week", "every Tuesday and Thursday" or
+// "last Friday of the month" into an RRULE value
+function parseRecurrencePhrase(text: string): string | undefined {
+  if (!/\b(every|each|daily|weekly|biweekly|monthly|yearly|annually|recurring|repeat(s|ing)?)\b|\bof the month\b/.test(text)) {
+    return undefined;
+  }
+
+  const weekdays = Object.keys(RECURRENCE_WEEKDAYS);
+  const weekdayPattern = weekdays.join('|');
+  let rule: RecurrenceRule | undefined;
+
+  // "first Monday of each month", "last Friday of the month"
+  const ordinalMatch = text.match(
+    new RegExp(`\\b(first|second|third|fourth|last) (${weekdayPattern}) of (?:each|every|the) month\\b`)
+  );
+  // "on the 15th of every month", "every month on the 1st"
+  const monthDayMatch = text.match(/\bthe (\d{1,2})(?:st|nd|rd|th)\b/);
+  // "every 3 weeks", "every two months", "every other day"
+  const intervalMatch = text.match(/\bevery (other|\d+|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve) (day|week|month|year)s?\b/);
+  const namedDays = weekdays.filter(day => new RegExp(`\\b${day}s?\\b`).test(text));
+
+  if (ordinalMatch) {
+    rule = {
+      freq: 'MONTHLY',
+      interval: 1,
+      byDay: [{ weekday: RECURRENCE_WEEKDAYS[ordinalMatch[2]], n: ORDINALS[ordinalMatch[1]] }]
+    };
+  } else if (/\b(every|each) (month|monthly)\b|\bmonthly\b/.test(text) && monthDayMatch) {
+    rule = { freq: 'MONTHLY', interval: 1, byMonthDay: [parseInt(monthDayMatch[1])] };
+  } else if (/\bevery weekday\b|\bweekdays\b/.test(text)) {
+    rule = { freq: 'WEEKLY', interval: 1, byDay: ['MO', 'TU', 'WE', 'TH', 'FR'].map(weekday => ({ weekday: weekday as Weekday })) };
+  } else if (intervalMatch) {
+    const amount = intervalMatch[1] === 'other'
+      ? 2
+      : NUMBER_WORDS[intervalMatch[1]] ?? parseInt(intervalMatch[1]);
+    rule = { freq: FREQUENCY_UNITS[intervalMatch[2]], interval: amount };
+  } else if (/\bevery other\b/.test(text) && namedDays.length > 0) {
+    rule = { freq: 'WEEKLY', interval: 2 };
+  } else if (/\bbiweekly\b/.test(text)) {
+    rule = { freq: 'WEEKLY', interval: 2 };
+  } else if (/\bevery day\b|\bdaily\b/.test(text)) {
+    rule = { freq: 'DAILY', interval: 1 };
+  } else if (/\bevery month\b|\bmonthly\b/.test(text)) {
+    rule = { freq: 'MONTHLY', interval: 1 };
+  } else if (/\bevery year\b|\byearly\b|\bannually\b/.test(text)) {
+    rule = { freq: 'YEARLY', interval: 1 };
+  } else {
+    rule = { freq: 'WEEKLY', interval: 1 }; // Default
+  }
+
+  // "every Tuesday and Thursday", "every other Monday"
+  if (rule.freq === 'WEEKLY' && !rule.byDay && namedDays.length > 0) {
+    rule.byDay = namedDays.map(day => ({ weekday: RECURRENCE_WEEKDAYS[day] }));
+  }
+
+  // "... 10 times"
+  const countMatch = text.match(/\b(\d+) times\b/);
+  if (countMatch) {
+    rule.count = parseInt(countMatch[1]);
+  }
+
+  return formatRRule(rule);
+}
+
+export function generateEventFromVoiceCommand(command: VoiceCommand, timeZone?: string): {
   title: string;
   description?: string;
   startDate: Date;
+  endDate: Date | null; // null when no range or duration was spoken
+  allDay: boolean;
   isRecurring: boolean;
-  recurringPattern?: string;
+  recurrenceRule?: string;
 } | null {
   if (command.action !== 'create' || !command.title) {
     return null;
   }
 
-  let startDate = new Date();
-  
-  // Use parsed date/time if available
-  if (command.dateTime?.date) {
-    startDate = new Date(command.dateTime.date);
-    
-    if (command.dateTime.time) {
-      const time = command.dateTime.time;
-      startDate.setHours(time.getHours(), time.getMinutes(), 0, 0);
-    }
-  } else if (command.dateTime?.time) {
-    // Only time specified, use today
-    const time = command.dateTime.time;
-    startDate.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  const allDay = !!command.dateTime?.allDay;
+
+  // Use parsed date/time if available; with only a time, use today
+  let startDate = command.dateTime && allDay
+    ? getParsedAllDayRange(command.dateTime, timeZone).startDate
+    : combineDateAndTime(command.dateTime?.date, command.dateTime?.time, timeZone);
+  const unalignedStart = startDate;
+
+  // "First Monday of each month" should start on a first Monday, not just the next Monday
+  if (command.recurrenceRule) {
+    startDate = alignToRule(command.recurrenceRule, startDate, timeZone);
+  }
+
+  let endDate = command.dateTime ? getParsedEndDate(command.dateTime, startDate, timeZone) : null;
+  if (command.dateTime && allDay) {
+    const span = getParsedAllDayRange(command.dateTime, timeZone);
+    endDate = new Date(span.endDate.getTime() + startDate.getTime() - unalignedStart.getTime());
   }
 
   return {
     title: command.title,
     description: `Created via voice command: "${command.originalText}"`,
     startDate,
+    endDate,
+    allDay,
     isRecurring: command.isRecurring || false,
-    recurringPattern: command.recurringPattern
+    recurrenceRule: command.recurrenceRule
   };
 }
 
@@ -226,19 +497,208 @@ export function findEventsByQuery(events: any[], query: string): any[] {
   });
 }
 
-// Text-to-speech for voice feedback
-export function speakText(text: string): void {
+// A voice create, edit or delete held in the preview card until the user confirms it
+export interface VoiceActionDraft {
+  action: 'create' | 'edit' | 'delete';
+  originalText: string;
+  title: string; // The new event's title, or the target's title (changed when renaming)
+  startDate?: Date; // Start of the new event, or the target's new start when rescheduling
+  rescheduleTo?: ParsedDateTime; // The date and/or time said for the target, re-applied when another match is picked
+  endDate?: Date | null; // End of the new event
+  allDay?: boolean;
+  recurrenceRule?: string;
+  description?: string;
+  target?: Event; // The event being edited or deleted
+  candidates: Event[]; // Every event matching what was said, best first
+}
+
+export type VoiceFollowUp =
+  | { type: 'confirm' }
+  | { type: 'cancel' }
+  | { type: 'change'; draft: VoiceActionDraft }
+  | { type: 'unknown' };
+
+const YES_REGEX = /^(?:yes|yeah|yep|yup|sure|ok(?:ay)?|confirm|correct|right|do it|go ahead|sounds good|that's right|book it|save it|delete it)\b/;
+const NO_REGEX = /^(?:no|nope|nah|cancel|stop|never ?mind|forget it|don't)\b/;
+const CANDIDATE_ORDINALS: Record<string, number> = { first: 0, second: 1, third: 2, fourth: 3, fifth: 4 };
+
+// "Friday at 3 PM", or "Friday, all day", in the words of `locale`
+export function describeWhen(start: Date, allDay: boolean, timeZone: string, locale: Locale = DEFAULT_LOCALE): string {
+  const messages = getVoiceMessages(locale);
+  const zoned = toZonedTime(start, timeZone);
+  const day = describeDay(startOfDay(zoned), startOfDay(toZonedTime(new Date(), timeZone)), locale);
+  return allDay ? `${day}, ${messages.allDay}` : `${day} ${messages.at(zoned)}`;
+}
+
+// What confirming will do, e.g. "Create Dentist Friday at 3 PM" or "Move Team Sync to tomorrow at 4 PM"
+export function describeDraft(draft: VoiceActionDraft, timeZone: string, locale: Locale = DEFAULT_LOCALE): string {
+  const messages = getVoiceMessages(locale);
+  if (draft.action === 'create') {
+    const when = draft.startDate ? describeWhen(draft.startDate, !!draft.allDay, timeZone, locale) : undefined;
+    const repeats = draft.recurrenceRule ? messages.repeats(parseRRule(draft.recurrenceRule)) : undefined;
+    return messages.create(draft.title, when, repeats);
+  }
+
+  const target = draft.target!;
+  const targetWhen = describeWhen(new Date(target.startDate), !!target.allDay, target.allDay ? target.timezone ?? timeZone : timeZone, locale);
+  if (draft.action === 'delete') {
+    return messages.delete(target.title, targetWhen);
+  }
+
+  const changes: string[] = [];
+  if (draft.title !== target.title) changes.push(messages.rename(draft.title));
+  if (draft.startDate) changes.push(messages.move(describeWhen(draft.startDate, !!target.allDay, timeZone, locale)));
+  return messages.change(target.title, targetWhen, changes);
+}
+
+/**
+ * Read a spoken reply to the preview card: "yes", "no", "change the time to 4",
+ * "make it tomorrow", "call it team sync", or "the second one" to pick another match.
+ */
+export function parseVoiceFollowUp(spokenReply: string, draft: VoiceActionDraft, timeZone: string, locale: Locale = DEFAULT_LOCALE): VoiceFollowUp {
+  const reply = getVoiceGrammar(locale).toCanonical(spokenReply.replace(/[.,!?]+\s*$/, ''));
+  const text = reply.toLowerCase().replace(/[.,!?]/g, ' ').replace(/\s+/g, ' ').trim();
+
+  const pick = text.match(/\b(?:the )?(first|second|third|fourth|fifth|next|other) one\b/);
+  if (pick && draft.target && draft.candidates.length > 1) {
+    const current = draft.candidates.findIndex(event => event.id === draft.target!.id);
+    const index = pick[1] in CANDIDATE_ORDINALS ? CANDIDATE_ORDINALS[pick[1]] : (current + 1) % draft.candidates.length;
+    const target = draft.candidates[index];
+    if (target) {
+      return { type: 'change', draft: retargetDraft(draft, target, timeZone) };
+    }
+  }
+
+  if (draft.action !== 'delete') {
+    // Keep the spoken casing of a new title
+    const rename = reply.trim().match(/\b(?:(?:change|set) the (?:title|name) to|(?:call|name|rename) it)\s+(.+?)[.!?]*$/i);
+    if (rename) {
+      return { type: 'change', draft: { ...draft, title: rename[1] } };
+    }
+
+    const reschedule = text.match(/\b(?:change|move|set|make|push|switch) (?:it|the (?:time|date|day|start))(?: to| for)? (.+)$|^(?:no )?(?:actually|instead) (.+)$/);
+    if (reschedule) {
+      const spoken = (reschedule[1] ?? reschedule[2]).replace(/^(?:to|for) /, '');
+      // "change the time to 4": a bare number here is a time
+      const { at, sayAt } = getDateGrammar(locale);
+      const bare = spoken.replace(new RegExp(`^(?:${at}) `), '');
+      const parsed = parseNaturalLanguageDate(/^\d/.test(bare) || /\btime\b/.test(text) ? `${sayAt} ${bare}` : spoken, timeZone, new Date(), locale);
+      if (parsed.date || parsed.time) {
+        return { type: 'change', draft: rescheduleDraft(draft, parsed, timeZone) };
+      }
+    }
+  }
+
+  if (NO_REGEX.test(text)) return { type: 'cancel' };
+  if (YES_REGEX.test(text)) return { type: 'confirm' };
+  return { type: 'unknown' };
+}
+
+// Where `event` moves to for a spoken date and/or time, keeping whichever wasn't said
+export function rescheduledStart(event: Event, spoken: ParsedDateTime, timeZone: string): Date {
+  const currentStart = toZonedTime(new Date(event.startDate), timeZone);
+  return combineDateAndTime(spoken.date ?? currentStart, spoken.time ?? currentStart, timeZone);
+}
+
+// The draft aimed at another of the matching events, keeping a new title and the spoken move
+export function retargetDraft(draft: VoiceActionDraft, target: Event, timeZone: string): VoiceActionDraft {
+  const renamed = draft.title !== draft.target?.title;
+  return {
+    ...draft,
+    target,
+    title: renamed ? draft.title : target.title,
+    startDate: draft.rescheduleTo ? rescheduledStart(target, draft.rescheduleTo, timeZone) : draft.startDate
+  };
+}
+
+// The draft with its start moved; a new event keeps its length
+export function moveDraft(draft: VoiceActionDraft, startDate: Date): VoiceActionDraft {
+  if (draft.action !== 'create') {
+    return { ...draft, startDate, rescheduleTo: undefined };
+  }
+  const currentStart = draft.startDate ?? startDate;
+  const endDate = draft.endDate
+    ? new Date(startDate.getTime() + draft.endDate.getTime() - currentStart.getTime())
+    : draft.endDate;
+  return { ...draft, startDate, endDate };
+}
+
+// Move the draft to the spoken date and/or time, keeping whichever wasn't said
+function rescheduleDraft(draft: VoiceActionDraft, parsed: ParsedDateTime, timeZone: string): VoiceActionDraft {
+  const zonedStart = toZonedTime(draft.startDate ?? new Date(draft.target!.startDate), timeZone);
+  const startDate = combineDateAndTime(parsed.date ?? zonedStart, parsed.time ?? zonedStart, timeZone);
+
+  if (draft.action === 'edit') {
+    const rescheduleTo = {
+      ...parsed,
+      date: parsed.date ?? draft.rescheduleTo?.date,
+      time: parsed.time ?? draft.rescheduleTo?.time
+    };
+    return { ...draft, startDate, rescheduleTo };
+  }
+  // A time said for an all-day event makes it a timed one of the default length
+  if (draft.allDay && parsed.time) {
+    return { ...draft, startDate, endDate: null, allDay: false };
+  }
+  return moveDraft(draft, startDate);
+}
+
+// Spoken warning for a change that would double-book, e.g. "That overlaps with Team Sync at 3 PM"
+export function describeConflicts(conflicts: Event[], timeZone: string, locale: Locale = DEFAULT_LOCALE): string {
+  const [first, ...others] = conflicts;
+  const start = toZonedTime(new Date(first.startDate), timeZone);
+  const messages = getVoiceMessages(locale);
+  return messages.conflicts(first.title, messages.at(start), others.length);
+}
+
+// Spoken answer for a free-slot search, e.g. "You're free Thursday at 1 PM for an hour"
+export function describeFreeSlot(slot: FreeSlot, durationMinutes: number, timeZone: string, locale: Locale = DEFAULT_LOCALE): string {
+  const messages = getVoiceMessages(locale);
+  const start = toZonedTime(new Date(slot.startDate), timeZone);
+  const today = toZonedTime(new Date(), timeZone);
+  return messages.freeSlot(describeDay(start, startOfDay(today), locale), messages.at(start), messages.duration(durationMinutes));
+}
+
+// Events read out by name before the rest are just counted
+const MAX_READ_BACK = 5;
+
+// Spoken read-back, e.g. "You have three events Friday: standup at 9 AM, design review at 2:30 PM, and dinner at 7 PM"
+export function summarizeEvents(events: Event[], range: QueryRange, timeZone: string, locale: Locale = DEFAULT_LOCALE): string {
+  const messages = getVoiceMessages(locale);
+  if (events.length === 0) {
+    return messages.nothingOn(range.label);
+  }
+
+  const lastInstant = new Date(range.endDate.getTime() - 1);
+  const spansDays = !isSameDay(toZonedTime(range.startDate, timeZone), toZonedTime(lastInstant, timeZone));
+
+  const items = events.slice(0, MAX_READ_BACK).map(event => {
+    const start = toZonedTime(new Date(event.startDate), event.allDay ? event.timezone ?? timeZone : timeZone);
+    const day = spansDays ? ` ${format(start, messages.dayFormats.weekday, { locale: messages.dateLocale })}` : '';
+    return `${event.title}${day} ${event.allDay ? messages.allDay : messages.at(start)}`;
+  });
+  if (events.length > MAX_READ_BACK) {
+    items.push(messages.more(events.length - MAX_READ_BACK));
+  }
+
+  return messages.events(events.length, range.label, messages.list(items));
+}
+
+// Text-to-speech for voice feedback, in a voice for the user's language
+export function speakText(text: string, locale: Locale = DEFAULT_LOCALE): void {
   if ('speechSynthesis' in window) {
     const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = SPEECH_LANGUAGES[locale];
     utterance.rate = 0.8;
     utterance.pitch = 1;
     utterance.volume = 0.7;
     
-    // Use a more natural voice if available
+    // Use a more natural voice if available, preferring the user's region ("es-ES" over "es-MX")
     const voices = speechSynthesis.getVoices();
     const preferredVoice = voices.find(voice => 
-      voice.lang.startsWith('en') && voice.name.includes('Natural')
-    ) || voices.find(voice => voice.lang.startsWith('en'));
+      voice.lang.startsWith(locale) && voice.name.includes('Natural')
+    ) || voices.find(voice => voice.lang.replace('_', '-') === SPEECH_LANGUAGES[locale])
+      || voices.find(voice => voice.lang.startsWith(locale));
     
     if (preferredVoice) {
       utterance.voice = preferredVoice;
@@ -258,5 +718,9 @@ export function getVoiceCommandExamples(): string[] {
     "Add birthday party Saturday at 6 PM",
     "Create weekly one-on-one every Thursday 10 AM",
     "Schedule call with client tomorrow morning",
+    "Book workshop Friday from 2 to 3:30",
+    "Add gym session tomorrow at 6 PM for 45 minutes",
+    "Find me an hour with nothing on Thursday afternoon",
+    "What's on my calendar tomorrow?",
   ];
 }
@@ -1,29 +1,52 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { startOfDay } from "date-fns";
+import { Download, Settings, Trash2, Upload } from "lucide-react";
 import { CalendarView } from "@/components/CalendarView";
 import { EventSidebar } from "@/components/EventSidebar";
+import { TrashPanel } from "@/components/TrashPanel";
 import { VoiceInput } from "@/components/VoiceInput";
+import { HandsFreeToggle } from "@/components/HandsFreeToggle";
 import { EventModal } from "@/components/EventModal";
 import { NotificationToast } from "@/components/NotificationToast";
-import { RecurringEventDialog } from "@/components/RecurringEventDialog";
+import { RecurringEventDialog, type RecurringEventAction, type RecurringEventChoice } from "@/components/RecurringEventDialog";
 import { UpcomingEventsNotification } from "@/components/UpcomingEventsNotification";
-import { useEvents } from "@/hooks/useEvents";
-import { useAuth } from "@/hooks/useAuth";
-import { parseVoiceCommand, generateEventFromVoiceCommand, findEventsByQuery, speakText } from "@/lib/voiceUtils";
-import { type Event } from "@shared/schema";
+import { PreferencesDialog } from "@/components/PreferencesDialog";
+import { VoiceCommandPreview } from "@/components/VoiceCommandPreview";
+import { useEvents, fetchAvailability, fetchEventsInRange, saveWithConflictCheck } from "@/hooks/useEvents";
+import { useAuth, useLocale, useTimeZone } from "@/hooks/useAuth";
+import { useUndo } from "@/hooks/useUndo";
+import { parseVoiceCommand, interpretVoiceCommand, generateEventFromVoiceCommand, findEventsByQuery, speakText, describeConflicts, describeFreeSlot, describeDraft, describeWhen, parseVoiceFollowUp, rescheduledStart, summarizeEvents, type QueryRange, type VoiceActionDraft, type VoiceCommand } from "@/lib/voiceUtils";
+import { getVoiceMessages } from "@/lib/voiceMessages";
+import { moveEvent, type EventTimeChange } from "@/lib/calendarLayout";
+import { apiRequest } from "@/lib/queryClient";
+import { moveRuleToDate } from "@shared/recurrence";
+import { type Event, type InsertEvent } from "@shared/schema";
+
+// Other matching events offered in the voice preview when the best match is the wrong one
+const MAX_VOICE_CANDIDATES = 5;
 
 export default function Calendar() {
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [selectedDate, setSelectedDate] = useState<Date>(() => startOfDay(new Date()));
   const [showEventModal, setShowEventModal] = useState(false);
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  const [editingScope, setEditingScope] = useState<'current' | 'following' | undefined>();
+  const [showPreferences, setShowPreferences] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [highlightedRange, setHighlightedRange] = useState<QueryRange | null>(null);
+  const [voiceDraft, setVoiceDraft] = useState<VoiceActionDraft | null>(null);
+  const [isSavingVoiceDraft, setIsSavingVoiceDraft] = useState(false);
   const [notification, setNotification] = useState<{
     title: string;
     message: string;
     type: 'success' | 'error';
+    undoable?: boolean; // Offer to undo the change it reports
   } | null>(null);
   const [recurringDialog, setRecurringDialog] = useState<{
     isOpen: boolean;
     event: Event | null;
-    action: 'edit' | 'delete';
+    action: RecurringEventAction;
+    changes?: EventTimeChange;
+    title?: string; // A new title said along with a voice move, applied with it
   }>({
     isOpen: false,
     event: null,
@@ -31,9 +54,47 @@ export default function Calendar() {
   });
 
   const { user, logout } = useAuth();
-  const { events, isLoading, createEvent, updateEvent, deleteEvent } = useEvents();
+  const timeZone = useTimeZone();
+  const locale = useLocale();
+  const voiceMessages = getVoiceMessages(locale);
+  const { events, isLoading, createEvent, updateEvent, updateEventInstance, deleteEventInstance, updateFollowingEvents, deleteFollowingEvents, deleteEvent, importCalendar } = useEvents();
+  const undoStack = useUndo();
+
+  // Ctrl+Z undoes the last change, Ctrl+Shift+Z or Ctrl+Y redoes it; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        handleUndo(key === 'y' || e.shiftKey);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Take back (or reapply) the last change made to the calendar, saying what it was when asked by voice
+  const handleUndo = async (redo = false, speak = false) => {
+    try {
+      const entry = await (redo ? undoStack.redo() : undoStack.undo());
+      const message = entry
+        ? (redo ? voiceMessages.redone : voiceMessages.undone)(entry.label)
+        : redo ? voiceMessages.nothingToRedo : voiceMessages.nothingToUndo;
+      setNotification({ title: redo ? voiceMessages.titles.redo : voiceMessages.titles.undo, message, type: entry ? 'success' : 'error' });
+      if (speak) speakText(message, locale);
+    } catch (error) {
+      console.error('Undo error:', error);
+      showNotification(voiceMessages.titles.error, voiceMessages.undoFailed(redo), 'error');
+    }
+  };
 
   const handleDateSelect = (date: Date) => {
+    setHighlightedRange(null);
     setSelectedDate(date);
     setShowEventModal(true);
   };
@@ -54,176 +115,374 @@ export default function Calendar() {
     }
   };
 
+  // Drag-and-drop and resize in the calendar grid
+  const handleEventReschedule = async (event: Event, changes: EventTimeChange) => {
+    if (event.isRecurring || event.id.includes('-recur-')) {
+      setRecurringDialog({ isOpen: true, event, action: 'move', changes });
+      return;
+    }
+
+    try {
+      const updated = await saveWithConflictCheck(
+        force => updateEvent.mutateAsync({ id: event.id, data: changes, force }),
+        conflicts => confirmOverlap(conflicts)
+      );
+      if (!updated) return;
+      showNotification("Event Rescheduled", `"${event.title}" moved to ${formatEventStart(changes.startDate)}`);
+    } catch (error) {
+      console.error('Error rescheduling event:', error);
+      showNotification("Error", "Failed to reschedule event", 'error');
+    }
+  };
+
+  // Move a single occurrence, it and the later ones, or shift the whole series by the same
+  // amount. Resolves to false if the user decided not to double-book.
+  const applyRecurringReschedule = async (event: Event, changes: EventTimeChange, choice: RecurringEventChoice, title?: string) => {
+    const baseEventId = event.id.split('-recur-')[0];
+    const renamed = title !== undefined && title !== event.title ? { title } : {};
+
+    if (choice !== 'all') {
+      const occurrence = { id: baseEventId, instanceDate: new Date(event.startDate), data: { ...changes, ...renamed } };
+      const updated = await saveWithConflictCheck<unknown>(
+        force => choice === 'current'
+          ? updateEventInstance.mutateAsync({ ...occurrence, force })
+          : updateFollowingEvents.mutateAsync({ ...occurrence, force }),
+        conflicts => confirmOverlap(conflicts)
+      );
+      return updated !== null;
+    }
+
+    const response = await apiRequest("GET", `/api/events/${baseEventId}`);
+    const baseEvent: Event = await response.json();
+    const offset = changes.startDate.getTime() - new Date(event.startDate).getTime();
+    const startDate = new Date(new Date(baseEvent.startDate).getTime() + offset);
+    const endDate = changes.endDate
+      ? new Date(startDate.getTime() + changes.endDate.getTime() - changes.startDate.getTime())
+      : null;
+
+    const updated = await saveWithConflictCheck(
+      force => updateEvent.mutateAsync({
+        id: baseEventId,
+        data: {
+          ...renamed,
+          startDate,
+          endDate,
+          recurrenceRule: baseEvent.recurrenceRule
+            ? moveRuleToDate(baseEvent.recurrenceRule, new Date(event.startDate), changes.startDate, baseEvent.timezone ?? timeZone)
+            : null
+        },
+        force
+      }),
+      conflicts => confirmOverlap(conflicts)
+    );
+    return updated !== null;
+  };
+
+  // Warn before double-booking and let the user book anyway
+  const confirmOverlap = (conflicts: Event[], speak = false) => {
+    const question = voiceMessages.question(`${describeConflicts(conflicts, timeZone, locale)}, ${voiceMessages.bookAnyway}`);
+    if (speak) speakText(question, locale);
+    return window.confirm(question);
+  };
+
+  const formatEventStart = (date: Date) =>
+    `${date.toLocaleDateString([], { timeZone })} at ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })}`;
+
   const handleEventModalClose = () => {
     setShowEventModal(false);
     setEditingEvent(null);
+    setEditingScope(undefined);
+  };
+
+  // Answer "find me an hour on Thursday afternoon" and offer to book the first free slot
+  const handleFindSlot = async (command: VoiceCommand) => {
+    const search = command.slotSearch!;
+    const { durationMinutes, slots } = await fetchAvailability({ ...search, timezone: timeZone });
+
+    if (slots.length === 0) {
+      setNotification({ title: voiceMessages.titles.noFreeTime, message: voiceMessages.noFreeTime, type: 'error' });
+      speakText(voiceMessages.noFreeTime, locale);
+      return;
+    }
+
+    const title = command.title || "Busy";
+    const question = voiceMessages.bookSlot(describeFreeSlot(slots[0], durationMinutes, timeZone, locale));
+    speakText(question, locale);
+    if (!window.confirm(question)) return;
+
+    const startDate = new Date(slots[0].startDate);
+    const created = await saveWithConflictCheck(
+      force => createEvent.mutateAsync({
+        title,
+        description: `Created via voice command: "${command.originalText}"`,
+        startDate,
+        endDate: new Date(startDate.getTime() + durationMinutes * 60 * 1000),
+        timezone: timeZone,
+        isRecurring: false,
+        recurrenceRule: null,
+        force
+      }),
+      conflicts => confirmOverlap(conflicts, true)
+    );
+    if (!created) return;
+
+    setNotification({
+      title: voiceMessages.titles.created,
+      message: voiceMessages.booked(`${title} ${describeWhen(startDate, false, timeZone, locale)}`),
+      type: 'success',
+      undoable: true
+    });
+    speakText(voiceMessages.booked(title), locale);
+  };
+
+  // Read back what's on for the days asked about and mark them in the calendar
+  const handleQuery = async (range: QueryRange) => {
+    const found = await fetchEventsInRange(range.startDate, range.endDate);
+    // The range endpoint also returns events starting right at its end
+    const summary = summarizeEvents(found.filter(event => new Date(event.startDate) < range.endDate), range, timeZone, locale);
+
+    setHighlightedRange(range);
+    setNotification({ title: voiceMessages.titles.calendar, message: summary, type: 'success' });
+    speakText(summary, locale);
+  };
+
+  // Show what a voice command was understood as; nothing changes until it's confirmed
+  const previewVoiceDraft = (draft: VoiceActionDraft) => {
+    setVoiceDraft(draft);
+    speakText(voiceMessages.confirmDraft(describeDraft(draft, timeZone, locale)), locale);
+  };
+
+  const handleVoiceReply = (reply: string) => {
+    // Hands-free listening can hear a reply the preview's microphone also recorded
+    if (!voiceDraft || isSavingVoiceDraft) return;
+
+    const followUp = parseVoiceFollowUp(reply, voiceDraft, timeZone, locale);
+    if (followUp.type === 'confirm') {
+      confirmVoiceDraft(voiceDraft);
+    } else if (followUp.type === 'cancel') {
+      setVoiceDraft(null);
+      speakText(voiceMessages.cancelled, locale);
+    } else if (followUp.type === 'change') {
+      setVoiceDraft(followUp.draft);
+      speakText(voiceMessages.question(describeDraft(followUp.draft, timeZone, locale)), locale);
+    } else {
+      speakText(voiceMessages.replyHelp, locale);
+    }
+  };
+
+  const confirmVoiceDraft = async (draft: VoiceActionDraft) => {
+    setIsSavingVoiceDraft(true);
+    try {
+      if (await commitVoiceDraft(draft)) {
+        setVoiceDraft(null);
+      }
+    } catch (error) {
+      console.error('Voice command error:', error);
+      setNotification({ title: voiceMessages.titles.error, message: voiceMessages.commandFailed, type: 'error' });
+    } finally {
+      setIsSavingVoiceDraft(false);
+    }
+  };
+
+  // Carry out a confirmed voice command. Resolves to false, leaving the preview open, if
+  // the user decided not to double-book.
+  const commitVoiceDraft = async (draft: VoiceActionDraft): Promise<boolean> => {
+    if (draft.action === 'create') {
+      // Create the event, checking with the user first if it double-books
+      const created = await saveWithConflictCheck(
+        force => createEvent.mutateAsync({
+          title: draft.title,
+          description: draft.description || null,
+          startDate: draft.startDate!,
+          endDate: draft.endDate ?? null,
+          allDay: draft.allDay,
+          timezone: timeZone,
+          isRecurring: !!draft.recurrenceRule,
+          recurrenceRule: draft.recurrenceRule || null,
+          force
+        }),
+        conflicts => confirmOverlap(conflicts, true)
+      );
+      if (!created) {
+        speakText(voiceMessages.notBooked(draft.title), locale);
+        return false;
+      }
+
+      const message = voiceMessages.created(draft.title);
+      setNotification({ title: voiceMessages.titles.created, message, type: 'success', undoable: true });
+      speakText(message, locale);
+      return true;
+    }
+
+    const target = draft.target!;
+    const isRecurringEvent = target.isRecurring || target.id.includes('-recur-');
+    const eventId = target.id.split('-recur-')[0];
+
+    if (draft.action === 'delete') {
+      if (isRecurringEvent) {
+        setRecurringDialog({ isOpen: true, event: target, action: 'delete' });
+        return true;
+      }
+
+      await deleteEvent.mutateAsync(eventId);
+      const message = voiceMessages.deleted(target.title);
+      setNotification({ title: voiceMessages.titles.deleted, message, type: 'success', undoable: true });
+      speakText(message, locale);
+      return true;
+    }
+
+    const renamed = draft.title !== target.title;
+    if (draft.startDate && isRecurringEvent) {
+      // Ask whether the move, and any new title, is for this occurrence, the following ones or all of them
+      setRecurringDialog({
+        isOpen: true,
+        event: target,
+        action: 'move',
+        changes: moveEvent(target, draft.startDate),
+        title: renamed ? draft.title : undefined
+      });
+      return true;
+    }
+
+    // Keep the event's length, and check with the user first if it double-books
+    const updated = await saveWithConflictCheck(
+      force => updateEvent.mutateAsync({
+        id: eventId,
+        data: {
+          ...(renamed ? { title: draft.title } : {}),
+          ...(draft.startDate ? moveEvent(target, draft.startDate) : {})
+        },
+        force
+      }),
+      conflicts => confirmOverlap(conflicts, true)
+    );
+    if (!updated) {
+      speakText(voiceMessages.notMoved(target.title), locale);
+      return false;
+    }
+
+    const message = draft.startDate
+      ? voiceMessages.rescheduled(describeWhen(draft.startDate, !!target.allDay, timeZone, locale))
+      : voiceMessages.renamed(draft.title);
+    setNotification({ title: voiceMessages.titles.updated, message, type: 'success', undoable: true });
+    speakText(message, locale);
+    return true;
   };
 
   const handleVoiceCommand = async (command: string) => {
+    // While a command is waiting for confirmation, what's said next answers it
+    if (voiceDraft) {
+      handleVoiceReply(command);
+      return;
+    }
+
     try {
       // Parse the voice command
-      const parsedCommand = parseVoiceCommand(command);
+      const parsedCommand = await interpretVoiceCommand(command, timeZone, locale);
       
-      if (parsedCommand.action === 'create' && parsedCommand.title) {
+      if (parsedCommand.action === 'undo' || parsedCommand.action === 'redo') {
+        await handleUndo(parsedCommand.action === 'redo', true);
+      } else if (parsedCommand.action === 'find-slot' && parsedCommand.slotSearch) {
+        await handleFindSlot(parsedCommand);
+      } else if (parsedCommand.action === 'query' && parsedCommand.queryRange) {
+        await handleQuery(parsedCommand.queryRange);
+      } else if (parsedCommand.action === 'create' && parsedCommand.title) {
         // Generate event from voice command
-        const eventData = generateEventFromVoiceCommand(parsedCommand);
+        const eventData = generateEventFromVoiceCommand(parsedCommand, timeZone);
         
         if (eventData) {
-          // Create the event
-          await createEvent.mutateAsync({
+          previewVoiceDraft({
+            action: 'create',
+            originalText: command,
             title: eventData.title,
-            description: eventData.description || null,
+            description: eventData.description,
             startDate: eventData.startDate,
-            endDate: null,
-            isRecurring: eventData.isRecurring,
-            recurringPattern: eventData.recurringPattern || null
+            endDate: eventData.endDate,
+            allDay: eventData.allDay,
+            recurrenceRule: eventData.recurrenceRule,
+            candidates: []
           });
-
-          const message = `"${eventData.title}" has been added to your calendar`;
-          setNotification({
-            title: "Event Created via Voice",
-            message,
-            type: 'success'
-          });
-          speakText(`Event created: ${eventData.title}`);
         }
-      } else if (parsedCommand.action === 'edit' && parsedCommand.eventQuery) {
+      } else if ((parsedCommand.action === 'edit' || parsedCommand.action === 'delete') && parsedCommand.eventQuery) {
         // Find matching events
         const matchingEvents = findEventsByQuery(events || [], parsedCommand.eventQuery);
         
         if (matchingEvents.length === 0) {
-          const message = `No events found matching "${parsedCommand.eventQuery}"`;
-          setNotification({
-            title: "Event Not Found",
-            message,
-            type: 'error'
-          });
-          speakText(message);
+          const message = voiceMessages.noMatches(parsedCommand.eventQuery);
+          setNotification({ title: voiceMessages.titles.notFound, message, type: 'error' });
+          speakText(message, locale);
           return;
         }
         
-        const eventToEdit = matchingEvents[0]; // Use the most relevant match
+        const target: Event = matchingEvents[0]; // Use the most relevant match; the preview offers the others
+        const candidates: Event[] = matchingEvents.slice(0, MAX_VOICE_CANDIDATES);
         
-        if (parsedCommand.newTitle) {
-          // Edit the event title
-          const isRecurringInstance = eventToEdit.id.includes('-recur-');
-          const eventId = isRecurringInstance ? eventToEdit.id.split('-recur-')[0] : eventToEdit.id;
-          
-          await updateEvent.mutateAsync({
-            id: eventId,
-            data: { title: parsedCommand.newTitle }
-          });
-          
-          const message = `Event "${eventToEdit.title}" changed to "${parsedCommand.newTitle}"`;
-          setNotification({
-            title: "Event Updated via Voice",
-            message,
-            type: 'success'
-          });
-          speakText(`Event updated to ${parsedCommand.newTitle}`);
-        } else if (parsedCommand.dateTime?.date || parsedCommand.dateTime?.time) {
-          // Reschedule the event
-          const isRecurringInstance = eventToEdit.id.includes('-recur-');
-          const eventId = isRecurringInstance ? eventToEdit.id.split('-recur-')[0] : eventToEdit.id;
-          
-          let newStartDate = new Date(eventToEdit.startDate);
-          
-          // Update date if provided
-          if (parsedCommand.dateTime.date) {
-            const newDate = new Date(parsedCommand.dateTime.date);
-            newStartDate.setFullYear(newDate.getFullYear(), newDate.getMonth(), newDate.getDate());
-          }
-          
-          // Update time if provided
-          if (parsedCommand.dateTime.time) {
-            const newTime = new Date(parsedCommand.dateTime.time);
-            newStartDate.setHours(newTime.getHours(), newTime.getMinutes(), 0, 0);
-          }
-          
-          await updateEvent.mutateAsync({
-            id: eventId,
-            data: { startDate: newStartDate }
-          });
+        if (parsedCommand.action === 'delete') {
+          previewVoiceDraft({ action: 'delete', originalText: command, title: target.title, target, candidates });
+        } else if (parsedCommand.newTitle || parsedCommand.dateTime?.date || parsedCommand.dateTime?.time) {
+          // Keep whichever of the date and time wasn't mentioned
+          const rescheduleTo = parsedCommand.dateTime?.date || parsedCommand.dateTime?.time ? parsedCommand.dateTime : undefined;
           
-          const message = `Event "${eventToEdit.title}" rescheduled to ${newStartDate.toLocaleDateString()} at ${newStartDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
-          setNotification({
-            title: "Event Rescheduled via Voice",
-            message,
-            type: 'success'
+          previewVoiceDraft({
+            action: 'edit',
+            originalText: command,
+            title: parsedCommand.newTitle ?? target.title,
+            startDate: rescheduleTo && rescheduledStart(target, rescheduleTo, timeZone),
+            rescheduleTo,
+            target,
+            candidates
           });
-          speakText(`Event rescheduled to ${newStartDate.toLocaleDateString()} at ${newStartDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
         } else {
           // Open edit modal for the event
-          handleEventEdit(eventToEdit);
-          speakText(`Opening edit dialog for ${eventToEdit.title}`);
-        }
-      } else if (parsedCommand.action === 'delete' && parsedCommand.eventQuery) {
-        // Find matching events to delete
-        const matchingEvents = findEventsByQuery(events || [], parsedCommand.eventQuery);
-        
-        if (matchingEvents.length === 0) {
-          const message = `No events found matching "${parsedCommand.eventQuery}"`;
-          setNotification({
-            title: "Event Not Found",
-            message,
-            type: 'error'
-          });
-          speakText(message);
-          return;
-        }
-        
-        const eventToDelete = matchingEvents[0]; // Use the most relevant match
-        const isRecurringInstance = eventToDelete.id.includes('-recur-');
-        const eventId = isRecurringInstance ? eventToDelete.id.split('-recur-')[0] : eventToDelete.id;
-        
-        // Check if it's a recurring event for voice deletion
-        const isRecurringEvent = eventToDelete.isRecurring || eventToDelete.id.includes('-recur-');
-        
-        if (isRecurringEvent) {
-          setRecurringDialog({
-            isOpen: true,
-            event: eventToDelete,
-            action: 'delete'
-          });
-        } else {
-          // Confirm deletion via voice for non-recurring events
-          if (window.confirm(`Delete "${eventToDelete.title}"? Say yes to confirm.`)) {
-            await deleteEvent.mutateAsync(eventId);
-            
-            const message = `"${eventToDelete.title}" has been deleted from your calendar`;
-            setNotification({
-              title: "Event Deleted via Voice",
-              message,
-              type: 'success'
-            });
-            speakText(`Event deleted: ${eventToDelete.title}`);
-          }
+          handleEventEdit(target);
+          speakText(voiceMessages.openingEdit(target.title), locale);
         }
       } else {
-        let helpMessage = "Try saying something like:";
-        if (parsedCommand.action === 'create') {
-          helpMessage += " 'Schedule meeting tomorrow at 2 PM'";
-        } else if (parsedCommand.action === 'edit') {
-          helpMessage += " 'Edit meeting to lunch' or 'Change dentist appointment'";
-        } else if (parsedCommand.action === 'delete') {
-          helpMessage += " 'Delete meeting' or 'Remove dentist appointment'";
-        } else {
-          helpMessage += " 'Schedule meeting', 'Edit appointment', or 'Delete event'";
-        }
-        
+        const { action } = parsedCommand;
         setNotification({
-          title: "Voice Command Not Recognized",
-          message: helpMessage,
+          title: voiceMessages.titles.notUnderstood,
+          message: voiceMessages.commandHelp[action === 'create' || action === 'edit' || action === 'delete' ? action : 'other'],
           type: 'error'
         });
       }
     } catch (error) {
       console.error('Voice command error:', error);
-      setNotification({
-        title: "Voice Command Error",
-        message: "There was an error processing your voice command",
-        type: 'error'
-      });
+      setNotification({ title: voiceMessages.titles.error, message: voiceMessages.commandFailed, type: 'error' });
+    }
+  };
+
+  const handleCalendarImport = async (file: File) => {
+    try {
+      // Preview first so the user can see what will be created
+      const preview = await importCalendar.mutateAsync({ file, dryRun: true });
+      if (preview.imported.length === 0) {
+        showNotification(
+          "Nothing to Import",
+          preview.duplicates.length > 0
+            ? `All ${preview.duplicates.length} events are already in your calendar`
+            : "No events found in that file",
+          'error'
+        );
+        return;
+      }
+
+      const skipped = preview.duplicates.length + preview.errors.length;
+      const summary = `Import ${preview.imported.length} event${preview.imported.length === 1 ? '' : 's'} from ${file.name}?`
+        + (skipped > 0 ? ` ${skipped} will be skipped (duplicates or unsupported).` : '');
+      if (!window.confirm(summary)) return;
+
+      const result = await importCalendar.mutateAsync({ file, dryRun: false });
+      showNotification(
+        "Calendar Imported",
+        `${result.imported.length} event${result.imported.length === 1 ? '' : 's'} added to your calendar`
+      );
+    } catch (error) {
+      console.error('Calendar import error:', error);
+      showNotification(
+        "Import Failed",
+        error instanceof Error ? error.message : "Failed to import calendar",
+        'error'
+      );
     }
   };
 
@@ -231,15 +490,36 @@ export default function Calendar() {
     setNotification({ title, message, type });
   };
 
-  const handleRecurringChoice = async (choice: 'current' | 'all') => {
-    const { event, action } = recurringDialog;
+  // "This and following" from the first occurrence is the whole series
+  const isFirstOccurrence = async (event: Event) => {
+    const response = await apiRequest("GET", `/api/events/${event.id.split('-recur-')[0]}`);
+    const baseEvent: Event = await response.json();
+    return new Date(baseEvent.startDate) >= new Date(event.startDate);
+  };
+
+  const handleRecurringChoice = async (selected: RecurringEventChoice) => {
+    const { event, action, changes, title } = recurringDialog;
     if (!event) return;
 
     try {
-      if (action === 'edit') {
-        if (choice === 'current') {
-          // Edit only this occurrence - mark it for instance editing
-          setEditingEvent({ ...event, isRecurringInstance: true } as any);
+      const choice = selected === 'following' && await isFirstOccurrence(event) ? 'all' : selected;
+
+      if (action === 'move' && changes) {
+        if (!await applyRecurringReschedule(event, changes, choice, title)) return;
+        const shownTitle = title ?? event.title;
+        showNotification(
+          voiceMessages.titles.rescheduled,
+          choice === 'current'
+            ? voiceMessages.occurrenceMoved(shownTitle, describeWhen(changes.startDate, !!event.allDay, timeZone, locale))
+            : choice === 'following'
+              ? voiceMessages.followingMoved(shownTitle)
+              : voiceMessages.seriesMoved(shownTitle)
+        );
+      } else if (action === 'edit') {
+        if (choice !== 'all') {
+          // Edit only this occurrence, or it and the ones after it
+          setEditingEvent(event);
+          setEditingScope(choice);
           setShowEventModal(true);
         } else {
           // Edit all events in series
@@ -256,23 +536,22 @@ export default function Calendar() {
           // Delete only this occurrence
           const isRecurringInstance = event.id.includes('-recur-');
           if (isRecurringInstance) {
-            const parentEventId = event.id.split('-recur-')[0];
-            const response = await fetch(`/api/events/${event.id}?instanceDate=${event.startDate}`, {
-              method: 'DELETE'
+            await deleteEventInstance.mutateAsync({
+              id: event.id.split('-recur-')[0],
+              instanceDate: new Date(event.startDate)
             });
-            
-            if (response.ok) {
-              window.location.reload(); // Refresh to show updated events
-            }
           } else {
             await deleteEvent.mutateAsync(event.id);
           }
           
-          showNotification(
-            "Event Deleted",
-            `"${event.title}" occurrence deleted`,
-            'success'
-          );
+          showNotification(voiceMessages.titles.deleted, voiceMessages.occurrenceDeleted(event.title));
+        } else if (choice === 'following') {
+          await deleteFollowingEvents.mutateAsync({
+            id: event.id.split('-recur-')[0],
+            instanceDate: new Date(event.startDate)
+          });
+
+          showNotification(voiceMessages.titles.deleted, voiceMessages.followingDeleted(event.title));
         } else {
           // Delete all events in series
           const baseEventId = event.id.includes('-recur-') 
@@ -280,20 +559,12 @@ export default function Calendar() {
             : event.id;
           await deleteEvent.mutateAsync(baseEventId);
           
-          showNotification(
-            "Recurring Series Deleted",
-            `All "${event.title}" events deleted`,
-            'success'
-          );
+          showNotification(voiceMessages.titles.deleted, voiceMessages.seriesDeleted(event.title));
         }
       }
     } catch (error) {
       console.error('Error handling recurring event:', error);
-      showNotification(
-        "Error",
-        "Failed to update recurring event",
-        'error'
-      );
+      showNotification(voiceMessages.titles.error, voiceMessages.recurringFailed, 'error');
     } finally {
       setRecurringDialog({ isOpen: false, event: null, action: 'edit' });
     }
@@ -323,10 +594,62 @@ export default function Calendar() {
               <h1 className="text-xl font-medium">VoiceCalendar</h1>
             </div>
             
-            <VoiceInput 
-          onVoiceCommand={handleVoiceCommand} 
-          onShowEventModal={() => setShowEventModal(true)}
-        />
+            <div className="flex items-center space-x-3">
+              <label
+                className="flex items-center text-sm text-white/80 hover:text-white cursor-pointer"
+                title="Import calendar (.ics)"
+                data-testid="import-calendar-label"
+              >
+                <Upload className="w-4 h-4 mr-1" />
+                Import
+                <input
+                  type="file"
+                  accept=".ics,text/calendar"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleCalendarImport(file);
+                    e.target.value = '';
+                  }}
+                  data-testid="import-calendar-input"
+                />
+              </label>
+              <a
+                href="/api/calendar.ics"
+                download="calendar.ics"
+                className="flex items-center text-sm text-white/80 hover:text-white"
+                title="Export calendar (.ics)"
+                data-testid="export-calendar-link"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                Export
+              </a>
+              <button
+                onClick={() => setShowTrash(!showTrash)}
+                className="flex items-center text-sm text-white/80 hover:text-white"
+                title="Trash"
+                data-testid="open-trash"
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                Trash
+              </button>
+              <button
+                onClick={() => setShowPreferences(true)}
+                className="flex items-center text-sm text-white/80 hover:text-white"
+                title={`Preferences (${timeZone})`}
+                data-testid="open-preferences"
+              >
+                <Settings className="w-4 h-4" />
+              </button>
+              <HandsFreeToggle
+                onVoiceCommand={handleVoiceCommand}
+                awaitingReply={!!voiceDraft}
+              />
+              <VoiceInput 
+                onVoiceCommand={handleVoiceCommand} 
+                onShowEventModal={() => setShowEventModal(true)}
+              />
+            </div>
           </div>
         </header>
 
@@ -347,41 +670,38 @@ export default function Calendar() {
             onQuickAdd={async (title) => {
               try {
                 // Try to parse as voice command first
-                const parsedCommand = parseVoiceCommand(title);
-                
-                if (parsedCommand.action === 'create' && parsedCommand.title) {
-                  const eventData = generateEventFromVoiceCommand(parsedCommand);
-                  if (eventData) {
-                    await createEvent.mutateAsync({
+                const parsedCommand = parseVoiceCommand(title, timeZone, locale);
+                const eventData = parsedCommand.action === 'create' && parsedCommand.title
+                  ? generateEventFromVoiceCommand(parsedCommand, timeZone)
+                  : null;
+
+                const data: InsertEvent = eventData
+                  ? {
                       title: eventData.title,
                       description: eventData.description || null,
                       startDate: eventData.startDate,
-                      endDate: null,
+                      endDate: eventData.endDate,
+                      allDay: eventData.allDay,
+                      timezone: timeZone,
                       isRecurring: eventData.isRecurring,
-                      recurringPattern: eventData.recurringPattern || null
-                    });
-                  } else {
-                    // Fallback to simple event creation
-                    await createEvent.mutateAsync({
+                      recurrenceRule: eventData.recurrenceRule || null
+                    }
+                  : {
+                      // Fallback to simple text event creation
                       title,
                       description: null,
                       startDate: new Date(),
                       endDate: null,
+                      timezone: timeZone,
                       isRecurring: false,
-                      recurringPattern: null
-                    });
-                  }
-                } else {
-                  // Simple text event creation
-                  await createEvent.mutateAsync({
-                    title,
-                    description: null,
-                    startDate: new Date(),
-                    endDate: null,
-                    isRecurring: false,
-                    recurringPattern: null
-                  });
-                }
+                      recurrenceRule: null
+                    };
+
+                const created = await saveWithConflictCheck(
+                  force => createEvent.mutateAsync({ ...data, force }),
+                  conflicts => confirmOverlap(conflicts)
+                );
+                if (!created) return;
 
                 setNotification({
                   title: "Event Added",
@@ -398,18 +718,28 @@ export default function Calendar() {
               }
             }}
           />
+
+          {showTrash && (
+            <TrashPanel
+              onClose={() => setShowTrash(false)}
+              onRestored={(event) => showNotification("Event Restored", `"${event.title}" is back in your calendar`)}
+            />
+          )}
           
           <CalendarView
             selectedDate={selectedDate}
             events={events || []}
             onDateSelect={handleDateSelect}
             onEventClick={handleEventEdit}
+            onEventReschedule={handleEventReschedule}
+            highlightedRange={highlightedRange}
           />
         </div>
 
         {showEventModal && (
           <EventModal
             event={editingEvent}
+            recurringScope={editingScope}
             selectedDate={selectedDate}
             onClose={handleEventModalClose}
             onSuccess={(title) => {
@@ -423,10 +753,24 @@ export default function Calendar() {
 
         {notification && (
           <NotificationToast
+            key={`${notification.title}:${notification.message}`}
             title={notification.title}
             message={notification.message}
             type={notification.type}
             onClose={() => setNotification(null)}
+            action={notification.undoable ? { label: "Undo", onClick: () => handleUndo() } : undefined}
+          />
+        )}
+
+        {voiceDraft && (
+          <VoiceCommandPreview
+            draft={voiceDraft}
+            timeZone={timeZone}
+            isSaving={isSavingVoiceDraft}
+            onChange={setVoiceDraft}
+            onConfirm={() => confirmVoiceDraft(voiceDraft)}
+            onCancel={() => setVoiceDraft(null)}
+            onVoiceReply={handleVoiceReply}
           />
         )}
 
@@ -439,6 +783,11 @@ export default function Calendar() {
         />
 
         <UpcomingEventsNotification events={events || []} />
+
+        <PreferencesDialog
+          isOpen={showPreferences}
+          onClose={() => setShowPreferences(false)}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,11 @@
+import { defineConfig } from "drizzle-kit";
+
+// Migrations for the SQLite storage (STORAGE=sqlite); drizzle.config.ts covers Postgres
+export default defineConfig({
+  out: "./migrations/sqlite",
+  schema: "./shared/sqliteSchema.ts",
+  dialect: "sqlite",
+  dbCredentials: {
+    url: process.env.SQLITE_PATH ?? "data/calendar.db",
+  },
+});
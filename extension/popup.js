@@ -43,6 +43,10 @@ class CalendarExtension {
     // Set up event listeners
     const retryBtn = document.getElementById('retry-btn');
     const openServerBtn = document.getElementById('open-server-btn');
+    const handsFreeBtns = [
+      document.getElementById('hands-free-btn'),
+      document.getElementById('header-hands-free-btn')
+    ];
     
     if (retryBtn) {
       retryBtn.addEventListener('click', () => this.retryConnection());
@@ -52,6 +56,12 @@ class CalendarExtension {
       openServerBtn.addEventListener('click', () => this.openServerInTab());
     }
 
+    handsFreeBtns.forEach(button => {
+      if (button) {
+        button.addEventListener('click', () => this.openHandsFreeTab());
+      }
+    });
+
     // Set up debug info display
     this.setupDebugInfo();
   }
@@ -321,6 +331,9 @@ class CalendarExtension {
       const openBtn = document.getElementById('open-server-btn');
       
       if (retryBtn) retryBtn.textContent = '🔄 Check Again';
+      
+      const handsFreeBtn = document.getElementById('hands-free-btn');
+      if (handsFreeBtn) handsFreeBtn.style.display = 'inline-block';
       if (openBtn) {
         openBtn.textContent = '📅 Open Calendar';
         openBtn.style.background = '#10b981';
@@ -372,6 +385,33 @@ class CalendarExtension {
     }
   }
 
+  openHandsFreeTab() {
+    // The popup closes as soon as it loses focus and the background worker can't use the
+    // microphone, so the calendar listens from its own pinned tab
+    const url = `${this.serverUrl}/?handsfree=on`;
+
+    if (typeof chrome === 'undefined' || !chrome.tabs || !chrome.tabs.create) {
+      window.open(url, '_blank');
+      return;
+    }
+
+    chrome.tabs.query({ url: `${this.serverUrl}/*` }, (tabs) => {
+      const existing = (tabs || []).find(tab => tab.url && tab.url.includes('handsfree=on'));
+      if (existing) {
+        // Already listening; show it so a paused tab can be resumed
+        chrome.tabs.update(existing.id, { active: true });
+        return;
+      }
+
+      chrome.tabs.create({ url, pinned: true, active: true }, () => {
+        if (chrome.runtime.lastError) {
+          console.error('Chrome tabs API error:', chrome.runtime.lastError);
+          window.open(url, '_blank');
+        }
+      });
+    });
+  }
+
   fallbackOpenUrl() {
     // Fallback: try to open in a new window
     try {
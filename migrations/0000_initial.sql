@@ -0,0 +1,38 @@
+CREATE TABLE IF NOT EXISTS "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"timezone" text DEFAULT 'UTC' NOT NULL,
+	"default_event_duration" integer DEFAULT 60 NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"start_date" timestamp NOT NULL,
+	"end_date" timestamp,
+	"timezone" text,
+	"all_day" boolean DEFAULT false,
+	"is_recurring" boolean DEFAULT false,
+	"recurrence_rule" text,
+	"parent_event_id" varchar,
+	"original_date" timestamp,
+	"ical_uid" text,
+	"created_at" timestamp DEFAULT now(),
+	"deleted_at" timestamp,
+	CONSTRAINT "events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "event_exceptions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"parent_event_id" varchar NOT NULL,
+	"exception_date" timestamp NOT NULL,
+	"type" text NOT NULL,
+	"modified_event_id" varchar,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "event_exceptions_parent_event_id_events_id_fk" FOREIGN KEY ("parent_event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action,
+	CONSTRAINT "event_exceptions_modified_event_id_events_id_fk" FOREIGN KEY ("modified_event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action
+);
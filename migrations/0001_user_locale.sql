@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "locale" text DEFAULT 'en' NOT NULL;
\ No newline at end of file
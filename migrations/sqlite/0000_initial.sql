@@ -0,0 +1,39 @@
+CREATE TABLE `event_exceptions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`parent_event_id` text NOT NULL,
+	`exception_date` integer NOT NULL,
+	`type` text NOT NULL,
+	`modified_event_id` text,
+	`created_at` integer,
+	FOREIGN KEY (`parent_event_id`) REFERENCES `events`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`modified_event_id`) REFERENCES `events`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`title` text NOT NULL,
+	`description` text,
+	`start_date` integer NOT NULL,
+	`end_date` integer,
+	`timezone` text,
+	`all_day` integer DEFAULT false,
+	`is_recurring` integer DEFAULT false,
+	`recurrence_rule` text,
+	`parent_event_id` text,
+	`original_date` integer,
+	`ical_uid` text,
+	`created_at` integer,
+	`deleted_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL,
+	`timezone` text DEFAULT 'UTC' NOT NULL,
+	`default_event_duration` integer DEFAULT 60 NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);
\ No newline at end of file
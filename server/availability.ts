@@ -0,0 +1,70 @@
+import { type FreeSlot } from "@shared/schema";
+import { getZonedParts, zonedTimeToUtc } from "@shared/timezone";
+import { findConflicts, getEventEnd } from "./conflicts";
+import type { IStorage } from "./storage";
+
+// Longest range searched in one request
+export const MAX_AVAILABILITY_DAYS = 31;
+
+export interface FreeSlotSearch {
+  startDate: Date;
+  endDate: Date;
+  durationMinutes: number;
+  workdayStart: string; // "HH:mm" in timeZone
+  workdayEnd: string;
+  timeZone: string;
+}
+
+// Instant at which the zone's clock shows `time` ("HH:mm") on the given calendar day
+function atTimeOfDay(day: Date, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  return zonedTimeToUtc({
+    year: day.getUTCFullYear(),
+    month: day.getUTCMonth(),
+    day: day.getUTCDate(),
+    hours,
+    minutes,
+    seconds: 0,
+  }, timeZone);
+}
+
+/**
+ * Gaps of at least the requested duration within working hours on each day of the range,
+ * between the user's timed events (recurring occurrences included). Each slot is the
+ * whole gap, earliest first; all-day events don't block time.
+ */
+export async function findFreeSlots(storage: IStorage, userId: string, search: FreeSlotSearch): Promise<FreeSlot[]> {
+  const busy = (await findConflicts(storage, userId, { startDate: search.startDate, endDate: search.endDate }))
+    .map(event => ({
+      start: new Date(event.startDate).getTime(),
+      end: getEventEnd(event).getTime(),
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  const duration = search.durationMinutes * 60 * 1000;
+  const slots: FreeSlot[] = [];
+
+  // Walk the calendar days of the zone; `day` only carries a year, month and date in UTC fields
+  const first = getZonedParts(search.startDate, search.timeZone);
+  const last = getZonedParts(search.endDate, search.timeZone);
+  const lastDay = Date.UTC(last.year, last.month, last.day);
+
+  for (const day = new Date(Date.UTC(first.year, first.month, first.day)); day.getTime() <= lastDay; day.setUTCDate(day.getUTCDate() + 1)) {
+    const windowStart = Math.max(atTimeOfDay(day, search.workdayStart, search.timeZone).getTime(), search.startDate.getTime());
+    const windowEnd = Math.min(atTimeOfDay(day, search.workdayEnd, search.timeZone).getTime(), search.endDate.getTime());
+
+    let cursor = windowStart;
+    for (const { start, end } of busy) {
+      if (end <= cursor || start >= windowEnd) continue;
+      if (start - cursor >= duration) {
+        slots.push({ startDate: new Date(cursor), endDate: new Date(start) });
+      }
+      cursor = Math.max(cursor, end);
+    }
+    if (windowEnd - cursor >= duration) {
+      slots.push({ startDate: new Date(cursor), endDate: new Date(windowEnd) });
+    }
+  }
+
+  return slots;
+}
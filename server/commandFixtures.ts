@@ -0,0 +1,77 @@
+import type { ParsedVoiceCommand } from "@shared/voiceCommand";
+import { addZonedDays, getZonedParts } from "@shared/timezone";
+import type { ParseContext } from "./commandParser";
+
+// The answer to one transcript; dates are worked out from the request's time and zone
+export type CommandFixture = (context: ParseContext) => ParsedVoiceCommand;
+
+// Wall-clock day `days` from today in the user's zone, at `time` (HH:mm) when given
+function day(context: ParseContext, days: number, time?: string): string {
+  const parts = getZonedParts(addZonedDays(context.now, days, context.timeZone), context.timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const date = `${parts.year}-${pad(parts.month + 1)}-${pad(parts.day)}`;
+  return time ? `${date}T${time}` : date;
+}
+
+/**
+ * What StubCommandParser answers by default, keyed by lowercased transcript: one or more
+ * commands for each action, written the way the OpenAI parser is asked to answer them.
+ */
+export const COMMAND_FIXTURES: Record<string, CommandFixture> = {
+  "schedule team meeting tomorrow at 3pm": context => ({
+    action: "create",
+    title: "Team meeting",
+    start: day(context, 1, "15:00"),
+  }),
+  "add call with tom on the roadmap": () => ({
+    action: "create",
+    title: "Call with Tom on the roadmap",
+  }),
+  "lunch with sarah tomorrow from 12 to 1:30": context => ({
+    action: "create",
+    title: "Lunch with Sarah",
+    start: day(context, 1, "12:00"),
+    end: day(context, 1, "13:30"),
+  }),
+  "gym every monday and wednesday at 7am": context => ({
+    action: "create",
+    title: "Gym",
+    start: day(context, 1, "07:00"),
+    recurrenceRule: "FREQ=WEEKLY;BYDAY=MO,WE",
+  }),
+  "block off the next two days for the offsite": context => ({
+    action: "create",
+    title: "Offsite",
+    start: day(context, 1),
+    end: day(context, 3),
+    allDay: true,
+  }),
+  "move the dentist appointment to tomorrow at 10": context => ({
+    action: "edit",
+    eventQuery: "dentist appointment",
+    start: day(context, 1, "10:00"),
+  }),
+  "rename standup to daily sync": () => ({
+    action: "edit",
+    eventQuery: "standup",
+    newTitle: "Daily sync",
+  }),
+  "cancel the team meeting": () => ({
+    action: "delete",
+    eventQuery: "team meeting",
+  }),
+  "find me an hour tomorrow afternoon": context => ({
+    action: "find-slot",
+    start: day(context, 1, "12:00"),
+    end: day(context, 1, "17:00"),
+    durationMinutes: 60,
+  }),
+  "what's on my calendar tomorrow": context => ({
+    action: "query",
+    start: day(context, 1),
+    end: day(context, 2),
+    rangeLabel: "tomorrow",
+  }),
+  "undo that": () => ({ action: "undo" }),
+  "redo": () => ({ action: "redo" }),
+};
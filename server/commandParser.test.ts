@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type OpenAI from "openai";
+import { ZodError } from "zod";
+import { OpenAICommandParser, StubCommandParser, type ParseContext } from "./commandParser";
+
+const CONTEXT: ParseContext = {
+  timeZone: "America/New_York",
+  locale: "en",
+  now: new Date("2026-03-11T15:00:00Z"),
+};
+
+// A client whose completions call the voice_command tool with `args`
+function clientReturning(args: Record<string, unknown> | null): OpenAI {
+  const message = args
+    ? { tool_calls: [{ type: "function", function: { name: "voice_command", arguments: JSON.stringify(args) } }] }
+    : { content: "Sorry, I can't help with that." };
+  return { chat: { completions: { create: async () => ({ choices: [{ message }] }) } } } as unknown as OpenAI;
+}
+
+describe("OpenAICommandParser", () => {
+  it("cleans up the tool call's arguments", async () => {
+    const parser = new OpenAICommandParser(clientReturning({
+      action: "create",
+      title: "Gym",
+      start: "2026-03-12T07:00",
+      end: "",
+      recurrenceRule: "RRULE:FREQ=WEEKLY;BYDAY=MO,WE",
+    }));
+
+    expect(await parser.parse("gym every monday and wednesday at 7am", CONTEXT)).toEqual({
+      action: "create",
+      title: "Gym",
+      start: "2026-03-12T07:00",
+      recurrenceRule: "FREQ=WEEKLY;BYDAY=MO,WE",
+    });
+  });
+
+  it.each([
+    ["an action it doesn't know", { action: "reschedule" }],
+    ["a start that isn't a wall-clock date", { action: "create", title: "Lunch", start: "tomorrow at noon" }],
+    ["a recurrence rule that doesn't parse", { action: "create", title: "Gym", recurrenceRule: "every monday" }],
+    ["a duration too short to look for", { action: "find-slot", durationMinutes: 2 }],
+  ])("rejects %s", async (_, args) => {
+    const parser = new OpenAICommandParser(clientReturning(args));
+    await expect(parser.parse("anything", CONTEXT)).rejects.toBeInstanceOf(ZodError);
+  });
+
+  it("fails when the model doesn't call the tool", async () => {
+    const parser = new OpenAICommandParser(clientReturning(null));
+    await expect(parser.parse("anything", CONTEXT)).rejects.toThrow("The model did not return a command");
+  });
+});
+
+describe("StubCommandParser", () => {
+  it("answers from the fixtures by lowercased transcript", async () => {
+    const parser = new StubCommandParser();
+    expect(await parser.parse("  What's on my calendar TOMORROW ", CONTEXT)).toEqual({
+      action: "query",
+      start: "2026-03-12",
+      end: "2026-03-13",
+      rangeLabel: "tomorrow",
+    });
+  });
+
+  it("takes dates from the request's time and zone", async () => {
+    const parser = new StubCommandParser();
+    // Still the 10th in Los Angeles
+    const command = await parser.parse("Find me an hour tomorrow afternoon", {
+      ...CONTEXT,
+      timeZone: "America/Los_Angeles",
+      now: new Date("2026-03-11T05:00:00Z"),
+    });
+    expect(command).toMatchObject({ start: "2026-03-11T12:00", end: "2026-03-11T17:00", durationMinutes: 60 });
+  });
+});
@@ -0,0 +1,126 @@
+import OpenAI from "openai";
+import { VOICE_ACTIONS, voiceCommandSchema, type ParsedVoiceCommand } from "@shared/voiceCommand";
+import { getZonedParts } from "@shared/timezone";
+import { LOCALE_NAMES, type Locale } from "@shared/locale";
+import { COMMAND_FIXTURES, type CommandFixture } from "./commandFixtures";
+
+export interface ParseContext {
+  timeZone: string; // The user's zone; spoken dates and times are read in it
+  locale: Locale; // The language the user speaks
+  now: Date;
+}
+
+// Turns a transcript into a structured command
+export interface CommandParser {
+  readonly name: string;
+  parse(transcript: string, context: ParseContext): Promise<ParsedVoiceCommand>;
+}
+
+const COMMAND_TOOL = {
+  type: "function" as const,
+  function: {
+    name: "voice_command",
+    description: "Record the calendar command the user spoke",
+    parameters: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: [...VOICE_ACTIONS],
+          description: "create an event, edit or delete an existing one, find-slot to look for free time, query to read back the calendar, undo or redo the last change (\"undo that\", \"take it back\"), or unknown",
+        },
+        title: { type: "string", description: "Title of the event to create, or to book in a found slot; without dates, times or filler words" },
+        start: { type: "string", description: "Start as YYYY-MM-DDTHH:mm, or YYYY-MM-DD when no time was spoken. For edit, the new start; for find-slot and query, the start of the stretch asked about" },
+        end: { type: "string", description: "End in the same format, exclusive (the day after the last day for whole days). Omit when no end or length was spoken" },
+        allDay: { type: "boolean", description: "True for all-day and multi-day events" },
+        durationMinutes: { type: "integer", description: "Length of free time to find, for find-slot" },
+        recurrenceRule: { type: "string", description: "RFC 5545 RRULE value without the RRULE: prefix, e.g. FREQ=WEEKLY;BYDAY=TU,TH, for repeating events" },
+        eventQuery: { type: "string", description: "Words identifying the existing event, for edit and delete" },
+        newTitle: { type: "string", description: "New title, for edit when the event is being renamed" },
+        rangeLabel: { type: "string", description: "Short spoken name of the stretch asked about, for query, e.g. \"tomorrow\" or \"Friday morning\"" },
+      },
+      required: ["action"],
+    },
+  },
+};
+
+function formatLocal(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${parts.year}-${pad(parts.month + 1)}-${pad(parts.day)}T${pad(parts.hours)}:${pad(parts.minutes)}`;
+}
+
+// Models sometimes send empty strings for fields that don't apply
+function withoutEmptyStrings(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(args).filter(([, value]) => !(typeof value === "string" && value.trim() === ""))
+  );
+}
+
+export class OpenAICommandParser implements CommandParser {
+  readonly name = "openai";
+
+  constructor(private client: OpenAI, private model: string = "gpt-4o") {}
+
+  async parse(transcript: string, context: ParseContext): Promise<ParsedVoiceCommand> {
+    const now = new Date(context.now);
+    const weekday = now.toLocaleDateString("en-US", { weekday: "long", timeZone: context.timeZone });
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      temperature: 0,
+      messages: [
+        {
+          role: "system",
+          content: `You turn spoken commands for a calendar app into a voice_command call. `
+            + `It is ${weekday} ${formatLocal(now, context.timeZone)} in ${context.timeZone}; give every date and time as wall-clock time there. `
+            + `The user speaks ${LOCALE_NAMES[context.locale]}; titles, event queries and range labels stay in that language. `
+            + `Titles keep every word that names the event ("call with Tom on the roadmap"); "change" or "move" only means edit when it refers to an existing event.`,
+        },
+        { role: "user", content: transcript },
+      ],
+      tools: [COMMAND_TOOL],
+      tool_choice: { type: "function", function: { name: COMMAND_TOOL.function.name } },
+    });
+
+    const call = completion.choices[0]?.message.tool_calls?.[0];
+    if (!call || call.type !== "function") {
+      throw new Error("The model did not return a command");
+    }
+
+    const args = withoutEmptyStrings(JSON.parse(call.function.arguments));
+    if (typeof args.recurrenceRule === "string") {
+      args.recurrenceRule = args.recurrenceRule.replace(/^RRULE:/i, "");
+    }
+    return voiceCommandSchema.parse(args);
+  }
+}
+
+// Answers from a fixed table keyed by lowercased transcript (COMMAND_FIXTURES unless given
+// another), so parsing can be exercised without a network; anything else is 'unknown'
+export class StubCommandParser implements CommandParser {
+  readonly name = "stub";
+
+  constructor(private fixtures: Record<string, CommandFixture> = COMMAND_FIXTURES) {}
+
+  async parse(transcript: string, context: ParseContext): Promise<ParsedVoiceCommand> {
+    const fixture = this.fixtures[transcript.trim().toLowerCase()];
+    return fixture ? fixture(context) : { action: "unknown" };
+  }
+}
+
+// COMMAND_PARSER picks the parser: "openai" (the default when OPENAI_API_KEY is set), "stub" or "none"
+export function createCommandParser(openai: OpenAI | null): CommandParser | null {
+  const choice = process.env.COMMAND_PARSER ?? (process.env.OPENAI_API_KEY ? "openai" : "none");
+
+  switch (choice) {
+    case "openai":
+      if (!openai) {
+        throw new Error("OPENAI_API_KEY must be set when COMMAND_PARSER is openai");
+      }
+      return new OpenAICommandParser(openai, process.env.COMMAND_PARSER_MODEL);
+    case "stub":
+      return new StubCommandParser();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,55 @@
+import { type Event, DEFAULT_EVENT_DURATION } from "@shared/schema";
+import { getInstanceId } from "@shared/recurrence";
+import type { IStorage } from "./storage";
+
+export interface ConflictCheck {
+  startDate: Date;
+  endDate: Date;
+  // The event being changed, which never conflicts with itself
+  eventId?: string;
+  // Set when only the occurrence of `eventId` originally at this time is being changed
+  instanceDate?: Date;
+}
+
+// Events saved without an end take up the default duration
+export function getEventEnd(event: Event): Date {
+  return event.endDate
+    ? new Date(event.endDate)
+    : new Date(new Date(event.startDate).getTime() + DEFAULT_EVENT_DURATION * 60 * 1000);
+}
+
+function isCheckedEvent(event: Event, check: ConflictCheck): boolean {
+  if (!check.eventId) return false;
+
+  if (check.instanceDate) {
+    const instanceTime = check.instanceDate.getTime();
+    return event.id === getInstanceId(check.eventId, check.instanceDate)
+      || (event.parentEventId === check.eventId && !!event.originalDate && new Date(event.originalDate).getTime() === instanceTime);
+  }
+
+  // Changing a series moves all of its occurrences, including modified ones
+  return event.id === check.eventId
+    || event.id.startsWith(`${check.eventId}-recur-`)
+    || event.parentEventId === check.eventId;
+}
+
+/**
+ * The user's timed events, including expanded recurring occurrences, that overlap the
+ * slot. All-day events mark days rather than blocking time, so they never conflict.
+ */
+export async function findConflicts(storage: IStorage, userId: string, check: ConflictCheck): Promise<Event[]> {
+  // Storage treats events without an end as instants, so reach back far enough to catch
+  // one that started within the default duration of the slot
+  const candidates = await storage.getEventsByDateRange(
+    userId,
+    new Date(check.startDate.getTime() - DEFAULT_EVENT_DURATION * 60 * 1000),
+    check.endDate
+  );
+
+  return candidates.filter(event =>
+    !event.allDay
+    && !isCheckedEvent(event, check)
+    && new Date(event.startDate) < check.endDate
+    && getEventEnd(event) > check.startDate
+  );
+}
@@ -0,0 +1,269 @@
+import type { NeonDatabase } from "drizzle-orm/neon-serverless";
+import { eq, and, or, gt, gte, lte, desc, inArray, isNull, isNotNull } from "drizzle-orm";
+import { events, eventExceptions, users, type Event, type InsertEvent, type InsertStoredEvent, type User, type InsertUser, type UserPreferences, type EventException } from "@shared/schema";
+import { expandRecurringEvent, getDefaultExpansionRange, shiftEndDate } from "@shared/recurrence";
+import type { IStorage } from "./storage";
+import { listTrash, deletedWithSeries } from "./trash";
+
+// The tables queried; shared/sqliteSchema.ts has the same columns and row types
+export interface DrizzleTables {
+  users: typeof users;
+  events: typeof events;
+  eventExceptions: typeof eventExceptions;
+}
+
+/**
+ * The queries shared by the PostgreSQL and SQLite storages. drizzle's query builders have the
+ * same API for both but not the same types, so the SQLite storage hands its database and
+ * tables in under the PostgreSQL ones; subclasses only connect, migrate and count deletions.
+ */
+export abstract class DrizzleStorage implements IStorage {
+  constructor(protected db: NeonDatabase, protected tables: DrizzleTables = { users, events, eventExceptions }) {}
+
+  // Apply the migrations the database hasn't seen yet
+  abstract migrate(): Promise<void>;
+
+  // Exceptions cascade away with their series or modified occurrence
+  abstract purgeDeletedEvents(deletedBefore: Date): Promise<number>;
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const { users } = this.tables;
+    const result = await this.db.select().from(users).where(eq(users.id, id));
+    return result[0];
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const { users } = this.tables;
+    const result = await this.db.select().from(users).where(eq(users.username, username));
+    return result[0];
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const { users } = this.tables;
+    const result = await this.db.insert(users).values(insertUser).returning();
+    return result[0];
+  }
+
+  async updateUserPreferences(id: string, preferences: UserPreferences): Promise<User | undefined> {
+    const { users } = this.tables;
+    if (Object.keys(preferences).length === 0) return this.getUser(id);
+    const result = await this.db.update(users).set(preferences).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+
+  // Event methods
+  async getEvents(userId: string): Promise<Event[]> {
+    const { events } = this.tables;
+    const dbEvents = await this.db.select().from(events)
+      .where(and(eq(events.userId, userId), isNull(events.deletedAt)))
+      .orderBy(events.startDate);
+    return this.expandRecurringEvents(userId, dbEvents);
+  }
+
+  async getEvent(userId: string, id: string): Promise<Event | undefined> {
+    const { events } = this.tables;
+    const result = await this.db.select().from(events).where(
+      and(eq(events.id, id), eq(events.userId, userId), isNull(events.deletedAt))
+    );
+    return result[0];
+  }
+
+  async getEventsByDateRange(userId: string, startDate: Date, endDate: Date): Promise<Event[]> {
+    const { events } = this.tables;
+    // Recurring series that started before the range can still have instances inside it, and
+    // events that started before it can still be running
+    const dbEvents = await this.db.select().from(events).where(
+      and(
+        eq(events.userId, userId),
+        isNull(events.deletedAt),
+        lte(events.startDate, endDate),
+        or(
+          eq(events.isRecurring, true),
+          gte(events.startDate, startDate),
+          gt(events.endDate, startDate)
+        )
+      )
+    ).orderBy(events.startDate);
+    return this.expandRecurringEvents(userId, dbEvents, startDate, endDate);
+  }
+
+  async createEvent(userId: string, insertEvent: InsertStoredEvent): Promise<Event> {
+    const { events } = this.tables;
+    const result = await this.db.insert(events).values({ ...insertEvent, userId }).returning();
+    return result[0];
+  }
+
+  async updateEvent(userId: string, id: string, updateEvent: Partial<InsertEvent>): Promise<Event | undefined> {
+    const { events } = this.tables;
+    if (Object.keys(updateEvent).length === 0) return this.getEvent(userId, id);
+    const result = await this.db.update(events).set(updateEvent).where(
+      and(eq(events.id, id), eq(events.userId, userId), isNull(events.deletedAt))
+    ).returning();
+    return result[0];
+  }
+
+  async deleteEvent(userId: string, id: string): Promise<boolean> {
+    const { events } = this.tables;
+    // Occurrences share the series' deletion time, which is how restoring finds them again
+    const deletedAt = new Date();
+    const result = await this.db.update(events).set({ deletedAt }).where(
+      and(eq(events.id, id), eq(events.userId, userId), isNull(events.deletedAt))
+    ).returning();
+    if (result.length === 0) return false;
+
+    await this.db.update(events).set({ deletedAt }).where(
+      and(eq(events.parentEventId, id), eq(events.userId, userId), isNull(events.deletedAt))
+    );
+    return true;
+  }
+
+  async getStoredEvents(userId: string): Promise<Event[]> {
+    const { events } = this.tables;
+    return this.db.select().from(events)
+      .where(and(eq(events.userId, userId), isNull(events.deletedAt)))
+      .orderBy(events.startDate);
+  }
+
+  async getEventExceptions(userId: string): Promise<EventException[]> {
+    const { events, eventExceptions } = this.tables;
+    return this.db.select({ exception: eventExceptions })
+      .from(eventExceptions)
+      .innerJoin(events, eq(eventExceptions.parentEventId, events.id))
+      .where(and(eq(events.userId, userId), isNull(events.deletedAt)))
+      .then(rows => rows.map(row => row.exception));
+  }
+
+  async getDeletedEvents(userId: string): Promise<Event[]> {
+    return listTrash(await this.getTrashedEvents(userId));
+  }
+
+  async restoreEvent(userId: string, id: string): Promise<Event | undefined> {
+    const { events } = this.tables;
+    const trashed = await this.getTrashedEvents(userId);
+    const event = trashed.find(candidate => candidate.id === id);
+    if (!event) return undefined;
+
+    const ids = [event, ...trashed.filter(candidate => candidate.parentEventId === id && deletedWithSeries(candidate, trashed))]
+      .map(restored => restored.id);
+    await this.db.update(events).set({ deletedAt: null }).where(inArray(events.id, ids));
+    return { ...event, deletedAt: null };
+  }
+
+  // Exceptions cascade away with the series and its modified occurrences
+  async purgeEvent(userId: string, id: string): Promise<boolean> {
+    const { events } = this.tables;
+    const result = await this.db.delete(events).where(
+      and(eq(events.userId, userId), or(eq(events.id, id), eq(events.parentEventId, id)))
+    ).returning();
+    return result.some(event => event.id === id);
+  }
+
+  private async getTrashedEvents(userId: string): Promise<Event[]> {
+    const { events } = this.tables;
+    return this.db.select().from(events).where(and(eq(events.userId, userId), isNotNull(events.deletedAt)));
+  }
+
+  // Recurring event methods
+  async deleteRecurringInstance(userId: string, parentEventId: string, instanceDate: Date): Promise<boolean> {
+    const { eventExceptions } = this.tables;
+    const parentEvent = await this.getEvent(userId, parentEventId);
+    if (!parentEvent) return false;
+
+    // Create an exception record to mark this instance as deleted
+    await this.db.insert(eventExceptions).values({
+      parentEventId,
+      exceptionDate: instanceDate,
+      type: 'deleted'
+    });
+    return true;
+  }
+
+  async updateRecurringInstance(userId: string, parentEventId: string, instanceDate: Date, updates: Partial<InsertEvent>): Promise<Event | null> {
+    const { events, eventExceptions } = this.tables;
+    // Create a new event for the modified instance
+    const parentEvent = await this.getEvent(userId, parentEventId);
+    if (!parentEvent) return null;
+
+    // Create new event with the updates
+    const modifiedEvent = await this.db.insert(events).values({
+      userId,
+      title: updates.title ?? parentEvent.title,
+      description: updates.description ?? parentEvent.description,
+      startDate: updates.startDate ?? instanceDate,
+      endDate: updates.endDate ?? shiftEndDate(parentEvent, updates.startDate ?? instanceDate),
+      timezone: updates.timezone ?? parentEvent.timezone,
+      allDay: updates.allDay ?? parentEvent.allDay,
+      isRecurring: false, // Modified instances are not recurring
+      recurrenceRule: null,
+      parentEventId,
+      originalDate: instanceDate
+    }).returning();
+
+    // Create exception record
+    await this.db.insert(eventExceptions).values({
+      parentEventId,
+      exceptionDate: instanceDate,
+      type: 'modified',
+      modifiedEventId: modifiedEvent[0].id
+    });
+
+    return modifiedEvent[0];
+  }
+
+  async restoreRecurringInstance(userId: string, parentEventId: string, instanceDate: Date): Promise<boolean> {
+    const { events, eventExceptions } = this.tables;
+    const parentEvent = await this.getEvent(userId, parentEventId);
+    if (!parentEvent) return false;
+
+    const [exception] = await this.db.select().from(eventExceptions)
+      .where(and(eq(eventExceptions.parentEventId, parentEventId), eq(eventExceptions.exceptionDate, instanceDate)))
+      .orderBy(desc(eventExceptions.createdAt))
+      .limit(1);
+    if (!exception) return false;
+
+    // Removing the modified event cascades to its exception
+    if (exception.modifiedEventId) {
+      await this.db.delete(events).where(eq(events.id, exception.modifiedEventId));
+    }
+    await this.db.delete(eventExceptions).where(eq(eventExceptions.id, exception.id));
+    return true;
+  }
+
+  private async expandRecurringEvents(userId: string, dbEvents: Event[], rangeStart?: Date, rangeEnd?: Date): Promise<Event[]> {
+    const expandedEvents: Event[] = [];
+    const defaultRange = getDefaultExpansionRange();
+    const startDate = rangeStart || defaultRange.start;
+    const endDate = rangeEnd || defaultRange.end;
+
+    // Get this user's exceptions to filter out deleted/modified instances
+    const exceptions = await this.getEventExceptions(userId);
+    const exceptionMap = new Map<string, EventException[]>();
+    exceptions.forEach(ex => {
+      if (!exceptionMap.has(ex.parentEventId)) {
+        exceptionMap.set(ex.parentEventId, []);
+      }
+      exceptionMap.get(ex.parentEventId)!.push(ex);
+    });
+
+    for (const event of dbEvents) {
+      if (!event.isRecurring) {
+        // Non-recurring events (including modified instances) - add as is
+        expandedEvents.push(event);
+        continue;
+      }
+
+      // For recurring events, generate instances
+      expandedEvents.push(...expandRecurringEvent(
+        event,
+        exceptionMap.get(event.id) || [],
+        startDate,
+        endDate
+      ));
+    }
+
+    return expandedEvents.sort((a, b) => 
+      new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
+    );
+  }
+}
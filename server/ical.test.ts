@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildCalendar, buildTimeZone, importCalendar, parseCalendar } from "./ical";
+import { EnhancedMemStorage } from "./storage";
+
+function calendar(...events: string[][]): string {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", ...events.flat(), "END:VCALENDAR"].join("\r\n");
+}
+
+function vevent(uid: string, summary: string, properties: string[]): string[] {
+  return ["BEGIN:VEVENT", `UID:${uid}`, `SUMMARY:${summary}`, ...properties, "END:VEVENT"];
+}
+
+describe("importing a calendar", () => {
+  it("reports a VEVENT it can't read and imports the others", async () => {
+    const ics = calendar(
+      vevent("good-1", "Standup", ["DTSTART:20260310T090000Z", "DTEND:20260310T091500Z"]),
+      vevent("no-start", "Broken", ["DTEND:20260310T100000Z"]),
+      vevent("bad-date", "Garbled", ["DTSTART:tomorrow"]),
+      vevent("good-2", "Review", ["DTSTART:20260311T140000Z"]),
+    );
+
+    const parsed = parseCalendar(ics, "UTC");
+    expect(parsed.events.map(event => event.uid)).toEqual(["good-1", "good-2"]);
+    expect(parsed.errors).toEqual([
+      { uid: "no-start", title: "Broken", message: "VEVENT is missing DTSTART" },
+      { uid: "bad-date", title: "Garbled", message: 'Invalid date value "tomorrow"' },
+    ]);
+
+    const storage = new EnhancedMemStorage();
+    const user = await storage.createUser({ username: "importer", password: "secret" });
+    const result = await importCalendar(storage, user.id, parsed, false);
+
+    expect(result.imported.map(summary => summary.title)).toEqual(["Standup", "Review"]);
+    expect(result.errors.map(error => error.uid)).toEqual(["no-start", "bad-date"]);
+    expect((await storage.getStoredEvents(user.id)).map(event => event.title).sort()).toEqual(["Review", "Standup"]);
+  });
+
+  it("leaves no trace of a series whose changed occurrences fail to import", async () => {
+    const ics = calendar(
+      vevent("weekly", "Standup", ["DTSTART:20260302T090000Z", "RRULE:FREQ=WEEKLY", "EXDATE:20260309T090000Z"]),
+      vevent("weekly", "Standup (moved)", ["RECURRENCE-ID:20260316T090000Z", "DTSTART:20260316T100000Z"]),
+    );
+
+    const storage = new EnhancedMemStorage();
+    const user = await storage.createUser({ username: "importer", password: "secret" });
+    vi.spyOn(storage, "updateRecurringInstance").mockRejectedValue(new Error("Database unavailable"));
+    const result = await importCalendar(storage, user.id, parseCalendar(ics, "UTC"), false);
+
+    expect(result.imported).toEqual([]);
+    expect(result.errors).toEqual([{ uid: "weekly", title: "Standup", message: "Database unavailable" }]);
+    expect(await storage.getStoredEvents(user.id)).toEqual([]);
+    expect(await storage.getEventExceptions(user.id)).toEqual([]);
+    expect(await storage.getDeletedEvents(user.id)).toEqual([]);
+  });
+});
+
+// The lines of the VTIMEZONE block for the zone in an export
+function timeZoneBlock(ics: string, timeZone: string): string[] {
+  const lines = ics.split("\r\n");
+  const start = lines.indexOf(`TZID:${timeZone}`) - 1;
+  return start < 0 ? [] : lines.slice(start, lines.indexOf("END:VTIMEZONE", start) + 1);
+}
+
+describe("exporting a calendar", () => {
+  it("writes a VTIMEZONE for each zone a TZID names", async () => {
+    const storage = new EnhancedMemStorage();
+    const user = await storage.createUser({ username: "exporter", password: "secret" });
+    await storage.createEvent(user.id, {
+      title: "Standup",
+      startDate: new Date("2026-03-10T13:00:00Z"),
+      endDate: new Date("2026-03-10T13:15:00Z"),
+      timezone: "America/New_York",
+      isRecurring: true,
+      recurrenceRule: "FREQ=WEEKLY;BYDAY=TU",
+    });
+    await storage.createEvent(user.id, {
+      title: "Call Tokyo",
+      startDate: new Date("2026-03-11T01:00:00Z"),
+      timezone: "Asia/Tokyo",
+    });
+    await storage.createEvent(user.id, {
+      title: "UTC review",
+      startDate: new Date("2026-03-12T10:00:00Z"),
+      timezone: "UTC",
+    });
+
+    const ics = buildCalendar(await storage.getStoredEvents(user.id), await storage.getEventExceptions(user.id));
+
+    expect(ics).toContain("DTSTART;TZID=America/New_York:20260310T090000");
+    expect(ics).toContain("DTSTART;TZID=Asia/Tokyo:20260311T100000");
+    expect(ics).toContain("DTSTART:20260312T100000Z");
+    expect(ics.match(/BEGIN:VTIMEZONE/g)).toHaveLength(2);
+    expect(ics.indexOf("BEGIN:VTIMEZONE")).toBeLessThan(ics.indexOf("BEGIN:VEVENT"));
+
+    const newYork = timeZoneBlock(ics, "America/New_York").join("\n");
+    expect(newYork).toContain([
+      "BEGIN:DAYLIGHT",
+      "DTSTART:20260308T020000",
+      "TZOFFSETFROM:-0500",
+      "TZOFFSETTO:-0400",
+      "TZNAME:EDT",
+      "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+      "END:DAYLIGHT",
+    ].join("\n"));
+    expect(newYork).toContain([
+      "BEGIN:STANDARD",
+      "DTSTART:20261101T020000",
+      "TZOFFSETFROM:-0400",
+      "TZOFFSETTO:-0500",
+      "TZNAME:EST",
+      "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+      "END:STANDARD",
+    ].join("\n"));
+
+    expect(timeZoneBlock(ics, "Asia/Tokyo")).toEqual([
+      "BEGIN:VTIMEZONE",
+      "TZID:Asia/Tokyo",
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      "TZOFFSETFROM:+0900",
+      "TZOFFSETTO:+0900",
+      "TZNAME:GMT+9",
+      "END:STANDARD",
+      "END:VTIMEZONE",
+    ]);
+  });
+
+  it("uses the last day of the month for changes on the last weekday", () => {
+    const london = buildTimeZone("Europe/London", 2026, 2026).join("\n");
+    expect(london).toContain("DTSTART:20260329T010000\nTZOFFSETFROM:+0000\nTZOFFSETTO:+0100");
+    expect(london).toContain("RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU");
+    expect(london).toContain("RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU");
+  });
+
+  it("round-trips zoned events through import", async () => {
+    const storage = new EnhancedMemStorage();
+    const user = await storage.createUser({ username: "roundtrip", password: "secret" });
+    await storage.createEvent(user.id, {
+      title: "Standup",
+      startDate: new Date("2026-07-07T13:00:00Z"),
+      timezone: "America/New_York",
+    });
+
+    const ics = buildCalendar(await storage.getStoredEvents(user.id), []);
+    const [event] = parseCalendar(ics).events;
+    expect(event.startDate.toISOString()).toBe("2026-07-07T13:00:00.000Z");
+    expect(event.timezone).toBe("America/New_York");
+  });
+});
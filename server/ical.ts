@@ -0,0 +1,600 @@
+import { type Event, type EventException } from "@shared/schema";
+import { isValidRRule } from "@shared/recurrence";
+import { addZonedDays, getTimeZoneOffset, getZonedParts, isValidTimeZone, zonedTimeToUtc } from "@shared/timezone";
+import type { IStorage } from "./storage";
+
+// iCalendar (RFC 5545) import and export for events and their recurrence exceptions
+
+const PRODUCT_ID = "-//VoiceCalendar//VoiceCalendar//EN";
+const UID_DOMAIN = "voicecalendar";
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+export function formatDateTime(date: Date): string {
+  return new Date(date).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Wall-clock time in the zone, without the trailing Z, for use with a TZID parameter
+export function formatZonedDateTime(date: Date, timeZone: string): string {
+  const parts = getZonedParts(new Date(date), timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${parts.year}${pad(parts.month + 1)}${pad(parts.day)}T${pad(parts.hours)}${pad(parts.minutes)}${pad(parts.seconds)}`;
+}
+
+// Calendar date of an all-day event boundary, as seen in its zone
+export function formatDateOnly(date: Date, timeZone: string | null): string {
+  const parts = getZonedParts(new Date(date), timeZone ?? "UTC");
+  return `${parts.year}${String(parts.month + 1).padStart(2, "0")}${String(parts.day).padStart(2, "0")}`;
+}
+
+// A date property, written in the event's zone when it has one so recurrences follow its DST rules.
+// All-day events use DATE values instead.
+function formatDateProperty(name: string, dates: Date[], timeZone: string | null, allDay: boolean | null = false): string {
+  if (allDay) {
+    return `${name};VALUE=DATE:${dates.map(date => formatDateOnly(date, timeZone)).join(",")}`;
+  }
+  if (timeZone && timeZone !== "UTC") {
+    return `${name};TZID=${timeZone}:${dates.map(date => formatZonedDateTime(date, timeZone)).join(",")}`;
+  }
+  return `${name}:${dates.map(formatDateTime).join(",")}`;
+}
+
+interface ZoneTransition {
+  at: Date;
+  offsetFrom: number; // Milliseconds ahead of UTC before the change
+  offsetTo: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// The zone's offset changes during the year, each found to the minute by bisecting its day
+function findZoneTransitions(timeZone: string, year: number): ZoneTransition[] {
+  const transitions: ZoneTransition[] = [];
+  let previous = Date.UTC(year, 0, 1);
+  let previousOffset = getTimeZoneOffset(new Date(previous), timeZone);
+
+  for (let time = previous + DAY_MS; time <= Date.UTC(year + 1, 0, 1); time += DAY_MS) {
+    const offset = getTimeZoneOffset(new Date(time), timeZone);
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = time;
+      while (high - low > MINUTE_MS) {
+        const middle = low + Math.floor((high - low) / (2 * MINUTE_MS)) * MINUTE_MS;
+        if (getTimeZoneOffset(new Date(middle), timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+    }
+    previous = time;
+    previousOffset = offset;
+  }
+  return transitions;
+}
+
+function formatOffset(offset: number): string {
+  const minutes = Math.abs(offset) / MINUTE_MS;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${offset < 0 ? "-" : "+"}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+function zoneAbbreviation(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+    .formatToParts(date)
+    .find(part => part.type === "timeZoneName")?.value ?? timeZone;
+}
+
+// "the second Sunday of March" for a change on that day, "the last Sunday" when it's the month's last
+function yearlyRule(localOnset: Date): string {
+  const month = localOnset.getUTCMonth() + 1;
+  const day = localOnset.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(localOnset.getUTCFullYear(), month, 0)).getUTCDate();
+  const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+  return `RRULE:FREQ=YEARLY;BYMONTH=${month};BYDAY=${week}${WEEKDAYS[localOnset.getUTCDay()]}`;
+}
+
+/**
+ * The VTIMEZONE a TZID refers to (RFC 5545 §3.6.5), with the zone's offset changes from the
+ * year before `firstYear` to `lastYear`. The last year's changes repeat yearly, so recurring
+ * events further out keep following them.
+ */
+export function buildTimeZone(timeZone: string, firstYear: number, lastYear: number): string[] {
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  const transitions: ZoneTransition[] = [];
+  for (let year = firstYear - 1; year <= lastYear; year++) {
+    transitions.push(...findZoneTransitions(timeZone, year));
+  }
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(getTimeZoneOffset(new Date(Date.UTC(lastYear, 0, 1)), timeZone));
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      `TZNAME:${zoneAbbreviation(new Date(Date.UTC(lastYear, 0, 1)), timeZone)}`,
+      "END:STANDARD",
+    );
+  }
+
+  for (const transition of transitions) {
+    const kind = transition.offsetTo > transition.offsetFrom ? "DAYLIGHT" : "STANDARD";
+    // Onsets are written in the wall-clock time in force before the change
+    const localOnset = new Date(transition.at.getTime() + transition.offsetFrom);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatDateTime(localOnset).replace("Z", "")}`,
+      `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+      `TZNAME:${zoneAbbreviation(transition.at, timeZone)}`,
+    );
+    if (localOnset.getUTCFullYear() === lastYear) {
+      lines.push(yearlyRule(localOnset));
+    }
+    lines.push(`END:${kind}`);
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+// Imported events keep their original UID so clients can match them up again
+export function getEventUid(event: Event): string {
+  return event.icalUid ?? `${event.id}@${UID_DOMAIN}`;
+}
+
+function buildEventLines(event: Event, uid: string, stamp: Date, extra: string[]): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${formatDateTime(stamp)}`,
+    formatDateProperty("DTSTART", [event.startDate], event.timezone, event.allDay),
+  ];
+
+  if (event.endDate) {
+    lines.push(formatDateProperty("DTEND", [event.endDate], event.timezone, event.allDay));
+  }
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.createdAt) {
+    lines.push(`CREATED:${formatDateTime(event.createdAt)}`);
+  }
+
+  lines.push(...extra, "END:VEVENT");
+  return lines;
+}
+
+/**
+ * Serialize stored events as a VCALENDAR. Recurring series are written once with
+ * their RRULE; deleted occurrences become EXDATEs and modified occurrences become
+ * separate VEVENTs sharing the series UID with a RECURRENCE-ID.
+ */
+export function buildCalendar(
+  storedEvents: Event[],
+  exceptions: EventException[],
+  calendarName: string = "VoiceCalendar"
+): string {
+  const stamp = new Date();
+  const series = new Map(
+    storedEvents.filter(event => event.isRecurring && event.recurrenceRule).map(event => [event.id, event])
+  );
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+  const eventLines: string[] = [];
+
+  // Years each TZID is used in, for its VTIMEZONE
+  const zoneYears = new Map<string, number[]>();
+  const useZone = (timeZone: string | null, allDay: boolean | null, dates: (Date | null)[]) => {
+    if (!timeZone || timeZone === "UTC" || allDay) return;
+    const years = zoneYears.get(timeZone) ?? [];
+    years.push(...dates.filter((date): date is Date => !!date).map(date => new Date(date).getUTCFullYear()));
+    zoneYears.set(timeZone, years);
+  };
+
+  for (const event of storedEvents) {
+    const parent = event.parentEventId ? series.get(event.parentEventId) : undefined;
+    useZone(event.timezone, event.allDay, [event.startDate, event.endDate]);
+
+    if (series.has(event.id)) {
+      const deletedDates = exceptions
+        .filter(exception => exception.parentEventId === event.id && exception.type === 'deleted')
+        .map(exception => exception.exceptionDate);
+      const extra = [`RRULE:${event.recurrenceRule}`];
+      if (deletedDates.length > 0) {
+        extra.push(formatDateProperty("EXDATE", deletedDates, event.timezone, event.allDay));
+        useZone(event.timezone, event.allDay, deletedDates);
+      }
+      eventLines.push(...buildEventLines(event, getEventUid(event), stamp, extra));
+    } else if (parent && event.originalDate) {
+      // Modified occurrence: same UID as its series, identified by the original start
+      eventLines.push(...buildEventLines(event, getEventUid(parent), stamp, [
+        formatDateProperty("RECURRENCE-ID", [event.originalDate], parent.timezone, parent.allDay)
+      ]));
+      useZone(parent.timezone, parent.allDay, [event.originalDate]);
+    } else {
+      eventLines.push(...buildEventLines(event, getEventUid(event), stamp, []));
+    }
+  }
+
+  // Every TZID needs a VTIMEZONE (RFC 5545 §3.2.19)
+  for (const [timeZone, years] of Array.from(zoneYears.entries())) {
+    lines.push(...buildTimeZone(timeZone, Math.min(...years), Math.max(...years)));
+  }
+  lines.push(...eventLines);
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export interface ParsedCalendarEvent {
+  uid: string;
+  title: string;
+  description: string | null;
+  startDate: Date;
+  endDate: Date | null;
+  timezone: string | null;
+  allDay: boolean;
+  recurrenceRule: string | null;
+  exdates: Date[];
+  recurrenceId: Date | null;
+  cancelled: boolean;
+}
+
+export interface ImportError {
+  uid: string;
+  title: string;
+  message: string;
+}
+
+// The VEVENTs that could be read, and why the others couldn't
+export interface ParsedCalendar {
+  events: ParsedCalendarEvent[];
+  errors: ImportError[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts after the first colon that isn't inside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// Floating times (no Z and no known TZID) are read in the default zone when one is given
+function parseDateValue(value: string, params: Record<string, string>, defaultTimeZone?: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid date value "${value}"`);
+  }
+
+  const [, year, month, day, hours = "0", minutes = "0", seconds = "0", utc] = match;
+  const parts = {
+    year: parseInt(year), month: parseInt(month) - 1, day: parseInt(day),
+    hours: parseInt(hours), minutes: parseInt(minutes), seconds: parseInt(seconds),
+  };
+
+  if (utc) {
+    return new Date(Date.UTC(parts.year, parts.month, parts.day, parts.hours, parts.minutes, parts.seconds));
+  }
+
+  const timeZone = params.TZID && isValidTimeZone(params.TZID) ? params.TZID : defaultTimeZone;
+  if (timeZone) {
+    return zonedTimeToUtc(parts, timeZone);
+  }
+
+  return new Date(parts.year, parts.month, parts.day, parts.hours, parts.minutes, parts.seconds);
+}
+
+function parseDuration(value: string): number {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}"`);
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = (parseInt(weeks || "0") * 7 * 24 * 3600)
+    + (parseInt(days || "0") * 24 * 3600)
+    + (parseInt(hours || "0") * 3600)
+    + (parseInt(minutes || "0") * 60)
+    + parseInt(seconds || "0");
+  return (sign === "-" ? -1 : 1) * total * 1000;
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar document. Components other than VEVENT
+ * (VTIMEZONE, VALARM, VTODO...) are skipped; TZIDs are resolved as IANA zone names,
+ * and floating or unknown-zone times are read in `defaultTimeZone`. A VEVENT that can't
+ * be read is reported in `errors` without stopping the rest.
+ */
+export function parseCalendar(ics: string, defaultTimeZone?: string): ParsedCalendar {
+  const lines = ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/).filter(Boolean);
+  const parsed: ParsedCalendarEvent[] = [];
+  const errors: ImportError[] = [];
+  const stack: string[] = [];
+  let current: ContentLine[] | null = null;
+
+  for (const line of lines) {
+    const content = parseContentLine(line);
+    if (!content) continue;
+
+    if (content.name === "BEGIN") {
+      stack.push(content.value.toUpperCase());
+      if (content.value.toUpperCase() === "VEVENT") current = [];
+      continue;
+    }
+
+    if (content.name === "END") {
+      const component = stack.pop();
+      if (component === "VEVENT" && current) {
+        try {
+          parsed.push(toCalendarEvent(current, defaultTimeZone));
+        } catch (error) {
+          const get = (name: string) => current!.find(property => property.name === name)?.value;
+          errors.push({
+            uid: get("UID") ?? "",
+            title: unescapeText(get("SUMMARY") ?? "Untitled event"),
+            message: error instanceof Error ? error.message : "Invalid event",
+          });
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    // Ignore nested components such as VALARM
+    if (current && stack[stack.length - 1] === "VEVENT") {
+      current.push(content);
+    }
+  }
+
+  return { events: parsed, errors };
+}
+
+function toCalendarEvent(properties: ContentLine[], defaultTimeZone?: string): ParsedCalendarEvent {
+  const get = (name: string) => properties.find(property => property.name === name);
+  const dtstart = get("DTSTART");
+  if (!dtstart) {
+    throw new Error("VEVENT is missing DTSTART");
+  }
+
+  const startDate = parseDateValue(dtstart.value, dtstart.params, defaultTimeZone);
+  const timezone = dtstart.params.TZID && isValidTimeZone(dtstart.params.TZID) ? dtstart.params.TZID : defaultTimeZone ?? null;
+  const allDay = dtstart.params.VALUE?.toUpperCase() === "DATE" || /^\d{8}$/.test(dtstart.value);
+  const dtend = get("DTEND");
+  const duration = get("DURATION");
+  let endDate: Date | null = null;
+  if (dtend) {
+    endDate = parseDateValue(dtend.value, dtend.params, defaultTimeZone);
+  } else if (duration) {
+    endDate = new Date(startDate.getTime() + parseDuration(duration.value));
+  } else if (allDay) {
+    // A DATE start without an end lasts the whole day
+    endDate = addZonedDays(startDate, 1, timezone ?? "UTC");
+  }
+
+  const recurrenceId = get("RECURRENCE-ID");
+  const exdates = properties
+    .filter(property => property.name === "EXDATE")
+    .flatMap(property => property.value.split(",").map(value => parseDateValue(value, property.params, defaultTimeZone)));
+
+  return {
+    uid: get("UID")?.value ?? `${startDate.getTime()}-${Math.random().toString(36).slice(2)}@import`,
+    title: unescapeText(get("SUMMARY")?.value ?? "Untitled event"),
+    description: get("DESCRIPTION") ? unescapeText(get("DESCRIPTION")!.value) : null,
+    startDate,
+    endDate: endDate && endDate > startDate ? endDate : null,
+    timezone,
+    allDay,
+    recurrenceRule: get("RRULE")?.value ?? null,
+    exdates,
+    recurrenceId: recurrenceId ? parseDateValue(recurrenceId.value, recurrenceId.params, defaultTimeZone) : null,
+    cancelled: get("STATUS")?.value.toUpperCase() === "CANCELLED",
+  };
+}
+
+export interface ImportedEventSummary {
+  uid: string;
+  title: string;
+  startDate: Date;
+  isRecurring: boolean;
+  recurrenceRule: string | null;
+  deletedOccurrences: number;
+  modifiedOccurrences: number;
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  imported: ImportedEventSummary[];
+  duplicates: { uid: string; title: string }[];
+  errors: ImportError[];
+}
+
+/**
+ * Create events from parsed VEVENTs. VEVENTs sharing a UID are treated as one
+ * series: the master becomes a recurring event, EXDATEs and cancelled overrides become
+ * deleted occurrences, and RECURRENCE-ID overrides become modified occurrences.
+ * UIDs that already exist for the user are skipped. With dryRun nothing is written.
+ * The VEVENTs parsing couldn't read are reported with the result's errors.
+ */
+export async function importCalendar(
+  storage: IStorage,
+  userId: string,
+  { events, errors }: ParsedCalendar,
+  dryRun: boolean
+): Promise<ImportResult> {
+  const result: ImportResult = { dryRun, imported: [], duplicates: [], errors: [...errors] };
+  const existingUids = new Set((await storage.getStoredEvents(userId)).map(getEventUid));
+
+  const groups = new Map<string, ParsedCalendarEvent[]>();
+  for (const parsed of events) {
+    if (!groups.has(parsed.uid)) groups.set(parsed.uid, []);
+    groups.get(parsed.uid)!.push(parsed);
+  }
+
+  for (const [uid, components] of Array.from(groups.entries())) {
+    const master = components.find(component => !component.recurrenceId);
+    const overrides = components.filter(component => component.recurrenceId);
+    const title = (master ?? components[0]).title;
+
+    if (existingUids.has(uid)) {
+      result.duplicates.push({ uid, title });
+      continue;
+    }
+
+    if (master?.recurrenceRule && !isValidRRule(master.recurrenceRule)) {
+      result.errors.push({ uid, title, message: `Unsupported recurrence rule "${master.recurrenceRule}"` });
+      continue;
+    }
+
+    // Overrides without a master (or of a non-recurring master) are imported as plain events
+    const series = master?.recurrenceRule ? master : undefined;
+    const standalone = series ? [] : components.filter(component => !component.cancelled);
+    const deleted = series
+      ? [...series.exdates, ...overrides.filter(o => o.cancelled).map(o => o.recurrenceId!)]
+      : [];
+    const modified = series ? overrides.filter(override => !override.cancelled) : [];
+
+    if (series) {
+      result.imported.push({
+        uid,
+        title,
+        startDate: series.startDate,
+        isRecurring: true,
+        recurrenceRule: series.recurrenceRule,
+        deletedOccurrences: deleted.length,
+        modifiedOccurrences: modified.length,
+      });
+    } else {
+      result.imported.push(...standalone.map(component => ({
+        uid,
+        title: component.title,
+        startDate: component.startDate,
+        isRecurring: false,
+        recurrenceRule: null,
+        deletedOccurrences: 0,
+        modifiedOccurrences: 0,
+      })));
+    }
+
+    if (dryRun) continue;
+
+    let created: Event | undefined;
+    try {
+      if (series) {
+        created = await storage.createEvent(userId, {
+          title: series.title,
+          description: series.description,
+          startDate: series.startDate,
+          endDate: series.endDate,
+          timezone: series.timezone,
+          allDay: series.allDay,
+          isRecurring: true,
+          recurrenceRule: series.recurrenceRule,
+          icalUid: uid,
+        });
+
+        for (const date of deleted) {
+          await storage.deleteRecurringInstance(userId, created.id, date);
+        }
+        for (const override of modified) {
+          await storage.updateRecurringInstance(userId, created.id, override.recurrenceId!, {
+            title: override.title,
+            description: override.description,
+            startDate: override.startDate,
+            endDate: override.endDate,
+            allDay: override.allDay,
+          });
+        }
+      } else {
+        for (const component of standalone) {
+          await storage.createEvent(userId, {
+            title: component.title,
+            description: component.description,
+            startDate: component.startDate,
+            endDate: component.endDate,
+            timezone: component.timezone,
+            allDay: component.allDay,
+            isRecurring: false,
+            recurrenceRule: null,
+            icalUid: uid,
+          });
+        }
+      }
+    } catch (error) {
+      // A series missing some of its exceptions would show occurrences the calendar doesn't have
+      if (created) await storage.purgeEvent(userId, created.id);
+      result.imported = result.imported.filter(summary => summary.uid !== uid);
+      result.errors.push({ uid, title, message: error instanceof Error ? error.message : "Failed to import event" });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { format } from "date-fns";
+import { deleteFollowingEvents, splitRecurringEvent } from "./recurringSeries";
+import { EnhancedMemStorage } from "./storage";
+
+const MARCH = [new Date("2026-03-01T00:00:00Z"), new Date("2026-04-01T00:00:00Z")] as const;
+
+// A weekly 9:00 standup in New York from Monday 2 March, without its 23 March occurrence
+async function standupWithoutMarch23() {
+  const storage = new EnhancedMemStorage();
+  const user = await storage.createUser({ username: "splitter", password: "secret" });
+  const standup = await storage.createEvent(user.id, {
+    title: "Standup",
+    startDate: new Date("2026-03-02T14:00:00Z"),
+    endDate: new Date("2026-03-02T14:15:00Z"),
+    timezone: "America/New_York",
+    isRecurring: true,
+    recurrenceRule: "FREQ=WEEKLY;BYDAY=MO",
+  });
+  await storage.deleteRecurringInstance(user.id, standup.id, new Date("2026-03-23T13:00:00Z"));
+  return { storage, userId: user.id, standup };
+}
+
+async function occurrences(storage: EnhancedMemStorage, userId: string): Promise<string[]> {
+  const found = await storage.getEventsByDateRange(userId, ...MARCH);
+  return found.map(event => `${event.title} ${format(new Date(event.startDate), "MM-dd HH:mm")}`);
+}
+
+describe("splitting a recurring series", () => {
+  it("keeps deleted occurrences deleted in the new series", async () => {
+    const { storage, userId, standup } = await standupWithoutMarch23();
+
+    const split = await splitRecurringEvent(storage, userId, standup.id, new Date("2026-03-09T13:00:00Z"), {
+      title: "Standup v2",
+      startDate: new Date("2026-03-09T14:00:00Z"),
+      endDate: new Date("2026-03-09T14:15:00Z"),
+    });
+
+    expect(split!.deletedDates).toEqual([new Date("2026-03-23T13:00:00Z")]);
+    expect(await occurrences(storage, userId)).toEqual([
+      "Standup 03-02 14:00",
+      "Standup v2 03-09 14:00",
+      "Standup v2 03-16 14:00",
+      "Standup v2 03-30 14:00",
+    ]);
+    expect(await storage.getEventExceptions(userId)).toEqual([
+      expect.objectContaining({ parentEventId: split!.series!.id, exceptionDate: new Date("2026-03-23T14:00:00Z") }),
+    ]);
+  });
+
+  it("takes deleted occurrences off the series when deleting the following ones", async () => {
+    const { storage, userId, standup } = await standupWithoutMarch23();
+
+    const split = await deleteFollowingEvents(storage, userId, standup.id, new Date("2026-03-16T13:00:00Z"));
+
+    expect(split!.deletedDates).toEqual([new Date("2026-03-23T13:00:00Z")]);
+    expect(await occurrences(storage, userId)).toEqual(["Standup 03-02 14:00", "Standup 03-09 13:00"]);
+    expect(await storage.getEventExceptions(userId)).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { type Event, type InsertEvent, type SeriesSplit } from "@shared/schema";
+import { moveRuleToDate, shiftEndDate, splitRRule } from "@shared/recurrence";
+import { getTimeZoneOffset, zonedTimeToUtc } from "@shared/timezone";
+import type { IStorage } from "./storage";
+
+// Thrown when the occurrence can't start a split, e.g. because it is the first of its series
+export class SeriesSplitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SeriesSplitError";
+  }
+}
+
+async function getSplittableSeries(storage: IStorage, userId: string, parentEventId: string, instanceDate: Date): Promise<Event | null> {
+  const parent = await storage.getEvent(userId, parentEventId);
+  if (!parent) return null;
+
+  if (!parent.isRecurring || !parent.recurrenceRule) {
+    throw new SeriesSplitError("Event is not recurring");
+  }
+  if (instanceDate <= new Date(parent.startDate)) {
+    throw new SeriesSplitError("That is the first occurrence; change the whole series instead");
+  }
+  return parent;
+}
+
+// Where an occurrence of the series lands in the new one, which moves the split occurrence
+// from `from` to `to`; by wall-clock time in the zone, so DST changes between don't shift it
+function shiftOccurrence(date: Date, from: Date, to: Date, timeZone?: string): Date {
+  if (!timeZone) return new Date(date.getTime() + to.getTime() - from.getTime());
+
+  const wallClock = (instant: Date) => instant.getTime() + getTimeZoneOffset(instant, timeZone);
+  const shifted = new Date(wallClock(date) + wallClock(to) - wallClock(from));
+  return zonedTimeToUtc({
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth(),
+    day: shifted.getUTCDate(),
+    hours: shifted.getUTCHours(),
+    minutes: shifted.getUTCMinutes(),
+    seconds: shifted.getUTCSeconds(),
+  }, timeZone, shifted.getUTCMilliseconds());
+}
+
+/**
+ * End the series before the split, trash the occurrences changed on their own from then
+ * on, and move the ones deleted from then on to the new series (if there is one).
+ */
+async function endSeriesBefore(
+  storage: IStorage,
+  userId: string,
+  parent: Event,
+  instanceDate: Date,
+  rule: string,
+  series: Event | null
+): Promise<SeriesSplit> {
+  const original = (await storage.updateEvent(userId, parent.id, { recurrenceRule: rule }))!;
+
+  const trashedIds: string[] = [];
+  for (const stored of await storage.getStoredEvents(userId)) {
+    if (stored.parentEventId === parent.id && stored.originalDate && new Date(stored.originalDate) >= instanceDate) {
+      await storage.deleteEvent(userId, stored.id);
+      trashedIds.push(stored.id);
+    }
+  }
+
+  const deletedDates: Date[] = [];
+  for (const exception of await storage.getEventExceptions(userId)) {
+    const date = new Date(exception.exceptionDate);
+    if (exception.parentEventId !== parent.id || exception.type !== 'deleted' || date < instanceDate) continue;
+
+    if (series?.isRecurring) {
+      const shiftedDate = shiftOccurrence(date, instanceDate, new Date(series.startDate), parent.timezone ?? undefined);
+      await storage.deleteRecurringInstance(userId, series.id, shiftedDate);
+    }
+    await storage.restoreRecurringInstance(userId, parent.id, date);
+    deletedDates.push(date);
+  }
+  return { original, series, trashedIds, deletedDates };
+}
+
+/**
+ * Apply `updates` to the occurrence originally at `instanceDate` and every one after it, by
+ * ending the series there and starting a new one. A move carries the rule's weekday or day
+ * of month along unless a new rule is given. Resolves to null if the series doesn't exist.
+ */
+export async function splitRecurringEvent(
+  storage: IStorage,
+  userId: string,
+  parentEventId: string,
+  instanceDate: Date,
+  updates: Partial<InsertEvent>
+): Promise<SeriesSplit | null> {
+  const parent = await getSplittableSeries(storage, userId, parentEventId, instanceDate);
+  if (!parent) return null;
+
+  const timeZone = parent.timezone ?? undefined;
+  const { before, after } = splitRRule(parent.recurrenceRule!, new Date(parent.startDate), instanceDate, timeZone);
+  const startDate = updates.startDate ?? instanceDate;
+  const recurrenceRule = updates.recurrenceRule !== undefined
+    ? updates.recurrenceRule
+    : moveRuleToDate(after, instanceDate, startDate, timeZone);
+
+  // Create the new series first, so that a failure leaves the old one untouched
+  const series = await storage.createEvent(userId, {
+    title: updates.title ?? parent.title,
+    description: updates.description ?? parent.description,
+    startDate,
+    endDate: updates.endDate ?? shiftEndDate(parent, startDate),
+    timezone: updates.timezone ?? parent.timezone,
+    allDay: updates.allDay ?? parent.allDay,
+    isRecurring: !!recurrenceRule,
+    recurrenceRule,
+  });
+
+  return endSeriesBefore(storage, userId, parent, instanceDate, before, series);
+}
+
+// Delete the occurrence originally at `instanceDate` and every one after it
+export async function deleteFollowingEvents(
+  storage: IStorage,
+  userId: string,
+  parentEventId: string,
+  instanceDate: Date
+): Promise<SeriesSplit | null> {
+  const parent = await getSplittableSeries(storage, userId, parentEventId, instanceDate);
+  if (!parent) return null;
+
+  const { before } = splitRRule(parent.recurrenceRule!, new Date(parent.startDate), instanceDate, parent.timezone ?? undefined);
+  return endSeriesBefore(storage, userId, parent, instanceDate, before, null);
+}
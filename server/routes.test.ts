@@ -0,0 +1,285 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { TRANSCRIPTION_STREAM_PATH, type TranscriptionStreamMessage } from "@shared/transcription";
+import { StubCommandParser } from "./commandParser";
+
+// Wednesday 11 March 2026, 11:00 in New York
+const NOW = new Date("2026-03-11T15:00:00Z");
+
+interface TestServer {
+  baseUrl: string;
+  cookie: string; // A signed-in user's session
+  close: () => Promise<void>;
+}
+
+// The app on a free port, configured by the environment as it is when routes.ts is loaded
+async function startServer(): Promise<TestServer> {
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const signup = await fetch(`${baseUrl}/api/auth/signup`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username: "speaker", password: "secret123", timezone: "America/New_York" }),
+  });
+  return {
+    baseUrl,
+    cookie: signup.headers.get("set-cookie")!.split(";")[0],
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+let app: TestServer;
+
+function post(path: string, body: unknown, headers: Record<string, string> = { Cookie: app.cookie }): Promise<Response> {
+  return fetch(`${app.baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+// Upload `speech` as the recording; the fake provider hears the bytes as the words they spell
+function transcribe(server: TestServer, speech: string): Promise<Response> {
+  const form = new FormData();
+  form.append("audio", new Blob([speech], { type: "audio/webm" }), "recording.webm");
+  return fetch(`${server.baseUrl}/api/transcribe`, { method: "POST", headers: { Cookie: server.cookie }, body: form });
+}
+
+const START = { type: "start", mimeType: "audio/webm" };
+const STOP = { type: "stop" };
+
+// Send `messages` over the transcription socket, strings as audio and objects as control
+// messages; resolves to what the server sent back before closing
+function streamTranscription(server: TestServer, messages: (string | object)[], cookie = server.cookie): Promise<TranscriptionStreamMessage[]> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(`${server.baseUrl.replace("http", "ws")}${TRANSCRIPTION_STREAM_PATH}`, { headers: { Cookie: cookie } });
+    const received: TranscriptionStreamMessage[] = [];
+    socket.on("open", () => {
+      messages.forEach(message => socket.send(typeof message === "string" ? Buffer.from(message) : JSON.stringify(message)));
+    });
+    socket.on("message", data => received.push(JSON.parse(data.toString())));
+    socket.on("close", () => resolve(received));
+    socket.on("error", reject);
+  });
+}
+
+beforeAll(async () => {
+  vi.stubEnv("COMMAND_PARSER", "stub");
+  vi.stubEnv("STT_PROVIDER", "fake");
+  vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+  app = await startServer();
+});
+
+afterAll(async () => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  await app.close();
+});
+
+describe("POST /api/events", () => {
+  it("ignores the fields only the server sets", async () => {
+    const response = await post("/api/events", {
+      title: "Dentist",
+      startDate: "2026-03-12T14:00:00Z",
+      parentEventId: "someone-elses-series",
+      originalDate: "2026-03-12T14:00:00Z",
+      icalUid: "imported@example.com",
+    });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({ title: "Dentist", parentEventId: null, originalDate: null, icalUid: null });
+  });
+});
+
+describe("POST /api/parse-command", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const parse = async (transcript: string) => {
+    const response = await post("/api/parse-command", { transcript });
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result.parser).toBe("stub");
+    return result.command;
+  };
+
+  it("creates events, with dates in the user's zone", async () => {
+    expect(await parse("Schedule team meeting tomorrow at 3pm")).toEqual({
+      action: "create",
+      title: "Team meeting",
+      start: "2026-03-12T15:00",
+    });
+    expect(await parse("Block off the next two days for the offsite")).toEqual({
+      action: "create",
+      title: "Offsite",
+      start: "2026-03-12",
+      end: "2026-03-14",
+      allDay: true,
+    });
+  });
+
+  it("keeps every word of a title that sounds like a date or an edit", async () => {
+    expect(await parse("Add call with Tom on the roadmap")).toEqual({
+      action: "create",
+      title: "Call with Tom on the roadmap",
+    });
+  });
+
+  it("edits events", async () => {
+    expect(await parse("Move the dentist appointment to tomorrow at 10")).toEqual({
+      action: "edit",
+      eventQuery: "dentist appointment",
+      start: "2026-03-12T10:00",
+    });
+    expect(await parse("Rename standup to daily sync")).toEqual({
+      action: "edit",
+      eventQuery: "standup",
+      newTitle: "Daily sync",
+    });
+  });
+
+  it("deletes events", async () => {
+    expect(await parse("Cancel the team meeting")).toEqual({ action: "delete", eventQuery: "team meeting" });
+  });
+
+  it("answers unknown for anything it doesn't recognise", async () => {
+    expect(await parse("sing me a song")).toEqual({ action: "unknown" });
+  });
+
+  it("rejects a missing or empty transcript", async () => {
+    for (const body of [{}, { transcript: "   " }, { transcript: "undo that", timezone: "Mars/Olympus" }]) {
+      const response = await post("/api/parse-command", body);
+      expect(response.status).toBe(400);
+      expect((await response.json()).message).toBe("Invalid command");
+    }
+  });
+
+  it("requires a session", async () => {
+    const response = await post("/api/parse-command", { transcript: "undo that" }, {});
+    expect(response.status).toBe(401);
+  });
+
+  it("refuses a command that fails validation", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(StubCommandParser.prototype, "parse").mockResolvedValue({ action: "create", start: "tomorrow" });
+
+    const response = await post("/api/parse-command", { transcript: "Schedule team meeting tomorrow at 3pm" });
+    expect(response.status).toBe(502);
+    expect((await response.json()).message).toBe("Failed to parse command");
+  });
+});
+
+describe("POST /api/transcribe", () => {
+  it("returns the transcript with its confidence and segment timings", async () => {
+    const response = await transcribe(app, "Schedule lunch  tomorrow at noon");
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      transcript: "Schedule lunch tomorrow at noon",
+      confidence: 1,
+      segments: [{ start: 0, end: 2, text: "Schedule lunch  tomorrow at noon", confidence: 1 }],
+      provider: "fake",
+      success: true,
+    });
+  });
+
+  it("has no confidence for silence", async () => {
+    const response = await transcribe(app, "");
+    expect(await response.json()).toMatchObject({ transcript: "", confidence: null, segments: [] });
+  });
+
+  it("needs a recording", async () => {
+    const response = await fetch(`${app.baseUrl}/api/transcribe`, { method: "POST", headers: { Cookie: app.cookie }, body: new FormData() });
+    expect(response.status).toBe(400);
+    expect((await response.json()).message).toBe("No audio file provided");
+  });
+});
+
+describe("transcription stream", () => {
+  it("sends the final transcript of the whole recording", async () => {
+    const messages = await streamTranscription(app, [START, "Schedule lunch ", "tomorrow at noon", STOP]);
+    expect(messages.at(-1)).toEqual({
+      type: "final",
+      provider: "fake",
+      transcript: "Schedule lunch tomorrow at noon",
+      confidence: 1,
+      segments: [{ start: 0, end: 2, text: "Schedule lunch tomorrow at noon", confidence: 1 }],
+    });
+  });
+
+  it("transcribes the audio sent in place of the stream", async () => {
+    const replace = { type: "replace", mimeType: "audio/wav" };
+    const messages = await streamTranscription(app, [START, "uh ", "Schedule lunch ", "hmm", replace, "Schedule lunch", STOP]);
+    expect(messages.at(-1)).toMatchObject({ type: "final", transcript: "Schedule lunch" });
+  });
+
+  it("reports a message it can't read and carries on", async () => {
+    const messages = await streamTranscription(app, [START, { type: "pause" }, "Lunch", STOP]);
+    expect(messages[0]).toEqual({ type: "error", message: "Invalid message" });
+    expect(messages[1]).toMatchObject({ type: "final", transcript: "Lunch" });
+  });
+
+  it("refuses a connection without a session", async () => {
+    await expect(streamTranscription(app, [], "")).rejects.toThrow("Unexpected server response: 401");
+  });
+
+  it("refuses more streams at once than a session may have", async () => {
+    const url = `${app.baseUrl.replace("http", "ws")}${TRANSCRIPTION_STREAM_PATH}`;
+    const open = await Promise.all([1, 2].map(() => new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(url, { headers: { Cookie: app.cookie } });
+      socket.on("open", () => resolve(socket));
+      socket.on("error", reject);
+    })));
+
+    await expect(streamTranscription(app, [])).rejects.toThrow("Unexpected server response: 429");
+
+    await Promise.all(open.map(socket => new Promise(resolve => {
+      socket.on("close", resolve);
+      socket.close();
+    })));
+    // The server sees its end of the connections close just after
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const messages = await streamTranscription(app, [START, "Lunch", STOP]);
+    expect(messages.at(-1)).toMatchObject({ type: "final", transcript: "Lunch" });
+  });
+});
+
+describe("transcription with whisper.cpp missing", () => {
+  let whisper: TestServer;
+
+  beforeAll(async () => {
+    vi.stubEnv("STT_PROVIDER", "whisper-cpp");
+    vi.stubEnv("WHISPER_CPP_MODEL", "/models/ggml-base.bin");
+    vi.stubEnv("WHISPER_CPP_BIN", "/nonexistent/whisper-cli");
+    vi.stubEnv("FFMPEG_BIN", "true"); // Converting succeeds, so it is whisper.cpp that fails
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.resetModules();
+    whisper = await startServer();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await whisper.close();
+  });
+
+  it("answers the upload with the error", async () => {
+    const response = await transcribe(whisper, "Schedule lunch");
+    expect(response.status).toBe(500);
+    const result = await response.json();
+    expect(result.message).toBe("Failed to transcribe audio");
+    expect(result.error).toContain("ENOENT");
+  });
+
+  it("ends the stream with an error", async () => {
+    const messages = await streamTranscription(whisper, [START, "Schedule lunch", STOP]);
+    expect(messages).toEqual([{ type: "error", message: "Failed to transcribe audio" }]);
+  });
+});
@@ -1,23 +1,45 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import OpenAI from "openai";
-import { storage } from "./storage";
-import { insertEventSchema, insertUserSchema } from "@shared/schema";
+import { storage, prepareStorage } from "./storage";
+import { buildCalendar, importCalendar, parseCalendar } from "./ical";
+import { findConflicts, type ConflictCheck } from "./conflicts";
+import { findFreeSlots, MAX_AVAILABILITY_DAYS } from "./availability";
+import { splitRecurringEvent, deleteFollowingEvents, SeriesSplitError } from "./recurringSeries";
+import { createCommandParser } from "./commandParser";
+import { createTranscriptionProvider } from "./transcription";
+import { attachTranscriptionStream } from "./transcriptionStream";
+import { schedulePurge, TRASH_RETENTION_DAYS } from "./trash";
+import { availabilityQuerySchema, insertEventSchema, insertUserSchema, userPreferencesSchema, DEFAULT_EVENT_DURATION, type User } from "@shared/schema";
+import { addZonedDays } from "@shared/timezone";
+import { shiftEndDate } from "@shared/recurrence";
+import { parseCommandRequestSchema, voiceCommandSchema } from "@shared/voiceCommand";
+import { DEFAULT_LOCALE, isSupportedLocale } from "@shared/locale";
 import { z } from "zod";
 import bcrypt from "bcrypt";
 import session from "express-session";
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+declare module "express-session" {
+  interface SessionData {
+    userId: string;
+  }
+}
+
+// Initialize OpenAI client; without a key the app runs on the other parsers and providers
+const openai = process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null;
+
+// Structured parsing of voice commands; null when none is configured
+const commandParser = createCommandParser(openai);
+
+// Speech to text for recorded audio; null when none is configured
+const transcriber = createTranscriptionProvider(openai);
 
 // Configure multer for audio file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 25 * 1024 * 1024, // 25MB limit (Whisper's max)
+    fileSize: 25 * 1024 * 1024, // 25MB limit (OpenAI Whisper's max)
   },
   fileFilter: (req, file, cb) => {
     // Accept audio files
@@ -29,9 +51,40 @@ const upload = multer({
   },
 });
 
+// Configure multer for iCalendar (.ics) uploads
+const calendarUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'text/calendar' || file.originalname.toLowerCase().endsWith('.ics')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only iCalendar (.ics) files are allowed'));
+    }
+  },
+});
+
+// User fields that are safe to send to the client
+function toPublicUser(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    timezone: user.timezone,
+    defaultEventDuration: user.defaultEventDuration,
+    locale: user.locale,
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Session configuration
-  app.use(session({
+  await prepareStorage();
+
+  // Empty the trash of events past their retention period
+  schedulePurge(storage);
+
+  // Session configuration, shared with the transcription socket
+  const sessionMiddleware = session({
     secret: process.env.SESSION_SECRET || 'calendar-app-secret-key',
     resave: false,
     saveUninitialized: false,
@@ -39,7 +92,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       secure: process.env.NODE_ENV === 'production',
       maxAge: 24 * 60 * 60 * 1000, // 24 hours
     },
-  }));
+  });
+  app.use(sessionMiddleware);
 
   // Authentication middleware
   const requireAuth = (req: any, res: any, next: any) => {
@@ -48,10 +102,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     next();
   };
+
+  // Sends a 409 listing the overlapping events, unless the client asked for ?force=true
+  const rejectConflicts = async (req: Request, res: Response, check: ConflictCheck): Promise<boolean> => {
+    if (req.query.force === 'true') return false;
+
+    const conflicts = await findConflicts(storage, req.session.userId!, check);
+    if (conflicts.length === 0) return false;
+
+    res.status(409).json({ message: "Event overlaps existing events", conflicts });
+    return true;
+  };
+
   // Authentication routes
   app.post("/api/auth/signup", async (req, res) => {
     try {
-      const { username, password } = insertUserSchema.parse(req.body);
+      const { username, password, timezone } = insertUserSchema.parse(req.body);
       
       // Check if user already exists
       const existingUser = await storage.getUserByUsername(username);
@@ -66,6 +132,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = await storage.createUser({
         username,
         password: hashedPassword,
+        timezone,
       });
 
       // Set session
@@ -73,7 +140,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.status(201).json({
         message: "User created successfully",
-        user: { id: user.id, username: user.username },
+        user: toPublicUser(user),
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -108,7 +175,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({
         message: "Login successful",
-        user: { id: user.id, username: user.username },
+        user: toPublicUser(user),
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -143,25 +210,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       res.json({
-        user: { id: user.id, username: user.username },
+        user: toPublicUser(user),
       });
     } catch (error) {
       console.error("Auth check error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
+  // Update the current user's preferences (protected)
+  app.put("/api/user/preferences", requireAuth, async (req, res) => {
+    try {
+      const preferences = userPreferencesSchema.parse(req.body);
+      const user = await storage.updateUserPreferences(req.session.userId!, preferences);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json({ user: toPublicUser(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid preferences", 
+          errors: error.errors 
+        });
+      }
+      console.error("Update preferences error:", error);
+      res.status(500).json({ message: "Failed to update preferences" });
+    }
+  });
+
   // Get all events (protected)
   app.get("/api/events", requireAuth, async (req, res) => {
     try {
-      const events = await storage.getEvents();
+      const events = await storage.getEvents(req.session.userId!);
       res.json(events);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch events" });
     }
   });
 
-  // Get events by date range
-  app.get("/api/events/range", async (req, res) => {
+  // Get events by date range (protected)
+  app.get("/api/events/range", requireAuth, async (req, res) => {
     try {
       const { startDate, endDate } = req.query;
       
@@ -170,6 +259,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const events = await storage.getEventsByDateRange(
+        req.session.userId!,
         new Date(startDate as string),
         new Date(endDate as string)
       );
@@ -179,10 +269,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get single event
-  app.get("/api/events/:id", async (req, res) => {
+  // Deleted events that can still be restored, most recent first (protected)
+  app.get("/api/events/trash", requireAuth, async (req, res) => {
+    try {
+      const events = await storage.getDeletedEvents(req.session.userId!);
+      res.json({ retentionDays: TRASH_RETENTION_DAYS, events });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  // Free slots of a given length within working hours (protected)
+  app.get("/api/availability", requireAuth, async (req, res) => {
     try {
-      const event = await storage.getEvent(req.params.id);
+      const query = availabilityQuerySchema.parse(req.query);
+      if (query.endDate.getTime() - query.startDate.getTime() > MAX_AVAILABILITY_DAYS * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ message: `Date range can be at most ${MAX_AVAILABILITY_DAYS} days` });
+      }
+
+      const user = await storage.getUser(req.session.userId!);
+      const durationMinutes = query.duration ?? user?.defaultEventDuration ?? DEFAULT_EVENT_DURATION;
+      const timezone = query.timezone ?? user?.timezone ?? "UTC";
+
+      const slots = await findFreeSlots(storage, req.session.userId!, {
+        startDate: query.startDate,
+        endDate: query.endDate,
+        durationMinutes,
+        workdayStart: query.workdayStart,
+        workdayEnd: query.workdayEnd,
+        timeZone: timezone,
+      });
+      res.json({ durationMinutes, timezone, slots });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid availability query", 
+          errors: error.errors 
+        });
+      }
+      console.error("Availability error:", error);
+      res.status(500).json({ message: "Failed to find free time" });
+    }
+  });
+
+  // Get single event (protected)
+  app.get("/api/events/:id", requireAuth, async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.session.userId!, req.params.id);
       if (!event) {
         return res.status(404).json({ message: "Event not found" });
       }
@@ -192,6 +325,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Export a single event (with its series exceptions) as iCalendar (protected)
+  app.get("/api/events/:id/ics", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const eventId = req.params.id.includes('-recur-') ? req.params.id.split('-recur-')[0] : req.params.id;
+      const event = await storage.getEvent(userId, eventId);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      // Include the modified occurrences of a series so they come out as RECURRENCE-ID overrides
+      const storedEvents = await storage.getStoredEvents(userId);
+      const overrides = storedEvents.filter(stored => stored.parentEventId === event.id);
+      const exceptions = (await storage.getEventExceptions(userId))
+        .filter(exception => exception.parentEventId === event.id);
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="event-${event.id}.ics"`);
+      res.send(buildCalendar([event, ...overrides], exceptions, event.title));
+    } catch (error) {
+      console.error("Event export error:", error);
+      res.status(500).json({ message: "Failed to export event" });
+    }
+  });
+
   // Create new event (protected)
   app.post("/api/events", requireAuth, async (req, res) => {
     try {
@@ -203,7 +361,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       const validatedData = insertEventSchema.parse(eventData);
-      const event = await storage.createEvent(validatedData);
+      if (validatedData.endDate && validatedData.endDate <= validatedData.startDate) {
+        return res.status(400).json({ message: "End time must be after start time" });
+      }
+
+      // Anchor new events in the user's zone unless the client picked one
+      const user = await storage.getUser(req.session.userId!);
+      if (!validatedData.timezone) {
+        validatedData.timezone = user?.timezone ?? null;
+      }
+
+      // Events without an end last one day if all-day, otherwise the user's default duration
+      if (!validatedData.endDate && validatedData.allDay) {
+        validatedData.endDate = addZonedDays(validatedData.startDate, 1, validatedData.timezone ?? "UTC");
+      } else if (!validatedData.endDate) {
+        const minutes = user?.defaultEventDuration ?? DEFAULT_EVENT_DURATION;
+        validatedData.endDate = new Date(validatedData.startDate.getTime() + minutes * 60 * 1000);
+      }
+
+      if (!validatedData.allDay && await rejectConflicts(req, res, {
+        startDate: validatedData.startDate,
+        endDate: validatedData.endDate,
+      })) {
+        return;
+      }
+
+      const event = await storage.createEvent(req.session.userId!, validatedData);
       res.status(201).json(event);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -228,8 +411,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const updateSchema = insertEventSchema.partial();
       const validatedData = updateSchema.parse(eventData);
+      if (validatedData.startDate && validatedData.endDate && validatedData.endDate <= validatedData.startDate) {
+        return res.status(400).json({ message: "End time must be after start time" });
+      }
+
+      // Only a change of time can create a new overlap
+      if (validatedData.startDate || validatedData.endDate) {
+        const existing = await storage.getEvent(req.session.userId!, req.params.id);
+        if (existing && !(validatedData.allDay ?? existing.allDay)) {
+          const startDate = validatedData.startDate ?? new Date(existing.startDate);
+          const endDate = validatedData.endDate
+            ?? (existing.endDate ? new Date(existing.endDate) : new Date(startDate.getTime() + DEFAULT_EVENT_DURATION * 60 * 1000));
+          if (await rejectConflicts(req, res, { startDate, endDate, eventId: existing.id })) {
+            return;
+          }
+        }
+      }
       
-      const event = await storage.updateEvent(req.params.id, validatedData);
+      const event = await storage.updateEvent(req.session.userId!, req.params.id, validatedData);
       if (!event) {
         return res.status(404).json({ message: "Event not found" });
       }
@@ -254,8 +453,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Check if this is a recurring event instance deletion
       if (instanceDate && typeof instanceDate === 'string') {
         const parentEventId = id.includes('-recur-') ? id.split('-recur-')[0] : id;
-        const success = await (storage as any).deleteRecurringInstance?.(
-          parentEventId, 
+        const success = await storage.deleteRecurringInstance(
+          req.session.userId!,
+          parentEventId,
           new Date(instanceDate)
         );
         
@@ -265,7 +465,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           res.status(404).json({ message: "Event instance not found" });
         }
       } else {
-        const deleted = await storage.deleteEvent(id);
+        // Moves it to the trash, from where POST /api/events/:id/restore brings it back
+        const deleted = await storage.deleteEvent(req.session.userId!, id);
         if (!deleted) {
           return res.status(404).json({ message: "Event not found" });
         }
@@ -276,18 +477,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Take an event back out of the trash (protected)
+  app.post("/api/events/:id/restore", requireAuth, async (req, res) => {
+    try {
+      const event = await storage.restoreEvent(req.session.userId!, req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found in trash" });
+      }
+      res.json(event);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore event" });
+    }
+  });
+
+  // Undo the last change to a single occurrence of a recurring event (protected)
+  app.post("/api/events/:id/instance/restore", requireAuth, async (req, res) => {
+    try {
+      const { instanceDate } = req.body;
+      if (!instanceDate) {
+        return res.status(400).json({ message: "instanceDate is required" });
+      }
+
+      const parentEventId = req.params.id.includes('-recur-') ? req.params.id.split('-recur-')[0] : req.params.id;
+      const restored = await storage.restoreRecurringInstance(
+        req.session.userId!,
+        parentEventId,
+        new Date(instanceDate)
+      );
+
+      if (restored) {
+        res.status(204).send();
+      } else {
+        res.status(404).json({ message: "No change to this occurrence to undo" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore event instance" });
+    }
+  });
+
   // Update recurring event instance (protected)
   app.patch("/api/events/:id/instance", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const { instanceDate, ...updates } = req.body;
+      const { instanceDate, ...body } = req.body;
       
       if (!instanceDate) {
         return res.status(400).json({ message: "instanceDate is required" });
       }
 
+      const updates = insertEventSchema.partial().parse({
+        ...body,
+        startDate: body.startDate ? new Date(body.startDate) : undefined,
+        endDate: body.endDate ? new Date(body.endDate) : undefined
+      });
+
       const parentEventId = id.includes('-recur-') ? id.split('-recur-')[0] : id;
-      const updatedEvent = await (storage as any).updateRecurringInstance?.(
+
+      if (updates.startDate || updates.endDate) {
+        const parentEvent = await storage.getEvent(req.session.userId!, parentEventId);
+        if (parentEvent && !(updates.allDay ?? parentEvent.allDay)) {
+          const startDate = updates.startDate ?? new Date(instanceDate);
+          const endDate = updates.endDate
+            ?? shiftEndDate(parentEvent, startDate)
+            ?? new Date(startDate.getTime() + DEFAULT_EVENT_DURATION * 60 * 1000);
+          if (await rejectConflicts(req, res, {
+            startDate,
+            endDate,
+            eventId: parentEventId,
+            instanceDate: new Date(instanceDate),
+          })) {
+            return;
+          }
+        }
+      }
+
+      const updatedEvent = await storage.updateRecurringInstance(
+        req.session.userId!,
         parentEventId,
         new Date(instanceDate),
         updates
@@ -299,34 +564,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.status(404).json({ message: "Event not found" });
       }
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid event data", 
+          errors: error.errors 
+        });
+      }
       console.error("Update event instance error:", error);
       res.status(500).json({ message: "Failed to update event instance" });
     }
   });
 
-  // Voice transcription endpoint using OpenAI Whisper (protected)
+  // Change an occurrence of a recurring event and all the ones after it, splitting the series (protected)
+  app.patch("/api/events/:id/following", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { instanceDate, ...body } = req.body;
+
+      if (!instanceDate) {
+        return res.status(400).json({ message: "instanceDate is required" });
+      }
+
+      const updates = insertEventSchema.partial().parse({
+        ...body,
+        startDate: body.startDate ? new Date(body.startDate) : undefined,
+        endDate: body.endDate ? new Date(body.endDate) : undefined
+      });
+
+      const parentEventId = id.includes('-recur-') ? id.split('-recur-')[0] : id;
+
+      // Like a change to the whole series, only the first of the new occurrences is checked
+      if (updates.startDate || updates.endDate) {
+        const parentEvent = await storage.getEvent(req.session.userId!, parentEventId);
+        if (parentEvent && !(updates.allDay ?? parentEvent.allDay)) {
+          const startDate = updates.startDate ?? new Date(instanceDate);
+          const endDate = updates.endDate
+            ?? shiftEndDate(parentEvent, startDate)
+            ?? new Date(startDate.getTime() + DEFAULT_EVENT_DURATION * 60 * 1000);
+          if (await rejectConflicts(req, res, { startDate, endDate, eventId: parentEventId })) {
+            return;
+          }
+        }
+      }
+
+      const split = await splitRecurringEvent(storage, req.session.userId!, parentEventId, new Date(instanceDate), updates);
+      if (!split) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      res.status(201).json(split);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid event data", 
+          errors: error.errors 
+        });
+      }
+      if (error instanceof SeriesSplitError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update following events error:", error);
+      res.status(500).json({ message: "Failed to update following events" });
+    }
+  });
+
+  // Delete an occurrence of a recurring event and all the ones after it (protected)
+  app.delete("/api/events/:id/following", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { instanceDate } = req.query;
+
+      if (!instanceDate || typeof instanceDate !== 'string') {
+        return res.status(400).json({ message: "instanceDate is required" });
+      }
+
+      const parentEventId = id.includes('-recur-') ? id.split('-recur-')[0] : id;
+      const split = await deleteFollowingEvents(storage, req.session.userId!, parentEventId, new Date(instanceDate));
+      if (!split) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      res.json(split);
+    } catch (error) {
+      if (error instanceof SeriesSplitError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Delete following events error:", error);
+      res.status(500).json({ message: "Failed to delete following events" });
+    }
+  });
+
+  // Export the user's whole calendar as iCalendar (protected)
+  app.get("/api/calendar.ics", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const [storedEvents, exceptions] = await Promise.all([
+        storage.getStoredEvents(userId),
+        storage.getEventExceptions(userId),
+      ]);
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="calendar.ics"');
+      res.send(buildCalendar(storedEvents, exceptions));
+    } catch (error) {
+      console.error("Calendar export error:", error);
+      res.status(500).json({ message: "Failed to export calendar" });
+    }
+  });
+
+  // Voice transcription with the configured speech-to-text provider (protected)
   app.post("/api/transcribe", requireAuth, upload.single('audio'), async (req, res) => {
+    if (!transcriber) {
+      return res.status(503).json({ message: "Transcription is not configured" });
+    }
+
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No audio file provided" });
       }
 
-      // Create a File object from the buffer for OpenAI
-      const audioFile = new File([req.file.buffer], req.file.originalname || 'audio.webm', {
-        type: req.file.mimetype,
-      });
-
-      // Use OpenAI Whisper for transcription
-      // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      const transcription = await openai.audio.transcriptions.create({
-        file: audioFile,
-        model: "whisper-1",
-        language: "en", // Can be made configurable
-        response_format: "text",
+      const user = await storage.getUser(req.session.userId!);
+      const transcription = await transcriber.transcribe({
+        data: req.file.buffer,
+        filename: req.file.originalname || 'audio.webm',
+        mimeType: req.file.mimetype,
+        language: user?.locale ?? DEFAULT_LOCALE,
       });
 
       res.json({ 
-        transcript: transcription.trim(),
+        ...transcription,
+        provider: transcriber.name,
         success: true 
       });
     } catch (error) {
@@ -338,6 +703,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Parse a voice command into a structured command (protected). Clients fall back to
+  // their own rule-based parser when this fails or no parser is configured.
+  app.post("/api/parse-command", requireAuth, async (req, res) => {
+    if (!commandParser) {
+      return res.status(503).json({ message: "Command parsing is not configured" });
+    }
+
+    const request = parseCommandRequestSchema.safeParse(req.body);
+    if (!request.success) {
+      return res.status(400).json({ 
+        message: "Invalid command", 
+        errors: request.error.errors 
+      });
+    }
+
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      const command = await commandParser.parse(request.data.transcript, {
+        timeZone: request.data.timezone ?? user?.timezone ?? "UTC",
+        locale: isSupportedLocale(user?.locale) ? user.locale : DEFAULT_LOCALE,
+        now: new Date(),
+      });
+      res.json({ parser: commandParser.name, command: voiceCommandSchema.parse(command) });
+    } catch (error) {
+      console.error("Command parsing error:", error);
+      res.status(502).json({ message: "Failed to parse command" });
+    }
+  });
+
+  // Import events from an iCalendar file; ?dryRun=true previews without saving (protected)
+  app.post("/api/import/ics", requireAuth, calendarUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No calendar file provided" });
+      }
+
+      // Floating times in the file are read in the user's zone
+      const user = await storage.getUser(req.session.userId!);
+      const timeZone = user?.timezone ?? "UTC";
+
+      let parsedCalendar;
+      try {
+        parsedCalendar = parseCalendar(req.file.buffer.toString('utf-8'), timeZone);
+      } catch (error) {
+        return res.status(400).json({
+          message: "Invalid calendar file",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+
+      const result = await importCalendar(
+        storage,
+        req.session.userId!,
+        parsedCalendar,
+        req.query.dryRun === 'true'
+      );
+      res.status(result.dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      console.error("Calendar import error:", error);
+      res.status(500).json({ message: "Failed to import calendar" });
+    }
+  });
+
   const httpServer = createServer(app);
+
+  // Live transcription of audio as it is recorded (protected)
+  attachTranscriptionStream(httpServer, sessionMiddleware, transcriber, async userId =>
+    (await storage.getUser(userId))?.locale ?? DEFAULT_LOCALE
+  );
+
   return httpServer;
 }
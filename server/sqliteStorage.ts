@@ -0,0 +1,36 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { drizzle, type BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import type { NeonDatabase } from "drizzle-orm/neon-serverless";
+import { lt } from "drizzle-orm";
+import { events, eventExceptions, users } from "@shared/sqliteSchema";
+import { DrizzleStorage, type DrizzleTables } from "./drizzleStorage";
+
+// Checked-in drizzle migrations; server/ in development and dist/ in production are both one level down
+const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations", "sqlite");
+
+// Storage in a single SQLite file, for running without a database server; the schema is kept up to date by migrate()
+export class SqliteStorage extends DrizzleStorage {
+  private sqlite: BetterSQLite3Database;
+
+  constructor(filename: string) {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    const sqlite = new Database(filename);
+    sqlite.pragma("journal_mode = WAL");
+    sqlite.pragma("foreign_keys = ON"); // Off by default, and the exception cascades depend on it
+    const db = drizzle(sqlite);
+    super(db as unknown as NeonDatabase, { users, events, eventExceptions } as unknown as DrizzleTables);
+    this.sqlite = db;
+  }
+
+  async migrate(): Promise<void> {
+    migrate(this.sqlite, { migrationsFolder: MIGRATIONS_FOLDER });
+  }
+
+  async purgeDeletedEvents(deletedBefore: Date): Promise<number> {
+    const result = await this.sqlite.delete(events).where(lt(events.deletedAt, deletedBefore));
+    return result.changes;
+  }
+}
@@ -0,0 +1,322 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { randomUUID } from "crypto";
+import { DataType, newDb } from "pg-mem";
+import type { Pool } from "@neondatabase/serverless";
+import type { QueryArrayConfig, QueryConfig } from "pg";
+import { format } from "date-fns";
+import { EnhancedMemStorage, type IStorage } from "./storage";
+import { SupabaseStorage } from "./supabaseStorage";
+import { SqliteStorage } from "./sqliteStorage";
+
+// Wednesday 11 March 2026
+const NOW = new Date("2026-03-11T15:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * An in-memory PostgreSQL behind the serverless driver's pool. pg-mem can't apply drizzle's
+ * type parsers or return rows as arrays, so those options are dropped and the rows turned
+ * into arrays here.
+ */
+function pgMemPool(): Pool {
+  const db = newDb();
+  db.public.registerFunction({ name: "gen_random_uuid", returns: DataType.text, implementation: randomUUID, impure: true });
+  const { Pool: MemPool } = db.adapters.createPg();
+  const pool = new MemPool();
+  const query = pool.query.bind(pool);
+
+  pool.query = async (config: string | QueryConfig | QueryArrayConfig, values?: unknown[]) => {
+    if (typeof config === "string") return query(config, values);
+    const { types, rowMode, ...rest }: QueryConfig & Partial<QueryArrayConfig> = config;
+    const result = await query(rest, values);
+    return rowMode === "array" ? { ...result, rows: result.rows.map((row: object) => Object.values(row)) } : result;
+  };
+  return pool as unknown as Pool;
+}
+
+const BACKENDS: { name: string; create: () => Promise<IStorage> }[] = [
+  {
+    name: "EnhancedMemStorage",
+    create: async () => new EnhancedMemStorage(),
+  },
+  {
+    name: "SupabaseStorage (pg-mem)",
+    create: async () => {
+      const storage = new SupabaseStorage(pgMemPool());
+      await storage.migrate();
+      return storage;
+    },
+  },
+  {
+    name: "SqliteStorage",
+    create: async () => {
+      const storage = new SqliteStorage(":memory:");
+      await storage.migrate();
+      return storage;
+    },
+  },
+];
+
+describe.each(BACKENDS)("$name", ({ create }) => {
+  let storage: IStorage;
+  let userId: string;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+    storage = await create();
+    userId = (await storage.createUser({ username: "alice", password: "secret" })).id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Weekly on Mondays at 9:00 from 2 March
+  const createStandup = () => storage.createEvent(userId, {
+    title: "Standup",
+    startDate: new Date("2026-03-02T09:00:00Z"),
+    endDate: new Date("2026-03-02T09:15:00Z"),
+    isRecurring: true,
+    recurrenceRule: "FREQ=WEEKLY;BYDAY=MO",
+  });
+
+  // What is on the calendar in March, as "title MM-dd HH:mm"
+  const march = async () => {
+    const found = await storage.getEventsByDateRange(userId, new Date("2026-03-01T00:00:00Z"), new Date("2026-03-31T23:59:59Z"));
+    return found.map(event => `${event.title} ${format(new Date(event.startDate), "MM-dd HH:mm")}`);
+  };
+
+  describe("users", () => {
+    it("creates users with the default preferences and updates them", async () => {
+      const user = await storage.getUserByUsername("alice");
+      expect(user).toMatchObject({ id: userId, timezone: "UTC", defaultEventDuration: 60, locale: "en" });
+
+      const updated = await storage.updateUserPreferences(userId, { timezone: "Europe/Berlin", locale: "de" });
+      expect(updated).toMatchObject({ username: "alice", timezone: "Europe/Berlin", defaultEventDuration: 60, locale: "de" });
+      expect(await storage.getUser(userId)).toEqual(updated);
+      expect(await storage.getUserByUsername("bob")).toBeUndefined();
+    });
+  });
+
+  describe("events", () => {
+    it("creates, updates and lists events, with recurring ones expanded", async () => {
+      const lunch = await storage.createEvent(userId, {
+        title: "Lunch",
+        startDate: new Date("2026-03-11T12:00:00Z"),
+        endDate: new Date("2026-03-11T13:00:00Z"),
+        timezone: "Europe/London",
+      });
+      expect(lunch).toMatchObject({ title: "Lunch", description: null, allDay: false, isRecurring: false, deletedAt: null });
+
+      const updated = await storage.updateEvent(userId, lunch.id, { title: "Team lunch" });
+      expect(updated).toMatchObject({ id: lunch.id, title: "Team lunch", timezone: "Europe/London" });
+      expect(await storage.getEvent(userId, lunch.id)).toEqual(updated);
+
+      await createStandup();
+      const listed = await storage.getEvents(userId);
+      expect(listed.map(event => event.title)).toContain("Team lunch");
+      const standups = listed.filter(event => event.title === "Standup").map(event => format(new Date(event.startDate), "EEE HH:mm"));
+      expect(standups.length).toBeGreaterThan(1);
+      expect(new Set(standups)).toEqual(new Set(["Mon 09:00"]));
+    });
+
+    it("keeps each user's events to themselves", async () => {
+      const bob = await storage.createUser({ username: "bob", password: "secret" });
+      const event = await storage.createEvent(bob.id, { title: "Bob's dentist", startDate: NOW });
+
+      expect(await storage.getEvent(userId, event.id)).toBeUndefined();
+      expect(await storage.updateEvent(userId, event.id, { title: "Mine now" })).toBeUndefined();
+      expect(await storage.deleteEvent(userId, event.id)).toBe(false);
+      expect(await storage.getEvents(userId)).toEqual([]);
+      expect(await storage.getEvent(bob.id, event.id)).toMatchObject({ title: "Bob's dentist" });
+    });
+
+    it("returns events that overlap a range, not just those starting in it", async () => {
+      const event = (title: string, start: string, end?: string) => storage.createEvent(userId, {
+        title,
+        startDate: new Date(start),
+        endDate: end ? new Date(end) : undefined,
+      });
+      await event("Conference", "2026-03-09T09:00:00Z", "2026-03-12T17:00:00Z");
+      await event("Ended before", "2026-03-10T09:00:00Z", "2026-03-11T00:00:00Z");
+      await event("Lunch", "2026-03-11T12:00:00Z", "2026-03-11T13:00:00Z");
+      await event("Reminder", "2026-03-11T08:00:00Z");
+      await event("No end, before", "2026-03-10T23:00:00Z");
+      await event("Tomorrow", "2026-03-12T09:00:00Z", "2026-03-12T10:00:00Z");
+
+      const found = await storage.getEventsByDateRange(userId, new Date("2026-03-11T00:00:00Z"), new Date("2026-03-11T23:59:59Z"));
+      expect(found.map(event => event.title)).toEqual(["Conference", "Reminder", "Lunch"]);
+    });
+  });
+
+  describe("recurring instances", () => {
+    it("includes occurrences still running when the range starts", async () => {
+      await storage.createEvent(userId, {
+        title: "Night shift",
+        startDate: new Date("2026-03-02T22:00:00Z"),
+        endDate: new Date("2026-03-03T06:00:00Z"),
+        isRecurring: true,
+        recurrenceRule: "FREQ=DAILY",
+      });
+      await storage.createEvent(userId, {
+        title: "Sabbatical",
+        startDate: new Date("2026-01-05T00:00:00Z"),
+        endDate: new Date("2026-01-19T00:00:00Z"),
+        isRecurring: true,
+        recurrenceRule: "FREQ=MONTHLY",
+      });
+
+      const found = await storage.getEventsByDateRange(userId, new Date("2026-03-11T00:00:00Z"), new Date("2026-03-11T23:59:59Z"));
+      expect(found.map(event => `${event.title} ${new Date(event.startDate).toISOString()}`).sort()).toEqual([
+        "Night shift 2026-03-10T22:00:00.000Z",
+        "Night shift 2026-03-11T22:00:00.000Z",
+        "Sabbatical 2026-03-05T00:00:00.000Z",
+      ]);
+    });
+
+    it("skips deleted occurrences", async () => {
+      const standup = await createStandup();
+      expect(await storage.deleteRecurringInstance(userId, standup.id, new Date("2026-03-16T09:00:00Z"))).toBe(true);
+
+      expect(await march()).toEqual(["Standup 03-02 09:00", "Standup 03-09 09:00", "Standup 03-23 09:00", "Standup 03-30 09:00"]);
+      expect(await storage.getEventExceptions(userId)).toEqual([
+        expect.objectContaining({ parentEventId: standup.id, exceptionDate: new Date("2026-03-16T09:00:00Z"), type: "deleted", modifiedEventId: null }),
+      ]);
+    });
+
+    it("skips only the occurrence starting at the exception's exact time", async () => {
+      const checkIn = await storage.createEvent(userId, {
+        title: "Check-in",
+        startDate: new Date("2026-03-30T09:00:00Z"),
+        isRecurring: true,
+        recurrenceRule: "FREQ=DAILY",
+      });
+      await storage.deleteRecurringInstance(userId, checkIn.id, new Date("2026-03-31T12:00:00Z"));
+
+      expect(await march()).toEqual(["Check-in 03-30 09:00", "Check-in 03-31 09:00"]);
+    });
+
+    it("reads a floating UNTIL in the series' zone", async () => {
+      await storage.createEvent(userId, {
+        title: "Standup",
+        startDate: new Date("2026-03-02T14:00:00Z"),
+        timezone: "America/New_York",
+        isRecurring: true,
+        recurrenceRule: "FREQ=DAILY;UNTIL=20260305T090000",
+      });
+
+      expect(await march()).toEqual(["Standup 03-02 14:00", "Standup 03-03 14:00", "Standup 03-04 14:00", "Standup 03-05 14:00"]);
+    });
+
+    it("replaces a changed occurrence with an event of its own", async () => {
+      const standup = await createStandup();
+      const moved = await storage.updateRecurringInstance(userId, standup.id, new Date("2026-03-16T09:00:00Z"), {
+        title: "Standup (moved)",
+        startDate: new Date("2026-03-17T10:00:00Z"),
+      });
+
+      expect(moved).toMatchObject({
+        title: "Standup (moved)",
+        endDate: new Date("2026-03-17T10:15:00Z"),
+        isRecurring: false,
+        parentEventId: standup.id,
+        originalDate: new Date("2026-03-16T09:00:00Z"),
+      });
+      expect(await march()).toEqual([
+        "Standup 03-02 09:00",
+        "Standup 03-09 09:00",
+        "Standup (moved) 03-17 10:00",
+        "Standup 03-23 09:00",
+        "Standup 03-30 09:00",
+      ]);
+      expect(await storage.getEventExceptions(userId)).toEqual([
+        expect.objectContaining({ parentEventId: standup.id, type: "modified", modifiedEventId: moved!.id }),
+      ]);
+    });
+
+    it("undoes the last change to an occurrence", async () => {
+      const standup = await createStandup();
+      const occurrence = new Date("2026-03-16T09:00:00Z");
+      await storage.updateRecurringInstance(userId, standup.id, occurrence, { title: "Standup (moved)" });
+
+      expect(await storage.restoreRecurringInstance(userId, standup.id, occurrence)).toBe(true);
+      expect(await march()).toContain("Standup 03-16 09:00");
+      expect(await storage.getStoredEvents(userId)).toEqual([expect.objectContaining({ id: standup.id })]);
+      expect(await storage.getEventExceptions(userId)).toEqual([]);
+      expect(await storage.restoreRecurringInstance(userId, standup.id, occurrence)).toBe(false);
+    });
+
+    it("ignores occurrences of series that aren't there", async () => {
+      const occurrence = new Date("2026-03-16T09:00:00Z");
+      expect(await storage.deleteRecurringInstance(userId, randomUUID(), occurrence)).toBe(false);
+      expect(await storage.updateRecurringInstance(userId, randomUUID(), occurrence, { title: "Nope" })).toBeNull();
+      expect(await storage.restoreRecurringInstance(userId, randomUUID(), occurrence)).toBe(false);
+    });
+  });
+
+  describe("trash", () => {
+    it("moves a deleted series to the trash with its changed occurrences", async () => {
+      const standup = await createStandup();
+      const moved = await storage.updateRecurringInstance(userId, standup.id, new Date("2026-03-16T09:00:00Z"), { title: "Standup (moved)" });
+
+      expect(await storage.deleteEvent(userId, standup.id)).toBe(true);
+
+      expect(await storage.getEvent(userId, standup.id)).toBeUndefined();
+      expect(await storage.getEvent(userId, moved!.id)).toBeUndefined();
+      expect(await march()).toEqual([]);
+      expect(await storage.getStoredEvents(userId)).toEqual([]);
+      expect(await storage.getDeletedEvents(userId)).toEqual([expect.objectContaining({ id: standup.id, deletedAt: NOW })]);
+    });
+
+    it("restores a series with the occurrences deleted along with it", async () => {
+      const standup = await createStandup();
+      const moved = await storage.updateRecurringInstance(userId, standup.id, new Date("2026-03-16T09:00:00Z"), { title: "Standup (moved)" });
+      const cancelled = await storage.updateRecurringInstance(userId, standup.id, new Date("2026-03-23T09:00:00Z"), { title: "Standup (cancelled)" });
+
+      // The second is trashed on its own first
+      await storage.deleteEvent(userId, cancelled!.id);
+      vi.setSystemTime(NOW.getTime() + 60 * 1000);
+      await storage.deleteEvent(userId, standup.id);
+      expect((await storage.getDeletedEvents(userId)).map(event => event.id)).toEqual([standup.id, cancelled!.id]);
+
+      expect(await storage.restoreEvent(userId, standup.id)).toMatchObject({ id: standup.id, deletedAt: null });
+      expect(await storage.getEvent(userId, moved!.id)).toMatchObject({ title: "Standup (moved)" });
+      expect(await storage.getEvent(userId, cancelled!.id)).toBeUndefined();
+      expect((await storage.getDeletedEvents(userId)).map(event => event.id)).toEqual([cancelled!.id]);
+      expect(await storage.restoreEvent(userId, standup.id)).toBeUndefined();
+    });
+
+    it("purges a series for good, with its exceptions and changed occurrences", async () => {
+      const standup = await createStandup();
+      await storage.deleteRecurringInstance(userId, standup.id, new Date("2026-03-09T09:00:00Z"));
+      const moved = await storage.updateRecurringInstance(userId, standup.id, new Date("2026-03-16T09:00:00Z"), { title: "Standup (moved)" });
+      const lunch = await storage.createEvent(userId, { title: "Lunch", startDate: new Date("2026-03-11T12:00:00Z") });
+
+      expect(await storage.purgeEvent(userId, standup.id)).toBe(true);
+      expect(await storage.getEvent(userId, moved!.id)).toBeUndefined();
+      expect(await storage.getEventExceptions(userId)).toEqual([]);
+      expect(await storage.getDeletedEvents(userId)).toEqual([]);
+      expect(await storage.getStoredEvents(userId)).toEqual([expect.objectContaining({ id: lunch.id })]);
+      expect(await storage.purgeEvent(userId, standup.id)).toBe(false);
+    });
+
+    it("purges events trashed before the cutoff, with their exceptions", async () => {
+      const standup = await createStandup();
+      await storage.deleteRecurringInstance(userId, standup.id, new Date("2026-03-09T09:00:00Z"));
+      await storage.updateRecurringInstance(userId, standup.id, new Date("2026-03-16T09:00:00Z"), { title: "Standup (moved)" });
+      const lunch = await storage.createEvent(userId, { title: "Lunch", startDate: new Date("2026-03-11T12:00:00Z") });
+      const kept = await storage.createEvent(userId, { title: "Review", startDate: new Date("2026-03-12T12:00:00Z") });
+
+      await storage.deleteEvent(userId, standup.id);
+      vi.setSystemTime(NOW.getTime() + 2 * DAY_MS);
+      await storage.deleteEvent(userId, lunch.id);
+
+      // The series and its moved occurrence
+      expect(await storage.purgeDeletedEvents(new Date(NOW.getTime() + DAY_MS))).toBe(2);
+
+      expect((await storage.getDeletedEvents(userId)).map(event => event.id)).toEqual([lunch.id]);
+      expect(await storage.restoreEvent(userId, standup.id)).toBeUndefined();
+      expect(await storage.getEventExceptions(userId)).toEqual([]);
+      expect(await storage.getStoredEvents(userId)).toEqual([expect.objectContaining({ id: kept.id })]);
+    });
+  });
+});
@@ -1,28 +1,48 @@
-import { type Event, type InsertEvent, type User, type InsertUser } from "@shared/schema";
+import { type Event, type InsertEvent, type InsertStoredEvent, type User, type InsertUser, type UserPreferences, type EventException, DEFAULT_EVENT_DURATION } from "@shared/schema";
+import { expandRecurringEvent, getDefaultExpansionRange, shiftEndDate } from "@shared/recurrence";
+import { DEFAULT_LOCALE } from "@shared/locale";
 import { randomUUID } from "crypto";
+import { listTrash, deletedWithSeries } from "./trash";
 
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPreferences(id: string, preferences: UserPreferences): Promise<User | undefined>;
   
-  // Event methods
-  getEvents(): Promise<Event[]>;
-  getEvent(id: string): Promise<Event | undefined>;
-  getEventsByDateRange(startDate: Date, endDate: Date): Promise<Event[]>;
-  createEvent(event: InsertEvent): Promise<Event>;
-  updateEvent(id: string, event: Partial<InsertEvent>): Promise<Event | undefined>;
-  deleteEvent(id: string): Promise<boolean>;
+  // Event methods (always scoped to the owning user)
+  getEvents(userId: string): Promise<Event[]>;
+  getEvent(userId: string, id: string): Promise<Event | undefined>;
+  getEventsByDateRange(userId: string, startDate: Date, endDate: Date): Promise<Event[]>;
+  createEvent(userId: string, event: InsertStoredEvent): Promise<Event>;
+  updateEvent(userId: string, id: string, event: Partial<InsertEvent>): Promise<Event | undefined>;
+  // Moves the event, with its modified occurrences, to the trash; every other method ignores trashed events
+  deleteEvent(userId: string, id: string): Promise<boolean>;
+
+  // Stored rows without recurrence expansion (series, one-off events and modified instances)
+  getStoredEvents(userId: string): Promise<Event[]>;
+  getEventExceptions(userId: string): Promise<EventException[]>;
+
+  // Trash
+  getDeletedEvents(userId: string): Promise<Event[]>;
+  restoreEvent(userId: string, id: string): Promise<Event | undefined>;
+  // Removes events (of every user) trashed before the cutoff for good; resolves to how many
+  purgeDeletedEvents(deletedBefore: Date): Promise<number>;
+  // Removes the event, with its exceptions and modified occurrences, for good, trashed or not
+  purgeEvent(userId: string, id: string): Promise<boolean>;
   
-  // Recurring event methods
-  deleteRecurringInstance?(parentEventId: string, instanceDate: Date): Promise<boolean>;
-  updateRecurringInstance?(parentEventId: string, instanceDate: Date, updates: Partial<InsertEvent>): Promise<Event | null>;
+  // Recurring event methods; an occurrence is identified by its series and original start
+  deleteRecurringInstance(userId: string, parentEventId: string, instanceDate: Date): Promise<boolean>;
+  updateRecurringInstance(userId: string, parentEventId: string, instanceDate: Date, updates: Partial<InsertEvent>): Promise<Event | null>;
+  // Drops the latest exception for the occurrence (and its modified event), undoing the last change to it
+  restoreRecurringInstance(userId: string, parentEventId: string, instanceDate: Date): Promise<boolean>;
 }
 
-export class MemStorage implements IStorage {
-  private users: Map<string, User>;
-  private events: Map<string, Event>;
+// Users and events in memory; subclasses keep the exceptions to recurring series
+export abstract class MemStorage implements IStorage {
+  protected users: Map<string, User>;
+  protected events: Map<string, Event>;
 
   constructor() {
     this.users = new Map();
@@ -42,22 +62,36 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      ...insertUser,
+      id,
+      timezone: insertUser.timezone ?? "UTC",
+      defaultEventDuration: DEFAULT_EVENT_DURATION,
+      locale: DEFAULT_LOCALE,
+    };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUserPreferences(id: string, preferences: UserPreferences): Promise<User | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) return undefined;
+
+    const updatedUser: User = { ...existingUser, ...preferences };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // Event methods
-  async getEvents(): Promise<Event[]> {
+  async getEvents(userId: string): Promise<Event[]> {
+    const { start, end } = getDefaultExpansionRange();
     const allEvents: Event[] = [];
     
-    for (const event of Array.from(this.events.values())) {
-      allEvents.push(event);
-      
-      // Generate recurring event instances for the next 6 months
-      if (event.isRecurring && event.recurringPattern) {
-        const recurringEvents = this.generateRecurringEvents(event, 6 * 30); // 6 months
-        allEvents.push(...recurringEvents);
+    for (const event of this.getUserEvents(userId)) {
+      if (event.isRecurring && event.recurrenceRule) {
+        allEvents.push(...expandRecurringEvent(event, this.getExceptions(event.id), start, end));
+      } else {
+        allEvents.push(event);
       }
     }
     
@@ -66,30 +100,27 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async getEvent(id: string): Promise<Event | undefined> {
-    return this.events.get(id);
+  async getEvent(userId: string, id: string): Promise<Event | undefined> {
+    const event = this.events.get(id);
+    return event?.userId === userId && !event.deletedAt ? event : undefined;
   }
 
-  async getEventsByDateRange(startDate: Date, endDate: Date): Promise<Event[]> {
+  async getEventsByDateRange(userId: string, startDate: Date, endDate: Date): Promise<Event[]> {
     const allEvents: Event[] = [];
     
-    for (const event of Array.from(this.events.values())) {
+    for (const event of this.getUserEvents(userId)) {
+      if (event.isRecurring && event.recurrenceRule) {
+        // Include recurring instances if in range
+        allEvents.push(...expandRecurringEvent(event, this.getExceptions(event.id), startDate, endDate));
+        continue;
+      }
+
+      // Starting in the range, or started before it and still running
       const eventStart = new Date(event.startDate);
-      
-      // Include base event if in range
-      if (eventStart >= startDate && eventStart <= endDate) {
+      const eventEnd = event.endDate ? new Date(event.endDate) : eventStart;
+      if (eventStart <= endDate && (eventStart >= startDate || eventEnd > startDate)) {
         allEvents.push(event);
       }
-      
-      // Include recurring instances if in range
-      if (event.isRecurring && event.recurringPattern) {
-        const recurringEvents = this.generateRecurringEvents(event, 365); // 1 year
-        const filteredRecurring = recurringEvents.filter(recurEvent => {
-          const recurStart = new Date(recurEvent.startDate);
-          return recurStart >= startDate && recurStart <= endDate;
-        });
-        allEvents.push(...filteredRecurring);
-      }
     }
     
     return allEvents.sort(
@@ -97,25 +128,31 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createEvent(insertEvent: InsertEvent): Promise<Event> {
+  async createEvent(userId: string, insertEvent: InsertStoredEvent): Promise<Event> {
     const id = randomUUID();
     const event: Event = { 
       id,
+      userId,
       title: insertEvent.title,
       description: insertEvent.description || null,
       startDate: insertEvent.startDate,
       endDate: insertEvent.endDate || null,
+      timezone: insertEvent.timezone || null,
+      allDay: insertEvent.allDay || false,
       isRecurring: insertEvent.isRecurring || false,
-      recurringPattern: insertEvent.recurringPattern || null,
-      recurringWeeks: insertEvent.recurringWeeks || null,
-      createdAt: new Date()
+      recurrenceRule: insertEvent.recurrenceRule || null,
+      parentEventId: insertEvent.parentEventId || null,
+      originalDate: insertEvent.originalDate || null,
+      icalUid: insertEvent.icalUid || null,
+      createdAt: new Date(),
+      deletedAt: null
     };
     this.events.set(id, event);
     return event;
   }
 
-  async updateEvent(id: string, updateEvent: Partial<InsertEvent>): Promise<Event | undefined> {
-    const existingEvent = this.events.get(id);
+  async updateEvent(userId: string, id: string, updateEvent: Partial<InsertEvent>): Promise<Event | undefined> {
+    const existingEvent = await this.getEvent(userId, id);
     if (!existingEvent) return undefined;
 
     const updatedEvent: Event = { ...existingEvent, ...updateEvent };
@@ -123,99 +160,133 @@ export class MemStorage implements IStorage {
     return updatedEvent;
   }
 
-  async deleteEvent(id: string): Promise<boolean> {
-    return this.events.delete(id);
+  async deleteEvent(userId: string, id: string): Promise<boolean> {
+    const existingEvent = await this.getEvent(userId, id);
+    if (!existingEvent) return false;
+
+    // Occurrences share the series' deletion time, which is how restoring finds them again
+    const deletedAt = new Date();
+    for (const event of this.getUserEvents(userId)) {
+      if (event.id === id || event.parentEventId === id) {
+        this.events.set(event.id, { ...event, deletedAt });
+      }
+    }
+    return true;
   }
 
-  private generateRecurringEvents(baseEvent: Event, daysAhead: number): Event[] {
-    const recurringEvents: Event[] = [];
-    const baseDate = new Date(baseEvent.startDate);
-    
-    for (let i = 1; i <= Math.floor(daysAhead / this.getRecurrenceInterval(baseEvent.recurringPattern || 'weekly')); i++) {
-      const newDate = new Date(baseDate);
-      
-      switch (baseEvent.recurringPattern) {
-        case 'daily':
-          newDate.setDate(baseDate.getDate() + i);
-          break;
-        case 'weekly':
-          newDate.setDate(baseDate.getDate() + (i * 7));
-          break;
-        case 'monthly':
-          newDate.setMonth(baseDate.getMonth() + i);
-          break;
-        case 'yearly':
-          newDate.setFullYear(baseDate.getFullYear() + i);
-          break;
-        default:
-          continue;
+  async getStoredEvents(userId: string): Promise<Event[]> {
+    return this.getUserEvents(userId);
+  }
+
+  async getEventExceptions(userId: string): Promise<EventException[]> {
+    return this.getUserEvents(userId).flatMap(event => this.getExceptions(event.id));
+  }
+
+  async getDeletedEvents(userId: string): Promise<Event[]> {
+    return listTrash(this.getTrashedEvents(userId));
+  }
+
+  async restoreEvent(userId: string, id: string): Promise<Event | undefined> {
+    const trashed = this.getTrashedEvents(userId);
+    const event = trashed.find(candidate => candidate.id === id);
+    if (!event) return undefined;
+
+    for (const restored of [event, ...trashed.filter(candidate => candidate.parentEventId === id && deletedWithSeries(candidate, trashed))]) {
+      this.events.set(restored.id, { ...restored, deletedAt: null });
+    }
+    return this.events.get(id);
+  }
+
+  async purgeDeletedEvents(deletedBefore: Date): Promise<number> {
+    let purged = 0;
+    for (const event of Array.from(this.events.values())) {
+      if (event.deletedAt && event.deletedAt < deletedBefore) {
+        this.events.delete(event.id);
+        purged++;
       }
-      
-      recurringEvents.push({
-        id: `${baseEvent.id}-recur-${i}`, // Generate unique ID for recurring instance
-        title: baseEvent.title,
-        description: baseEvent.description,
-        startDate: newDate,
-        endDate: baseEvent.endDate ? new Date(newDate.getTime() + (new Date(baseEvent.endDate).getTime() - baseDate.getTime())) : null,
-        isRecurring: baseEvent.isRecurring,
-        recurringPattern: baseEvent.recurringPattern,
-        recurringWeeks: baseEvent.recurringWeeks,
-        createdAt: baseEvent.createdAt
-      });
     }
-    
-    return recurringEvents;
+    return purged;
   }
 
-  private getRecurrenceInterval(pattern?: string): number {
-    switch (pattern) {
-      case 'daily': return 1;
-      case 'weekly': return 7;
-      case 'monthly': return 30;
-      case 'yearly': return 365;
-      default: return 7;
+  async purgeEvent(userId: string, id: string): Promise<boolean> {
+    const event = this.events.get(id);
+    if (!event || event.userId !== userId) return false;
+
+    for (const purged of Array.from(this.events.values())) {
+      if (purged.id === id || (purged.parentEventId === id && purged.userId === userId)) {
+        this.events.delete(purged.id);
+      }
     }
+    return true;
+  }
+
+  protected getUserEvents(userId: string): Event[] {
+    return Array.from(this.events.values()).filter(event => event.userId === userId && !event.deletedAt);
   }
+
+  protected getTrashedEvents(userId: string): Event[] {
+    return Array.from(this.events.values()).filter(event => event.userId === userId && !!event.deletedAt);
+  }
+
+  abstract deleteRecurringInstance(userId: string, parentEventId: string, instanceDate: Date): Promise<boolean>;
+  abstract updateRecurringInstance(userId: string, parentEventId: string, instanceDate: Date, updates: Partial<InsertEvent>): Promise<Event | null>;
+  abstract restoreRecurringInstance(userId: string, parentEventId: string, instanceDate: Date): Promise<boolean>;
+
+  // Deleted/modified occurrences of a recurring event
+  protected abstract getExceptions(parentEventId: string): EventException[];
 }
 
+import { DrizzleStorage } from "./drizzleStorage";
 import { SupabaseStorage } from "./supabaseStorage";
+import { SqliteStorage } from "./sqliteStorage";
 
 // Enhanced memory storage with recurring event support
 export class EnhancedMemStorage extends MemStorage {
-  private eventExceptions: Map<string, any[]> = new Map();
+  private eventExceptions: Map<string, EventException[]> = new Map();
+
+  async deleteRecurringInstance(userId: string, parentEventId: string, instanceDate: Date): Promise<boolean> {
+    const parentEvent = await this.getEvent(userId, parentEventId);
+    if (!parentEvent) return false;
 
-  async deleteRecurringInstance(parentEventId: string, instanceDate: Date): Promise<boolean> {
     // Store exception for this instance
     if (!this.eventExceptions.has(parentEventId)) {
       this.eventExceptions.set(parentEventId, []);
     }
     
     this.eventExceptions.get(parentEventId)!.push({
+      id: randomUUID(),
+      parentEventId,
       exceptionDate: instanceDate,
-      type: 'deleted'
+      type: 'deleted',
+      modifiedEventId: null,
+      createdAt: new Date()
     });
     
     return true;
   }
 
-  async updateRecurringInstance(parentEventId: string, instanceDate: Date, updates: Partial<InsertEvent>): Promise<Event | null> {
-    const parentEvent = await this.getEvent(parentEventId);
+  async updateRecurringInstance(userId: string, parentEventId: string, instanceDate: Date, updates: Partial<InsertEvent>): Promise<Event | null> {
+    const parentEvent = await this.getEvent(userId, parentEventId);
     if (!parentEvent) return null;
 
     // Create a new modified event
     const modifiedEventId = randomUUID();
     const modifiedEvent: Event = {
       id: modifiedEventId,
+      userId,
       title: updates.title ?? parentEvent.title,
       description: updates.description ?? parentEvent.description,
       startDate: updates.startDate ?? instanceDate,
-      endDate: updates.endDate ?? parentEvent.endDate,
+      endDate: updates.endDate ?? shiftEndDate(parentEvent, updates.startDate ?? instanceDate),
+      timezone: updates.timezone ?? parentEvent.timezone,
+      allDay: updates.allDay ?? parentEvent.allDay,
       isRecurring: false,
-      recurringPattern: null,
-      recurringWeeks: null,
+      recurrenceRule: null,
       parentEventId,
       originalDate: instanceDate,
-      createdAt: new Date()
+      icalUid: null,
+      createdAt: new Date(),
+      deletedAt: null
     };
 
     this.events.set(modifiedEventId, modifiedEvent);
@@ -226,124 +297,89 @@ export class EnhancedMemStorage extends MemStorage {
     }
     
     this.eventExceptions.get(parentEventId)!.push({
+      id: randomUUID(),
+      parentEventId,
       exceptionDate: instanceDate,
       type: 'modified',
-      modifiedEventId
+      modifiedEventId,
+      createdAt: new Date()
     });
 
     return modifiedEvent;
   }
 
-  async getEvents(): Promise<Event[]> {
-    const baseEvents = Array.from(this.events.values());
-    return this.expandRecurringEvents(baseEvents);
-  }
+  async restoreRecurringInstance(userId: string, parentEventId: string, instanceDate: Date): Promise<boolean> {
+    const parentEvent = await this.getEvent(userId, parentEventId);
+    if (!parentEvent) return false;
 
-  private expandRecurringEvents(baseEvents: Event[]): Event[] {
-    const expandedEvents: Event[] = [];
-    const now = new Date();
-    const endDate = new Date(now.getTime() + (6 * 30 * 24 * 60 * 60 * 1000)); // 6 months ahead
+    const exceptions = this.eventExceptions.get(parentEventId) || [];
+    for (let i = exceptions.length - 1; i >= 0; i--) {
+      if (new Date(exceptions[i].exceptionDate).getTime() !== instanceDate.getTime()) continue;
 
-    for (const event of baseEvents) {
-      if (!event.isRecurring) {
-        expandedEvents.push(event);
-        continue;
+      const [exception] = exceptions.splice(i, 1);
+      if (exception.modifiedEventId) {
+        this.events.delete(exception.modifiedEventId);
       }
-
-      // Get exceptions for this event
-      const exceptions = this.eventExceptions.get(event.id) || [];
-      const deletedDates = new Set(
-        exceptions.filter(e => e.type === 'deleted').map(e => e.exceptionDate.toDateString())
-      );
-      const modifiedDates = new Set(
-        exceptions.filter(e => e.type === 'modified').map(e => e.exceptionDate.toDateString())
-      );
-
-      // Generate recurring instances
-      const instances = this.generateRecurringInstances(event, now, endDate, deletedDates, modifiedDates);
-      expandedEvents.push(...instances);
+      return true;
     }
+    return false;
+  }
 
-    return expandedEvents.sort((a, b) => 
-      new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
-    );
+  async purgeDeletedEvents(deletedBefore: Date): Promise<number> {
+    const purged = await super.purgeDeletedEvents(deletedBefore);
+    this.dropPurgedExceptions();
+    return purged;
   }
 
-  private generateRecurringInstances(
-    baseEvent: Event, 
-    startDate: Date, 
-    endDate: Date, 
-    deletedDates: Set<string>, 
-    modifiedDates: Set<string>
-  ): Event[] {
-    const instances: Event[] = [];
-    const eventStart = new Date(baseEvent.startDate);
-    let currentDate = new Date(Math.max(eventStart.getTime(), startDate.getTime()));
-    
-    // Calculate series end date
-    let seriesEndDate = endDate;
-    if (baseEvent.recurringWeeks && baseEvent.recurringWeeks !== 'indefinite') {
-      const weeksToAdd = parseInt(baseEvent.recurringWeeks);
-      const calculatedEndDate = new Date(eventStart.getTime() + (weeksToAdd * 7 * 24 * 60 * 60 * 1000));
-      seriesEndDate = new Date(Math.min(calculatedEndDate.getTime(), endDate.getTime()));
-    }
+  async purgeEvent(userId: string, id: string): Promise<boolean> {
+    const purged = await super.purgeEvent(userId, id);
+    this.dropPurgedExceptions();
+    return purged;
+  }
 
-    let iterationCount = 0;
-    const maxIterations = 500; // Prevent infinite loops
-
-    while (currentDate < seriesEndDate && iterationCount < maxIterations) {
-      iterationCount++;
-      
-      const dateString = currentDate.toDateString();
-      
-      // Skip deleted or modified instances
-      if (deletedDates.has(dateString) || modifiedDates.has(dateString)) {
-        currentDate = this.getNextRecurrenceDate(currentDate, baseEvent.recurringPattern!);
-        continue;
+  // Exceptions go with their series, and modified ones with their occurrence, as the database's cascades do
+  private dropPurgedExceptions(): void {
+    for (const [parentEventId, exceptions] of Array.from(this.eventExceptions.entries())) {
+      if (!this.events.has(parentEventId)) {
+        this.eventExceptions.delete(parentEventId);
+      } else {
+        this.eventExceptions.set(parentEventId, exceptions.filter(exception =>
+          !exception.modifiedEventId || this.events.has(exception.modifiedEventId)
+        ));
       }
-
-      // Create instance
-      const instanceId = `${baseEvent.id}-recur-${currentDate.getTime()}`;
-      const timeDiff = baseEvent.endDate 
-        ? new Date(baseEvent.endDate).getTime() - new Date(baseEvent.startDate).getTime()
-        : 0;
-      
-      instances.push({
-        ...baseEvent,
-        id: instanceId,
-        startDate: new Date(currentDate),
-        endDate: timeDiff > 0 ? new Date(currentDate.getTime() + timeDiff) : null,
-        parentEventId: baseEvent.id,
-        originalDate: new Date(currentDate)
-      });
-
-      currentDate = this.getNextRecurrenceDate(currentDate, baseEvent.recurringPattern!);
     }
+  }
 
-    return instances;
+  protected getExceptions(parentEventId: string): EventException[] {
+    return this.eventExceptions.get(parentEventId) || [];
   }
+}
 
-  private getNextRecurrenceDate(currentDate: Date, pattern: string): Date {
-    const next = new Date(currentDate);
-    switch (pattern) {
-      case 'daily':
-        next.setDate(next.getDate() + 1);
-        break;
-      case 'weekly':
-        next.setDate(next.getDate() + 7);
-        break;
-      case 'monthly':
-        next.setMonth(next.getMonth() + 1);
-        break;
-      case 'yearly':
-        next.setFullYear(next.getFullYear() + 1);
-        break;
-      default:
-        next.setDate(next.getDate() + 7);
-    }
-    return next;
+// STORAGE picks where data lives: "postgres" (the default when DATABASE_URL is set), "sqlite"
+// (a file at SQLITE_PATH, data/calendar.db by default) or "memory", which loses everything on restart
+function createStorage(): IStorage {
+  const choice = process.env.STORAGE ?? (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (choice) {
+    case "postgres":
+      if (!process.env.DATABASE_URL) {
+        throw new Error("STORAGE=postgres needs DATABASE_URL");
+      }
+      return new SupabaseStorage(process.env.DATABASE_URL);
+    case "sqlite":
+      return new SqliteStorage(process.env.SQLITE_PATH ?? "data/calendar.db");
+    case "memory":
+      return new EnhancedMemStorage();
+    default:
+      throw new Error(`Unknown STORAGE "${choice}", expected "memory", "sqlite" or "postgres"`);
   }
 }
 
-// Use enhanced memory storage with recurring event support
-export const storage = new EnhancedMemStorage();
+export const storage = createStorage();
+
+// Bring the database schema up to date before serving requests
+export async function prepareStorage(): Promise<void> {
+  if (storage instanceof DrizzleStorage) {
+    await storage.migrate();
+  }
+}
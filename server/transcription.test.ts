@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createTranscriptionProvider, FakeTranscriptionProvider } from "./transcription";
+
+describe("createTranscriptionProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("needs a model for whisper.cpp", () => {
+    vi.stubEnv("STT_PROVIDER", "whisper-cpp");
+    vi.stubEnv("WHISPER_CPP_MODEL", "");
+    expect(() => createTranscriptionProvider(null)).toThrow("WHISPER_CPP_MODEL must point to a ggml model");
+  });
+
+  it("needs a positive whole number of whisper.cpp threads", () => {
+    vi.stubEnv("STT_PROVIDER", "whisper-cpp");
+    vi.stubEnv("WHISPER_CPP_MODEL", "/models/ggml-base.bin");
+    for (const threads of ["0", "-2", "1.5", "four"]) {
+      vi.stubEnv("WHISPER_CPP_THREADS", threads);
+      expect(() => createTranscriptionProvider(null)).toThrow(`WHISPER_CPP_THREADS must be a positive whole number, not "${threads}"`);
+    }
+    vi.stubEnv("WHISPER_CPP_THREADS", "4");
+    expect(createTranscriptionProvider(null)).not.toBeNull();
+  });
+
+  it("needs an API key for OpenAI", () => {
+    vi.stubEnv("STT_PROVIDER", "openai");
+    expect(() => createTranscriptionProvider(null)).toThrow("OPENAI_API_KEY must be set");
+  });
+
+  it("transcribes offline with the fake provider", () => {
+    vi.stubEnv("STT_PROVIDER", "fake");
+    const provider = createTranscriptionProvider(null);
+    expect(provider).toBeInstanceOf(FakeTranscriptionProvider);
+  });
+});
@@ -0,0 +1,172 @@
+import OpenAI from "openai";
+import { execFile } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import type { Transcription, TranscriptSegment } from "@shared/transcription";
+
+const run = promisify(execFile);
+
+export interface AudioInput {
+  data: Buffer;
+  filename: string;
+  mimeType: string;
+  language?: string; // ISO-639-1 code; the provider detects it when not given
+}
+
+// Turns recorded audio into text
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(audio: AudioInput): Promise<Transcription>;
+}
+
+function overallConfidence(segments: TranscriptSegment[]): number | null {
+  const scored = segments.filter(segment => segment.confidence !== null);
+  if (scored.length === 0) return null;
+
+  const duration = scored.reduce((total, segment) => total + Math.max(segment.end - segment.start, 0), 0);
+  if (duration === 0) {
+    return scored.reduce((total, segment) => total + segment.confidence!, 0) / scored.length;
+  }
+  return scored.reduce((total, segment) => total + segment.confidence! * Math.max(segment.end - segment.start, 0), 0) / duration;
+}
+
+function toTranscription(segments: TranscriptSegment[], text?: string): Transcription {
+  return {
+    transcript: (text ?? segments.map(segment => segment.text).join(" ")).replace(/\s+/g, " ").trim(),
+    confidence: overallConfidence(segments),
+    segments,
+  };
+}
+
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = "openai";
+
+  constructor(private client: OpenAI, private model: string = "whisper-1") {}
+
+  async transcribe(audio: AudioInput): Promise<Transcription> {
+    const result = await this.client.audio.transcriptions.create({
+      file: new File([audio.data], audio.filename, { type: audio.mimeType }),
+      model: this.model,
+      language: audio.language,
+      response_format: "verbose_json",
+      timestamp_granularities: ["segment"],
+    });
+
+    // Whisper scores a segment by the mean log probability of its tokens
+    const segments = (result.segments ?? []).map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+      confidence: Math.exp(segment.avg_logprob),
+    }));
+    return toTranscription(segments, result.text);
+  }
+}
+
+// The parts of whisper.cpp's --output-json-full file that are read here
+interface WhisperCppOutput {
+  transcription: {
+    offsets: { from: number; to: number }; // Milliseconds
+    text: string;
+    tokens?: { text: string; p: number }[];
+  }[];
+}
+
+/**
+ * Runs whisper.cpp on this machine, so audio never leaves it. ffmpeg first converts the
+ * upload to the 16 kHz mono WAV whisper.cpp reads; both binaries must be on the PATH or
+ * configured, along with a downloaded ggml model.
+ */
+export class WhisperCppTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "whisper-cpp";
+
+  constructor(
+    private modelPath: string,
+    private binary: string = "whisper-cli",
+    private ffmpeg: string = "ffmpeg",
+    private threads: number = 4
+  ) {}
+
+  async transcribe(audio: AudioInput): Promise<Transcription> {
+    const dir = await mkdtemp(path.join(tmpdir(), "transcribe-"));
+    try {
+      const input = path.join(dir, `input${path.extname(audio.filename) || ".webm"}`);
+      const wav = path.join(dir, "audio.wav");
+      const output = path.join(dir, "transcript");
+      await writeFile(input, audio.data);
+
+      await run(this.ffmpeg, ["-nostdin", "-loglevel", "error", "-i", input, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wav]);
+      await run(this.binary, [
+        "-m", this.modelPath,
+        "-f", wav,
+        "-l", audio.language ?? "auto",
+        "-t", String(this.threads),
+        "-np",
+        "-ojf",
+        "-of", output,
+      ], { maxBuffer: 16 * 1024 * 1024 });
+
+      const result: WhisperCppOutput = JSON.parse(await readFile(`${output}.json`, "utf8"));
+      const segments = result.transcription.map(segment => {
+        // Special tokens such as [_BEG_] and [_TT_50] carry no speech
+        const tokens = (segment.tokens ?? []).filter(token => !/^\[_.*\]$/.test(token.text.trim()));
+        return {
+          start: segment.offsets.from / 1000,
+          end: segment.offsets.to / 1000,
+          text: segment.text.trim(),
+          confidence: tokens.length > 0 ? tokens.reduce((total, token) => total + token.p, 0) / tokens.length : null,
+        };
+      });
+      return toTranscription(segments);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+// Reads the upload as UTF-8 text and hears it as spoken, a word every 0.4s with full
+// confidence, so transcription can be exercised with no audio or network
+export class FakeTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "fake";
+
+  async transcribe(audio: AudioInput): Promise<Transcription> {
+    const text = audio.data.toString("utf8").trim();
+    if (!text) return toTranscription([]);
+
+    const words = text.split(/\s+/).length;
+    return toTranscription([{ start: 0, end: Math.round(words * 4) / 10, text, confidence: 1 }]);
+  }
+}
+
+/**
+ * STT_PROVIDER picks the provider: "openai" (the default when OPENAI_API_KEY is set, model
+ * overridable with STT_MODEL), "whisper-cpp" (needs WHISPER_CPP_MODEL), "fake" or "none".
+ */
+export function createTranscriptionProvider(openai: OpenAI | null): TranscriptionProvider | null {
+  const choice = process.env.STT_PROVIDER ?? (process.env.OPENAI_API_KEY ? "openai" : "none");
+
+  switch (choice) {
+    case "openai":
+      if (!openai) {
+        throw new Error("OPENAI_API_KEY must be set when STT_PROVIDER is openai");
+      }
+      return new OpenAITranscriptionProvider(openai, process.env.STT_MODEL);
+    case "whisper-cpp": {
+      const modelPath = process.env.WHISPER_CPP_MODEL;
+      if (!modelPath) {
+        throw new Error("WHISPER_CPP_MODEL must point to a ggml model when STT_PROVIDER is whisper-cpp");
+      }
+      const threads = process.env.WHISPER_CPP_THREADS ? Number(process.env.WHISPER_CPP_THREADS) : undefined;
+      if (threads !== undefined && !(Number.isInteger(threads) && threads > 0)) {
+        throw new Error(`WHISPER_CPP_THREADS must be a positive whole number, not "${process.env.WHISPER_CPP_THREADS}"`);
+      }
+      return new WhisperCppTranscriptionProvider(modelPath, process.env.WHISPER_CPP_BIN, process.env.FFMPEG_BIN, threads);
+    }
+    case "fake":
+      return new FakeTranscriptionProvider();
+    default:
+      return null;
+  }
+}
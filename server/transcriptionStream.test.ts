@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { partialDelay } from "./transcriptionStream";
+
+describe("partialDelay", () => {
+  it("spaces partial passes further apart as the recording grows", () => {
+    expect([0, 1, 2, 3].map(partialDelay)).toEqual([1000, 1500, 2250, 3375]);
+    expect(partialDelay(6)).toBe(8000);
+    expect(partialDelay(11)).toBe(8000);
+  });
+
+  it("stops after a dozen passes", () => {
+    const delays = Array.from({ length: 20 }, (_, count) => partialDelay(count));
+    expect(delays.filter(delay => delay !== null)).toHaveLength(12);
+    expect(delays.slice(12).every(delay => delay === null)).toBe(true);
+  });
+});
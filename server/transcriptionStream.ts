@@ -0,0 +1,210 @@
+import type { Request, RequestHandler, Response } from "express";
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import {
+  TRANSCRIPTION_STREAM_PATH,
+  transcriptionStreamControlSchema,
+  type TranscriptionStreamMessage,
+} from "@shared/transcription";
+import type { TranscriptionProvider } from "./transcription";
+
+// Same limit as uploads to /api/transcribe
+const MAX_STREAM_BYTES = 25 * 1024 * 1024;
+
+// Each partial pass transcribes all the audio so far, so they come further apart as it
+// grows: the first after a second, then half as long again each time up to MAX_PARTIAL_DELAY_MS,
+// and no more than MAX_PARTIALS per recording. The final pass still covers all of it.
+const FIRST_PARTIAL_DELAY_MS = 1000;
+const MAX_PARTIAL_DELAY_MS = 8000;
+const MAX_PARTIALS = 12;
+
+// Audio the partial passes of one recording may transcribe between them; a long recording
+// gets no more partial results once they would go over it
+const MAX_PARTIAL_BYTES = 8 * 1024 * 1024;
+
+// Recordings a session may stream at once
+const MAX_STREAMS_PER_SESSION = 2;
+
+// How long to wait before partial pass number `count` (from 0), or null when there are no more
+export function partialDelay(count: number): number | null {
+  if (count >= MAX_PARTIALS) return null;
+  return Math.min(FIRST_PARTIAL_DELAY_MS * Math.pow(1.5, count), MAX_PARTIAL_DELAY_MS);
+}
+
+function refuse(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Transcribe one recording as it arrives. The timeslices of a MediaRecorder only make a
+ * playable file together, so each partial result transcribes everything received so far;
+ * the next is timed from when the last has finished, and waits for more audio to come in.
+ */
+function streamTranscription(socket: WebSocket, transcriber: TranscriptionProvider, language: string) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let transcribedSize = 0;
+  let partialBytes = 0; // Transcribed by all partial passes so far
+  let mimeType = "audio/webm";
+  let partial: Promise<void> | null = null;
+  let partials = 0;
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  const send = (message: TranscriptionStreamMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const audio = () => ({
+    data: Buffer.concat(chunks),
+    filename: mimeType.startsWith("audio/wav") ? "recording.wav" : "recording.webm",
+    mimeType,
+    language,
+  });
+
+  const schedulePartial = (delay: number | null) => {
+    if (stopped || delay === null) return;
+    timer = setTimeout(transcribePartial, delay);
+  };
+
+  const transcribePartial = () => {
+    timer = null;
+    if (stopped) return;
+    if (size === transcribedSize) {
+      return schedulePartial(FIRST_PARTIAL_DELAY_MS);
+    }
+    if (partialBytes + size > MAX_PARTIAL_BYTES) return;
+
+    transcribedSize = size;
+    partialBytes += size;
+    partial = transcriber.transcribe(audio())
+      .then(result => {
+        if (!stopped && result.transcript) {
+          send({ type: "partial", transcript: result.transcript });
+        }
+      })
+      .catch(error => console.error("Partial transcription error:", error))
+      .finally(() => {
+        partial = null;
+        schedulePartial(partialDelay(++partials));
+      });
+  };
+
+  const cancelPartials = () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+
+  schedulePartial(partialDelay(0));
+
+  const stop = async () => {
+    if (stopped) return;
+    cancelPartials();
+    await partial;
+
+    try {
+      const result = size > 0
+        ? await transcriber.transcribe(audio())
+        : { transcript: "", confidence: null, segments: [] };
+      send({ type: "final", provider: transcriber.name, ...result });
+      socket.close(1000);
+    } catch (error) {
+      console.error("Streaming transcription error:", error);
+      send({ type: "error", message: "Failed to transcribe audio" });
+      socket.close(1011);
+    }
+  };
+
+  socket.on("message", (data: RawData, isBinary: boolean) => {
+    if (stopped) return;
+
+    if (isBinary) {
+      const chunk = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer);
+      size += chunk.length;
+      if (size > MAX_STREAM_BYTES) {
+        cancelPartials();
+        send({ type: "error", message: "Recording is too long" });
+        socket.close(1009);
+        return;
+      }
+      chunks.push(chunk);
+      return;
+    }
+
+    let control;
+    try {
+      control = transcriptionStreamControlSchema.parse(JSON.parse(data.toString()));
+    } catch {
+      send({ type: "error", message: "Invalid message" });
+      return;
+    }
+
+    if (control.type === "start") {
+      mimeType = control.mimeType;
+    } else if (control.type === "replace") {
+      chunks.length = 0;
+      size = 0;
+      transcribedSize = 0;
+      mimeType = control.mimeType;
+    } else {
+      void stop();
+    }
+  });
+
+  // A client that goes away mid-recording wants nothing more
+  socket.on("close", cancelPartials);
+}
+
+/**
+ * Serve TRANSCRIPTION_STREAM_PATH on the HTTP server to signed-in users, transcribing in the
+ * language `languageFor` gives for them. Other upgrade requests, such as Vite's hot reload
+ * socket, are left alone.
+ */
+export function attachTranscriptionStream(
+  server: Server,
+  sessionMiddleware: RequestHandler,
+  transcriber: TranscriptionProvider | null,
+  languageFor: (userId: string) => Promise<string>
+) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_STREAM_BYTES });
+  const openStreams = new Map<string, number>(); // By session ID
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== TRANSCRIPTION_STREAM_PATH) return;
+
+    // Read the session cookie the way the HTTP routes do
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      const userId = (req as Request).session?.userId;
+      if (!userId) {
+        return refuse(socket, "401 Unauthorized");
+      }
+      if (!transcriber) {
+        return refuse(socket, "503 Service Unavailable");
+      }
+      const sessionId = (req as Request).sessionID;
+      const streams = openStreams.get(sessionId) ?? 0;
+      if (streams >= MAX_STREAMS_PER_SESSION) {
+        return refuse(socket, "429 Too Many Requests");
+      }
+      // Counted until the connection closes, however far it gets
+      openStreams.set(sessionId, streams + 1);
+      socket.once("close", () => {
+        const left = openStreams.get(sessionId)! - 1;
+        if (left > 0) openStreams.set(sessionId, left);
+        else openStreams.delete(sessionId);
+      });
+
+      try {
+        const language = await languageFor(userId);
+        wss.handleUpgrade(req, socket, head, ws => streamTranscription(ws, transcriber, language));
+      } catch (error) {
+        console.error("Transcription stream error:", error);
+        refuse(socket, "500 Internal Server Error");
+      }
+    });
+  });
+}
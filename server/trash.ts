@@ -0,0 +1,40 @@
+import type { Event } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Days a deleted event stays in the trash before it is purged; TRASH_RETENTION_DAYS overrides it
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+// How often purgeable events are looked for
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Whether `event` was moved to the trash by the same delete as its series
+export function deletedWithSeries(event: Event, deleted: Event[]): boolean {
+  return !!event.parentEventId && deleted.some(parent =>
+    parent.id === event.parentEventId
+    && new Date(parent.deletedAt!).getTime() === new Date(event.deletedAt!).getTime()
+  );
+}
+
+/**
+ * The trash as the user sees it, most recently deleted first. Modified occurrences deleted
+ * along with their series come back when it is restored, so only the series is listed.
+ */
+export function listTrash(deleted: Event[]): Event[] {
+  return deleted
+    .filter(event => !deletedWithSeries(event, deleted))
+    .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime());
+}
+
+// Purge expired events now and then every hour for as long as the server runs
+export function schedulePurge(storage: IStorage): void {
+  const purge = async () => {
+    try {
+      await storage.purgeDeletedEvents(new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    } catch (error) {
+      console.error("Trash purge error:", error);
+    }
+  };
+
+  purge();
+  setInterval(purge, PURGE_INTERVAL_MS).unref();
+}
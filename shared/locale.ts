@@ -0,0 +1,23 @@
+// Languages voice commands can be spoken in
+export const SUPPORTED_LOCALES = ['en', 'es', 'de'] as const;
+
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  de: 'Deutsch',
+};
+
+// BCP 47 tags for speech recognition and synthesis
+export const SPEECH_LANGUAGES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  de: 'de-DE',
+};
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
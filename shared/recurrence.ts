@@ -0,0 +1,594 @@
+import { format } from "date-fns";
+import type { Event, EventException } from "./schema";
+import { getZonedParts, zonedTimeToUtc } from "./timezone";
+
+// RFC 5545 recurrence rules (RRULE), shared by every storage backend and the client
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface WeekdayNum {
+  weekday: Weekday;
+  n?: number; // Ordinal within the month/year, e.g. 1 = first, -1 = last
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: WeekdayNum[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  count?: number;
+  until?: Date;
+  wkst?: Weekday;
+}
+
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PERIODS = 10000; // Prevent runaway expansion of rules that never match
+const MAX_INSTANCES = 1000;
+
+function parseIntList(value: string, min: number, max: number, name: string): number[] {
+  return value.split(',').map(part => {
+    const num = parseInt(part, 10);
+    if (isNaN(num) || num === 0 || Math.abs(num) < min || Math.abs(num) > max) {
+      throw new Error(`Invalid ${name} value "${part}"`);
+    }
+    return num;
+  });
+}
+
+// Floating and DATE values are wall-clock times in the series' zone
+function parseUntil(value: string, timeZone?: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value "${value}"`);
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [parseInt(year), parseInt(month) - 1, parseInt(day)] as const;
+
+  if (hours === undefined) {
+    // A DATE value includes the whole day
+    return fromFloating(new Date(Date.UTC(...parts, 23, 59, 59)), timeZone);
+  }
+
+  const time = new Date(Date.UTC(...parts, parseInt(hours), parseInt(minutes), parseInt(seconds)));
+  return utc ? time : fromFloating(time, timeZone);
+}
+
+// `timeZone` is the series' zone, which a floating or DATE-only UNTIL is read in
+export function parseRRule(value: string, timeZone?: string): RecurrenceRule {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [rawKey, rawValue] = part.split('=');
+    const key = rawKey?.trim().toUpperCase();
+    const val = rawValue?.trim().toUpperCase();
+
+    if (!key || !val) {
+      throw new Error(`Invalid RRULE part "${part}"`);
+    }
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(val as Frequency)) {
+          throw new Error(`Unsupported FREQ "${val}"`);
+        }
+        rule.freq = val as Frequency;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInt(val, 10);
+        if (isNaN(rule.interval) || rule.interval < 1) {
+          throw new Error(`Invalid INTERVAL "${val}"`);
+        }
+        break;
+      case 'COUNT':
+        rule.count = parseInt(val, 10);
+        if (isNaN(rule.count) || rule.count < 1) {
+          throw new Error(`Invalid COUNT "${val}"`);
+        }
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(val, timeZone);
+        break;
+      case 'BYDAY':
+        rule.byDay = val.split(',').map(item => {
+          const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) {
+            throw new Error(`Invalid BYDAY value "${item}"`);
+          }
+          const n = match[1] ? parseInt(match[1], 10) : undefined;
+          if (n !== undefined && (n === 0 || Math.abs(n) > 53)) {
+            throw new Error(`Invalid BYDAY value "${item}"`);
+          }
+          return n !== undefined ? { weekday: match[2] as Weekday, n } : { weekday: match[2] as Weekday };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(val, 1, 31, 'BYMONTHDAY');
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntList(val, 1, 12, 'BYMONTH');
+        if (rule.byMonth.some(month => month < 0)) {
+          throw new Error(`Invalid BYMONTH value "${val}"`);
+        }
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntList(val, 1, 366, 'BYSETPOS');
+        break;
+      case 'WKST':
+        if (!WEEKDAYS.includes(val as Weekday)) {
+          throw new Error(`Invalid WKST "${val}"`);
+        }
+        rule.wkst = val as Weekday;
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part "${key}"`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error("RRULE is missing FREQ");
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error("RRULE cannot have both COUNT and UNTIL");
+  }
+
+  return rule as RecurrenceRule;
+}
+
+export function isValidRRule(value: string): boolean {
+  try {
+    parseRRule(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatUntil(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.n ?? ''}${day.weekday}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  if (rule.wkst) parts.push(`WKST=${rule.wkst}`);
+
+  return parts.join(';');
+}
+
+// Expansion works on "floating" dates whose UTC fields hold the wall-clock time in the
+// series' zone, so a 9 AM meeting stays at 9 AM across DST changes. Without a zone the
+// host's local time is used.
+function toFloating(date: Date, timeZone?: string): Date {
+  if (timeZone) {
+    const parts = getZonedParts(date, timeZone);
+    return new Date(Date.UTC(
+      parts.year, parts.month, parts.day, parts.hours, parts.minutes, parts.seconds, date.getMilliseconds()
+    ));
+  }
+  return new Date(Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+  ));
+}
+
+function fromFloating(date: Date, timeZone?: string): Date {
+  if (timeZone) {
+    return zonedTimeToUtc({
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth(),
+      day: date.getUTCDate(),
+      hours: date.getUTCHours(),
+      minutes: date.getUTCMinutes(),
+      seconds: date.getUTCSeconds(),
+    }, timeZone, date.getUTCMilliseconds());
+  }
+  return new Date(
+    date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(),
+    date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds()
+  );
+}
+
+function floatingDay(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// All days in [spanStart, spanEnd) matching BYDAY, with ordinals counted within the span
+function expandByDay(spanStart: Date, spanEnd: Date, byDay: WeekdayNum[]): Date[] {
+  const days: Date[] = [];
+
+  for (const { weekday, n } of byDay) {
+    const target = WEEKDAYS.indexOf(weekday);
+    const matches: Date[] = [];
+    const offset = (target - spanStart.getUTCDay() + 7) % 7;
+
+    for (let time = spanStart.getTime() + offset * DAY_MS; time < spanEnd.getTime(); time += 7 * DAY_MS) {
+      matches.push(new Date(time));
+    }
+
+    if (n === undefined) {
+      days.push(...matches);
+    } else {
+      const match = n > 0 ? matches[n - 1] : matches[matches.length + n];
+      if (match) days.push(match);
+    }
+  }
+
+  return days;
+}
+
+function expandByMonthDay(year: number, month: number, byMonthDay: number[]): Date[] {
+  const total = daysInMonth(year, month);
+  return byMonthDay
+    .map(day => (day > 0 ? day : total + day + 1))
+    .filter(day => day >= 1 && day <= total)
+    .map(day => floatingDay(year, month, day));
+}
+
+// Candidate days for one month of a MONTHLY or YEARLY rule
+function expandMonth(rule: RecurrenceRule, year: number, month: number, start: Date): Date[] {
+  const monthStart = floatingDay(year, month, 1);
+  const monthEnd = floatingDay(year, month + 1, 1);
+
+  if (rule.byMonthDay && rule.byDay) {
+    const allowed = new Set(expandByDay(monthStart, monthEnd, rule.byDay).map(day => day.getTime()));
+    return expandByMonthDay(year, month, rule.byMonthDay).filter(day => allowed.has(day.getTime()));
+  }
+  if (rule.byMonthDay) {
+    return expandByMonthDay(year, month, rule.byMonthDay);
+  }
+  if (rule.byDay) {
+    return expandByDay(monthStart, monthEnd, rule.byDay);
+  }
+
+  // Default to the start date's day of month, skipping months that don't have it
+  return start.getUTCDate() <= daysInMonth(year, month)
+    ? [floatingDay(year, month, start.getUTCDate())]
+    : [];
+}
+
+function matchesByDay(day: Date, byDay?: WeekdayNum[]): boolean {
+  return !byDay || byDay.some(item => WEEKDAYS.indexOf(item.weekday) === day.getUTCDay());
+}
+
+function matchesByMonth(day: Date, byMonth?: number[]): boolean {
+  return !byMonth || byMonth.includes(day.getUTCMonth() + 1);
+}
+
+function matchesByMonthDay(day: Date, byMonthDay?: number[]): boolean {
+  if (!byMonthDay) return true;
+  const total = daysInMonth(day.getUTCFullYear(), day.getUTCMonth());
+  return byMonthDay.some(item => (item > 0 ? item : total + item + 1) === day.getUTCDate());
+}
+
+function startOfPeriod(rule: RecurrenceRule, start: Date, period: number): Date {
+  const step = period * rule.interval;
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return floatingDay(year, month, start.getUTCDate() + step);
+    case 'WEEKLY': {
+      const weekStart = WEEKDAYS.indexOf(rule.wkst ?? 'MO');
+      const back = (start.getUTCDay() - weekStart + 7) % 7;
+      return floatingDay(year, month, start.getUTCDate() - back + step * 7);
+    }
+    case 'MONTHLY':
+      return floatingDay(year, month + step, 1);
+    case 'YEARLY':
+      return floatingDay(year + step, 0, 1);
+  }
+}
+
+// Sorted candidate days (at midnight) for the given period
+function candidateDays(rule: RecurrenceRule, start: Date, periodStart: Date): Date[] {
+  let days: Date[];
+
+  switch (rule.freq) {
+    case 'DAILY':
+      days = [periodStart].filter(day =>
+        matchesByDay(day, rule.byDay) && matchesByMonth(day, rule.byMonth) && matchesByMonthDay(day, rule.byMonthDay)
+      );
+      break;
+    case 'WEEKLY': {
+      const byDay = rule.byDay ?? [{ weekday: WEEKDAYS[start.getUTCDay()] }];
+      days = Array.from({ length: 7 }, (_, i) => new Date(periodStart.getTime() + i * DAY_MS))
+        .filter(day => matchesByDay(day, byDay) && matchesByMonth(day, rule.byMonth));
+      break;
+    }
+    case 'MONTHLY':
+      days = matchesByMonth(periodStart, rule.byMonth)
+        ? expandMonth(rule, periodStart.getUTCFullYear(), periodStart.getUTCMonth(), start)
+        : [];
+      break;
+    case 'YEARLY': {
+      const year = periodStart.getUTCFullYear();
+      if (rule.byDay && !rule.byMonth && !rule.byMonthDay) {
+        // e.g. BYDAY=20MO is the 20th Monday of the year
+        days = expandByDay(periodStart, floatingDay(year + 1, 0, 1), rule.byDay);
+      } else {
+        const months = rule.byMonth
+          ?? (rule.byMonthDay ? Array.from({ length: 12 }, (_, i) => i + 1) : [start.getUTCMonth() + 1]);
+        days = months.flatMap(month => expandMonth(rule, year, month - 1, start));
+      }
+      break;
+    }
+  }
+
+  days.sort((a, b) => a.getTime() - b.getTime());
+
+  if (rule.bySetPos) {
+    const selected = rule.bySetPos
+      .map(pos => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+      .filter((day): day is Date => !!day);
+    days = Array.from(new Set(selected)).sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  return days;
+}
+
+// Number of whole periods that can be skipped before rangeStart (only safe without COUNT)
+function periodsBefore(rule: RecurrenceRule, start: Date, rangeStart: Date): number {
+  if (rule.count !== undefined || rangeStart <= start) return 0;
+
+  let elapsed: number;
+  switch (rule.freq) {
+    case 'DAILY':
+      elapsed = Math.floor((rangeStart.getTime() - start.getTime()) / DAY_MS);
+      break;
+    case 'WEEKLY':
+      elapsed = Math.floor((rangeStart.getTime() - start.getTime()) / (7 * DAY_MS));
+      break;
+    case 'MONTHLY':
+      elapsed = (rangeStart.getUTCFullYear() - start.getUTCFullYear()) * 12
+        + rangeStart.getUTCMonth() - start.getUTCMonth();
+      break;
+    case 'YEARLY':
+      elapsed = rangeStart.getUTCFullYear() - start.getUTCFullYear();
+      break;
+  }
+
+  return Math.max(0, Math.floor(elapsed / rule.interval) - 1);
+}
+
+export interface ExpandOptions {
+  limit?: number;
+  timeZone?: string; // IANA zone the series is anchored in
+}
+
+/**
+ * Expand a rule into occurrence start dates within [rangeStart, rangeEnd].
+ * The first occurrence is always dtstart itself, as in RFC 5545.
+ */
+export function expandRRule(
+  rule: RecurrenceRule | string,
+  dtstart: Date,
+  rangeStart: Date,
+  rangeEnd: Date,
+  { limit = MAX_INSTANCES, timeZone }: ExpandOptions = {}
+): Date[] {
+  const parsed = typeof rule === 'string' ? parseRRule(rule, timeZone) : rule;
+  const start = toFloating(dtstart, timeZone);
+  const occurrences: Date[] = [];
+  let emitted = 0;
+
+  const addTime = (day: Date) => new Date(
+    day.getTime() + (start.getTime() - floatingDay(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()).getTime())
+  );
+
+  const emit = (occurrence: Date): boolean => {
+    if (parsed.until && occurrence > parsed.until) return false;
+    if (parsed.count !== undefined && emitted >= parsed.count) return false;
+    if (occurrence > rangeEnd) return false;
+
+    emitted++;
+    if (occurrence >= rangeStart) {
+      occurrences.push(occurrence);
+    }
+    return occurrences.length < limit;
+  };
+
+  // DTSTART always counts as the first instance, even if the rule wouldn't generate it
+  if (!emit(new Date(dtstart))) return occurrences;
+
+  const firstPeriod = periodsBefore(parsed, start, toFloating(rangeStart, timeZone));
+  for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+    const periodStart = startOfPeriod(parsed, start, period);
+    if (fromFloating(periodStart, timeZone) > rangeEnd) break;
+
+    for (const day of candidateDays(parsed, start, periodStart)) {
+      const floating = addTime(day);
+      if (floating <= start) continue;
+      if (!emit(fromFloating(floating, timeZone))) return occurrences;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * DTSTART always counts as an occurrence, even when it doesn't fit the rule
+ * (e.g. a Wednesday start for "first Monday of the month"). Returns the first
+ * date on or after `date` that the rule itself generates, keeping its time.
+ */
+export function alignToRule(rule: RecurrenceRule | string, date: Date, timeZone?: string): Date {
+  const parsed = typeof rule === 'string' ? parseRRule(rule, timeZone) : rule;
+  const start = toFloating(date, timeZone);
+  const startDay = floatingDay(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const matches = candidateDays(parsed, start, startOfPeriod(parsed, start, 0))
+    .some(day => day.getTime() === startDay.getTime());
+
+  if (matches) return date;
+
+  const { count, until, ...openEnded } = parsed;
+  const farFuture = new Date(date.getFullYear() + 10, 0, 1);
+  return expandRRule(openEnded, date, date, farFuture, { limit: 2, timeZone })[1] ?? date;
+}
+
+/**
+ * Rewrite a rule for a series whose start moves from `from` to `to`, so that a
+ * plain weekday or day of month pinned to the old start follows it
+ * (e.g. "weekly on Tuesday" becomes "weekly on Wednesday"). Other parts are kept.
+ */
+export function moveRuleToDate(rule: RecurrenceRule | string, from: Date, to: Date, timeZone?: string): string {
+  const parsed = typeof rule === 'string' ? parseRRule(rule, timeZone) : { ...rule };
+  const oldStart = toFloating(from, timeZone);
+  const newStart = toFloating(to, timeZone);
+  const oldWeekday = WEEKDAYS[oldStart.getUTCDay()];
+  const newWeekday = WEEKDAYS[newStart.getUTCDay()];
+
+  if (parsed.byDay && oldWeekday !== newWeekday) {
+    const pinned = parsed.byDay.filter(day => day.weekday === oldWeekday && day.n === undefined);
+    if (pinned.length > 0 && !parsed.byDay.some(day => day.weekday === newWeekday && day.n === undefined)) {
+      parsed.byDay = parsed.byDay.map(day => (pinned.includes(day) ? { weekday: newWeekday } : day));
+    }
+  }
+
+  if (parsed.byMonthDay && oldStart.getUTCDate() !== newStart.getUTCDate()) {
+    parsed.byMonthDay = parsed.byMonthDay.map(day => (day === oldStart.getUTCDate() ? newStart.getUTCDate() : day));
+  }
+
+  return formatRRule(parsed);
+}
+
+/**
+ * Split the rule of a series starting at `dtstart` at one of its occurrences: `before`
+ * ends just ahead of `splitDate`, and `after` repeats the same way from it, with any COUNT
+ * reduced by the occurrences already had.
+ */
+export function splitRRule(rule: RecurrenceRule | string, dtstart: Date, splitDate: Date, timeZone?: string): { before: string; after: string } {
+  const parsed = typeof rule === 'string' ? parseRRule(rule, timeZone) : rule;
+  const { count, until, ...openEnded } = parsed;
+  const before = formatRRule({ ...openEnded, until: new Date(splitDate.getTime() - 1000) });
+
+  if (count === undefined) {
+    return { before, after: formatRRule(parsed) };
+  }
+  const elapsed = expandRRule(parsed, dtstart, dtstart, new Date(splitDate.getTime() - 1), { timeZone }).length;
+  return { before, after: formatRRule({ ...openEnded, count: Math.max(1, count - elapsed) }) };
+}
+
+function ordinal(n: number): string {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinal(-n)} to last`;
+  const words = ['first', 'second', 'third', 'fourth', 'fifth'];
+  return words[n - 1] ?? `${n}th`;
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+// Human-readable summary, e.g. "Every 2 weeks on Tuesday and Thursday"
+export function describeRRule(rule: RecurrenceRule | string): string {
+  const parsed = typeof rule === 'string' ? parseRRule(rule) : rule;
+  const units: Record<Frequency, [string, string]> = {
+    DAILY: ['Daily', 'day'],
+    WEEKLY: ['Weekly', 'week'],
+    MONTHLY: ['Monthly', 'month'],
+    YEARLY: ['Yearly', 'year'],
+  };
+  const [adverb, unit] = units[parsed.freq];
+  let text = parsed.interval === 1 ? adverb : `Every ${parsed.interval} ${unit}s`;
+
+  if (parsed.byDay?.length) {
+    const position = parsed.bySetPos?.length === 1 ? parsed.bySetPos[0] : undefined;
+    const isWorkWeek = parsed.byDay.length === 5
+      && parsed.byDay.every(day => day.n === undefined && !['SA', 'SU'].includes(day.weekday));
+    const days = isWorkWeek ? ['weekday'] : parsed.byDay.map(day => {
+      const name = WEEKDAY_NAMES[WEEKDAYS.indexOf(day.weekday)];
+      return day.n !== undefined ? `the ${ordinal(day.n)} ${name}` : name;
+    });
+    text += position !== undefined
+      ? ` on the ${ordinal(position)} ${joinList(days)}`
+      : ` on ${isWorkWeek ? 'weekdays' : joinList(days)}`;
+  } else if (parsed.byMonthDay?.length) {
+    text += ` on day ${joinList(parsed.byMonthDay.map(day => (day === -1 ? 'last' : String(day))))}`;
+  }
+
+  if (parsed.count !== undefined) {
+    text += `, ${parsed.count} time${parsed.count > 1 ? 's' : ''}`;
+  } else if (parsed.until) {
+    text += `, until ${format(parsed.until, 'MMM d, yyyy')}`;
+  }
+
+  return text;
+}
+
+export type RecurrenceExceptionLike = Pick<EventException, 'exceptionDate' | 'type'>;
+
+export function getInstanceId(parentEventId: string, instanceDate: Date): string {
+  return `${parentEventId}-recur-${instanceDate.getTime()}`;
+}
+
+// End date for an occurrence starting at `start`, keeping the series' duration
+export function shiftEndDate(baseEvent: Pick<Event, 'startDate' | 'endDate'>, start: Date): Date | null {
+  if (!baseEvent.endDate) return null;
+  const duration = new Date(baseEvent.endDate).getTime() - new Date(baseEvent.startDate).getTime();
+  return duration > 0 ? new Date(start.getTime() + duration) : null;
+}
+
+/**
+ * Expand a stored recurring event into the instances overlapping [rangeStart, rangeEnd],
+ * skipping deleted and modified occurrences. An occurrence that started before the range
+ * and is still running when it begins is included.
+ */
+export function expandRecurringEvent(
+  baseEvent: Event,
+  exceptions: RecurrenceExceptionLike[],
+  rangeStart: Date,
+  rangeEnd: Date
+): Event[] {
+  if (!baseEvent.isRecurring || !baseEvent.recurrenceRule) return [];
+
+  // Exceptions name the occurrence by its original start
+  const skippedTimes = new Set(
+    exceptions.map(exception => new Date(exception.exceptionDate).getTime())
+  );
+  const timeZone = baseEvent.timezone ?? undefined;
+  const duration = shiftEndDate(baseEvent, new Date(0))?.getTime() ?? 0;
+  const expandFrom = new Date(rangeStart.getTime() - duration);
+  return expandRRule(baseEvent.recurrenceRule, new Date(baseEvent.startDate), expandFrom, rangeEnd, { timeZone })
+    .filter(date => date >= rangeStart || date.getTime() + duration > rangeStart.getTime())
+    .filter(date => !skippedTimes.has(date.getTime()))
+    .map(date => ({
+      ...baseEvent,
+      id: getInstanceId(baseEvent.id, date),
+      startDate: date,
+      endDate: shiftEndDate(baseEvent, date),
+      parentEventId: baseEvent.id,
+      originalDate: date
+    }));
+}
+
+// Window used when a caller asks for "all" events of a possibly infinite series
+export function getDefaultExpansionRange(now: Date = new Date()): { start: Date; end: Date } {
+  const start = new Date(now);
+  start.setMonth(start.getMonth() - 6);
+  const end = new Date(now);
+  end.setMonth(end.getMonth() + 6);
+  return { start, end };
+}
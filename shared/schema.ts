@@ -1,20 +1,39 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidRRule } from "./recurrence";
+import { isValidTimeZone } from "./timezone";
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from "./locale";
+
+// Length of events created without an end time, in minutes, unless the user picks another
+export const DEFAULT_EVENT_DURATION = 60;
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  timezone: text("timezone").notNull().default("UTC"), // IANA zone used for display and new events
+  defaultEventDuration: integer("default_event_duration").notNull().default(DEFAULT_EVENT_DURATION), // Minutes
+  locale: text("locale").notNull().default(DEFAULT_LOCALE), // Language voice commands are spoken in
+});
 
 export const events = pgTable("events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }), // Owner of the event
   title: text("title").notNull(),
   description: text("description"),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date"),
+  timezone: text("timezone"), // IANA zone the event (and its recurrence) is anchored in
+  allDay: boolean("all_day").default(false), // Runs from midnight of startDate to midnight of endDate (exclusive)
   isRecurring: boolean("is_recurring").default(false),
-  recurringPattern: text("recurring_pattern"), // daily, weekly, monthly, yearly
-  recurringWeeks: text("recurring_weeks"), // Number of weeks for recurring events (e.g., "4", "8", "indefinite")
+  recurrenceRule: text("recurrence_rule"), // RFC 5545 RRULE value, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH"
   parentEventId: varchar("parent_event_id"), // For recurring event instances
   originalDate: timestamp("original_date"), // Original date for recurring instances
+  icalUid: text("ical_uid"), // UID of the VEVENT this event was imported from
   createdAt: timestamp("created_at").default(sql`now()`),
+  deletedAt: timestamp("deleted_at"), // Set while the event is in the trash
 });
 
 // Table for tracking deleted/modified recurring event instances
@@ -27,9 +46,25 @@ export const eventExceptions = pgTable("event_exceptions", {
   createdAt: timestamp("created_at").default(sql`now()`),
 });
 
-export const insertEventSchema = createInsertSchema(events).omit({
+// userId is always taken from the session, never from the request body
+export const insertEventSchema = createInsertSchema(events, {
+  recurrenceRule: (schema) => schema.refine(
+    (value) => value === null || isValidRRule(value),
+    { message: "Invalid recurrence rule" }
+  ),
+  timezone: (schema) => schema.refine(
+    (value) => value === null || isValidTimeZone(value),
+    { message: "Invalid timezone" }
+  ),
+}).omit({
   id: true,
+  userId: true,
   createdAt: true,
+  deletedAt: true,
+  // Set by the server when it changes an occurrence or imports a calendar
+  parentEventId: true,
+  originalDate: true,
+  icalUid: true,
 });
 
 export const insertEventExceptionSchema = createInsertSchema(eventExceptions).omit({
@@ -38,20 +73,57 @@ export const insertEventExceptionSchema = createInsertSchema(eventExceptions).om
 });
 
 export type InsertEvent = z.infer<typeof insertEventSchema>;
+// An event as the server stores it, with the fields clients can't set
+export type InsertStoredEvent = InsertEvent & Partial<Pick<typeof events.$inferInsert, 'parentEventId' | 'originalDate' | 'icalUid'>>;
 export type Event = typeof events.$inferSelect;
 export type EventException = typeof eventExceptions.$inferSelect;
 export type InsertEventException = z.infer<typeof insertEventExceptionSchema>;
 
-export const users = pgTable("users", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  username: text("username").notNull().unique(),
-  password: text("password").notNull(),
-});
-
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  timezone: (schema) => schema.refine(isValidTimeZone, { message: "Invalid timezone" }),
+}).pick({
   username: true,
   password: true,
+  timezone: true,
 });
 
+export const userPreferencesSchema = z.object({
+  timezone: z.string().refine(isValidTimeZone, { message: "Invalid timezone" }),
+  defaultEventDuration: z.number().int().min(5).max(24 * 60),
+  locale: z.enum(SUPPORTED_LOCALES),
+}).partial();
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
 export type User = typeof users.$inferSelect;
+
+// Wall-clock time of day, "HH:mm"
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: "Expected a time as HH:mm" });
+
+// Query for GET /api/availability; times of day are read in `timezone`, the user's zone by default
+export const availabilityQuerySchema = z.object({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  duration: z.coerce.number().int().min(5).max(24 * 60).optional(), // Minutes; the user's default length if omitted
+  workdayStart: timeOfDaySchema.default("09:00"),
+  workdayEnd: timeOfDaySchema.default("17:00"),
+  timezone: z.string().refine(isValidTimeZone, { message: "Invalid timezone" }).optional(),
+})
+  .refine((query) => query.endDate > query.startDate, { message: "endDate must be after startDate", path: ["endDate"] })
+  .refine((query) => query.workdayEnd > query.workdayStart, { message: "workdayEnd must be after workdayStart", path: ["workdayEnd"] });
+
+export type AvailabilityQuery = z.infer<typeof availabilityQuerySchema>;
+
+// Result of changing or deleting an occurrence of a series and all the ones after it
+export interface SeriesSplit {
+  original: Event; // The series, now ending before the occurrence
+  series: Event | null; // The new series from the occurrence on; null when they were deleted
+  trashedIds: string[]; // Modified occurrences from the occurrence on, moved to the trash
+  deletedDates: Date[]; // Occurrences from the occurrence on that had been deleted, now deleted from the new series instead
+}
+
+// A gap in the calendar long enough for the requested duration
+export interface FreeSlot {
+  startDate: Date;
+  endDate: Date;
+}
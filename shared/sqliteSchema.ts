@@ -0,0 +1,45 @@
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { DEFAULT_EVENT_DURATION } from "./schema";
+import { DEFAULT_LOCALE } from "./locale";
+
+/**
+ * The tables of shared/schema.ts for SQLite. Columns have the same names and row types, so
+ * Event, User and EventException (and the insert schemas) are shared; timestamps are stored
+ * as epoch milliseconds and booleans as 0/1.
+ */
+
+export const users = sqliteTable("users", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  timezone: text("timezone").notNull().default("UTC"),
+  defaultEventDuration: integer("default_event_duration").notNull().default(DEFAULT_EVENT_DURATION),
+  locale: text("locale").notNull().default(DEFAULT_LOCALE),
+});
+
+export const events = sqliteTable("events", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  title: text("title").notNull(),
+  description: text("description"),
+  startDate: integer("start_date", { mode: "timestamp_ms" }).notNull(),
+  endDate: integer("end_date", { mode: "timestamp_ms" }),
+  timezone: text("timezone"),
+  allDay: integer("all_day", { mode: "boolean" }).default(false),
+  isRecurring: integer("is_recurring", { mode: "boolean" }).default(false),
+  recurrenceRule: text("recurrence_rule"),
+  parentEventId: text("parent_event_id"),
+  originalDate: integer("original_date", { mode: "timestamp_ms" }),
+  icalUid: text("ical_uid"),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+  deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
+});
+
+export const eventExceptions = sqliteTable("event_exceptions", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  parentEventId: text("parent_event_id").notNull().references(() => events.id, { onDelete: 'cascade' }),
+  exceptionDate: integer("exception_date", { mode: "timestamp_ms" }).notNull(),
+  type: text("type").notNull(),
+  modifiedEventId: text("modified_event_id").references(() => events.id, { onDelete: 'cascade' }),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
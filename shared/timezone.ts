@@ -0,0 +1,112 @@
+// IANA timezone helpers built on Intl, shared by the server and the client
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 0-based, like Date#getMonth
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getSystemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+// Wall-clock fields of an instant as seen in the given zone
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const field = (type: string) => parseInt(parts.find(part => part.type === type)!.value, 10);
+  return {
+    year: field("year"),
+    month: field("month") - 1,
+    day: field("day"),
+    hours: field("hour"),
+    minutes: field("minute"),
+    seconds: field("second"),
+  };
+}
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month, parts.day, parts.hours, parts.minutes, parts.seconds);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant at which the zone's clock shows the given wall-clock time. Times that
+ * fall in a DST gap are moved forward; ambiguous times resolve to the earlier instant.
+ */
+export function zonedTimeToUtc(parts: ZonedParts, timeZone: string, milliseconds: number = 0): Date {
+  const wallClock = Date.UTC(parts.year, parts.month, parts.day, parts.hours, parts.minutes, parts.seconds, milliseconds);
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  const secondGuess = wallClock - getTimeZoneOffset(new Date(firstGuess), timeZone);
+
+  if (firstGuess === secondGuess) return new Date(firstGuess);
+
+  // Around a transition the two guesses differ; prefer the one whose clock matches
+  const matches = (guess: number) => {
+    const zoned = getZonedParts(new Date(guess), timeZone);
+    return zoned.hours === parts.hours && zoned.minutes === parts.minutes;
+  };
+  if (matches(Math.min(firstGuess, secondGuess))) return new Date(Math.min(firstGuess, secondGuess));
+  if (matches(Math.max(firstGuess, secondGuess))) return new Date(Math.max(firstGuess, secondGuess));
+  return new Date(Math.max(firstGuess, secondGuess));
+}
+
+/**
+ * A Date whose local fields show the wall-clock time in `timeZone`, for use with
+ * date-fns formatting and day comparisons. Convert back with fromZonedTime.
+ */
+export function toZonedTime(date: Date, timeZone: string): Date {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(parts.year, parts.month, parts.day, parts.hours, parts.minutes, parts.seconds, date.getMilliseconds());
+}
+
+// Move by whole calendar days in the zone, keeping the wall-clock time across DST changes
+export function addZonedDays(date: Date, days: number, timeZone: string): Date {
+  const local = toZonedTime(date, timeZone);
+  local.setDate(local.getDate() + days);
+  return fromZonedTime(local, timeZone);
+}
+
+export function fromZonedTime(local: Date, timeZone: string): Date {
+  return zonedTimeToUtc({
+    year: local.getFullYear(),
+    month: local.getMonth(),
+    day: local.getDate(),
+    hours: local.getHours(),
+    minutes: local.getMinutes(),
+    seconds: local.getSeconds(),
+  }, timeZone, local.getMilliseconds());
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+// A stretch of speech, with times in seconds from the start of the audio
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  confidence: number | null; // 0 to 1, or null when the provider can't tell
+}
+
+export interface Transcription {
+  transcript: string;
+  confidence: number | null; // The segments' confidence weighted by their length
+  segments: TranscriptSegment[];
+}
+
+/**
+ * WebSocket for live transcription. The client sends a `start` message, then the
+ * MediaRecorder's timeslices as binary messages, then `stop`. Just before `stop` it may send
+ * `replace` and the audio to transcribe instead of what it streamed, such as the recording
+ * with its silence trimmed. The server answers with `partial` transcripts of the audio so far
+ * while it arrives, and one `final` (or `error`) after `stop`, then closes.
+ */
+export const TRANSCRIPTION_STREAM_PATH = "/api/transcribe/stream";
+
+export const transcriptionStreamControlSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("start"), mimeType: z.string().startsWith("audio/") }),
+  z.object({ type: z.literal("replace"), mimeType: z.string().startsWith("audio/") }),
+  z.object({ type: z.literal("stop") }),
+]);
+
+export type TranscriptionStreamControl = z.infer<typeof transcriptionStreamControlSchema>;
+
+export type TranscriptionStreamMessage =
+  | { type: "partial"; transcript: string }
+  | ({ type: "final"; provider: string } & Transcription)
+  | { type: "error"; message: string };
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { isValidRRule } from "./recurrence";
+import { isValidTimeZone } from "./timezone";
+
+export const VOICE_ACTIONS = ['create', 'edit', 'delete', 'find-slot', 'query', 'undo', 'redo', 'unknown'] as const;
+
+// Wall-clock date, with a time when one was spoken: "2025-03-14" or "2025-03-14T15:30"
+export const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?$/;
+
+/**
+ * A spoken command as returned by POST /api/parse-command. `start` and `end` are
+ * wall-clock values in the user's zone, and what they mean depends on the action:
+ * - create: the new event's start and (exclusive) end; whole days when allDay
+ * - edit: the new date and/or time when rescheduling `eventQuery`, or `newTitle` when renaming it
+ * - find-slot: the stretch to search for `durationMinutes` of free time
+ * - query: the stretch to read back, spoken as `rangeLabel`
+ * - undo, redo: take back or reapply the last change; nothing else applies
+ */
+export const voiceCommandSchema = z.object({
+  action: z.enum(VOICE_ACTIONS),
+  title: z.string().min(1).optional(),
+  start: z.string().regex(LOCAL_DATE_TIME).optional(),
+  end: z.string().regex(LOCAL_DATE_TIME).optional(),
+  allDay: z.boolean().optional(),
+  durationMinutes: z.number().int().min(5).max(24 * 60).optional(),
+  recurrenceRule: z.string().refine(isValidRRule, { message: "Invalid recurrence rule" }).optional(),
+  eventQuery: z.string().min(1).optional(),
+  newTitle: z.string().min(1).optional(),
+  rangeLabel: z.string().min(1).optional(),
+});
+
+export const parseCommandRequestSchema = z.object({
+  transcript: z.string().trim().min(1).max(1000),
+  timezone: z.string().refine(isValidTimeZone, { message: "Invalid timezone" }).optional(), // The user's zone when not given
+});
+
+export type ParsedVoiceCommand = z.infer<typeof voiceCommandSchema>;
+
+/**
+ * A LOCAL_DATE_TIME value as Dates whose local fields hold the wall-clock day and, when
+ * given, time (the same convention as toZonedTime).
+ */
+export function parseLocalDateTime(value: string): { date: Date; time?: Date } {
+  const [, year, month, day, hours, minutes] = value.match(LOCAL_DATE_TIME)!;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  const time = hours !== undefined
+    ? new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes))
+    : undefined;
+  return { date, time };
+}